@@ -0,0 +1,177 @@
+import { clearConfigCache, type Config, loadConfig } from "config/config.ts";
+import { ConfigurationError } from "src/types/result.ts";
+import { assertEquals, assertRejects } from "test-assert";
+
+const GITLAB_ENV: Record<string, string> = {
+  COSMOS_NODE_REST_URL: "http://localhost:1317",
+  CICD_UPDATE_BRANCH: "main",
+  CICD_TRIGGER_TOKEN: "trigger-token",
+  CICD_PERSONAL_ACCESS_TOKEN: "pat",
+  CICD_PROJECT_API_URL: "https://gitlab.example.com/api/v4/projects/1",
+};
+
+/**
+ * Loads the configuration from the given environment variables and an
+ * optional chains file, restoring the environment afterwards.
+ */
+async function loadWith(
+  env: Record<string, string>,
+  chains?: unknown[],
+): Promise<Config> {
+  const chainsFile = chains ? await Deno.makeTempFile({ suffix: ".json" }) : "";
+  const vars = chainsFile ? { ...env, CHAINS_CONFIG_FILE: chainsFile } : env;
+  const previous = Object.keys(vars).map((name) =>
+    [name, Deno.env.get(name)] as const
+  );
+
+  try {
+    if (chainsFile) {
+      await Deno.writeTextFile(chainsFile, JSON.stringify(chains));
+    }
+    for (const [name, value] of Object.entries(vars)) {
+      Deno.env.set(name, value);
+    }
+    clearConfigCache();
+    return await loadConfig();
+  } finally {
+    clearConfigCache();
+    for (const [name, value] of previous) {
+      if (value === undefined) {
+        Deno.env.delete(name);
+      } else {
+        Deno.env.set(name, value);
+      }
+    }
+    if (chainsFile) {
+      await Deno.remove(chainsFile);
+    }
+  }
+}
+
+Deno.test("loadConfig should build a single chain from the environment", async () => {
+  const config = await loadWith({ ...GITLAB_ENV, CHAIN_NAME: "cosmoshub" });
+
+  assertEquals(config.chains.length, 1);
+  assertEquals(config.chains[0].name, "cosmoshub");
+  assertEquals(config.chains[0].executor, "gitlab");
+  assertEquals(config.chains[0].cosmosNodeRestUrls, ["http://localhost:1317"]);
+});
+
+Deno.test("loadConfig should let chains file entries override the environment defaults", async () => {
+  const config = await loadWith({ ...GITLAB_ENV, POLL_INTERVAL_MS: "5000" }, [
+    { name: "cosmoshub", pollIntervalMs: 1000 },
+    {
+      name: "osmosis",
+      cosmosNodeRestUrls: ["http://osmosis:1317"],
+      cicdVariables: { PROVIDER: "aws" },
+    },
+  ]);
+
+  assertEquals(config.chains.map((chain) => chain.name), [
+    "cosmoshub",
+    "osmosis",
+  ]);
+  assertEquals(config.chains[0].pollIntervalMs, 1000);
+  assertEquals(config.chains[1].pollIntervalMs, 5000);
+  assertEquals(config.chains[0].cosmosNodeRestUrls, ["http://localhost:1317"]);
+  assertEquals(config.chains[1].cosmosNodeRestUrls, ["http://osmosis:1317"]);
+  assertEquals(config.chains[1].cicdVariables, '{"PROVIDER":"aws"}');
+  assertEquals(config.chains[0].cicdUpdateBranch, "main");
+});
+
+Deno.test("loadConfig should reject duplicate chain names", async () => {
+  await assertRejects(
+    () => loadWith(GITLAB_ENV, [{ name: "cosmoshub" }, { name: "cosmoshub" }]),
+    ConfigurationError,
+    'Duplicate chain name: "cosmoshub"',
+  );
+});
+
+Deno.test("loadConfig should report the keys missing for each executor", async () => {
+  const error = await assertRejects(
+    () =>
+      loadWith(GITLAB_ENV, [
+        { name: "cosmoshub" },
+        { name: "osmosis", executor: "github", githubWorkflow: "upgrade.yml" },
+        { name: "juno", executor: "webhook", webhookUrl: "https://hook" },
+      ]),
+    ConfigurationError,
+  );
+
+  assertEquals(error.message.split("\n").slice(1), [
+    "  - chains[1].githubRepository (or GITHUB_REPOSITORY)",
+    "  - chains[1].githubToken (or GITHUB_TOKEN)",
+    "  - chains[2].webhookSecret (or WEBHOOK_SECRET)",
+  ]);
+});
+
+Deno.test("loadConfig should name the missing environment variables in single-chain mode", async () => {
+  await assertRejects(
+    () => loadWith({ ...GITLAB_ENV, CICD_TRIGGER_TOKEN: "" }),
+    ConfigurationError,
+    "  - CICD_TRIGGER_TOKEN",
+  );
+});
+
+Deno.test("loadConfig should reject unknown keys and mistyped values in the chains file", async () => {
+  await assertRejects(
+    () => loadWith(GITLAB_ENV, [{ name: "cosmoshub", pollInterval: 1000 }]),
+    ConfigurationError,
+    'Unknown key "pollInterval" in chains[0]',
+  );
+  await assertRejects(
+    () => loadWith(GITLAB_ENV, [{ name: "cosmoshub", pollIntervalMs: "1000" }]),
+    ConfigurationError,
+    'Invalid value for "pollIntervalMs" in chains[0]',
+  );
+});
+
+Deno.test("loadConfig should reject unknown placeholders in pipeline variables", async () => {
+  await assertRejects(
+    () =>
+      loadWith({
+        ...GITLAB_ENV,
+        CHAIN_NAME: "cosmoshub",
+        CICD_VARIABLES: '{"TARGET": "{{plan.title}}"}',
+      }),
+    ConfigurationError,
+    'Unknown placeholder "{{plan.title}}" in CICD_VARIABLES of chain "cosmoshub" (variable TARGET)',
+  );
+});
+
+Deno.test("loadConfig should reject notification placeholders in pipeline variables", async () => {
+  await assertRejects(
+    () =>
+      loadWith(GITLAB_ENV, [{
+        name: "cosmoshub",
+        rollbackCicdVariables: '{"LINK": "{{pipeline.url}}"}',
+      }]),
+    ConfigurationError,
+    'Unavailable placeholder "{{pipeline.url}}" in ROLLBACK_CICD_VARIABLES of chain "cosmoshub" (variable LINK)',
+  );
+  await assertRejects(
+    () =>
+      loadWith({
+        ...GITLAB_ENV,
+        CICD_VARIABLES: '{"MSG": "{{event.message}}"}',
+      }),
+    ConfigurationError,
+    'Unavailable placeholder "{{event.message}}"',
+  );
+});
+
+Deno.test("loadConfig should accept empty templates and reject empty placeholders", async () => {
+  const config = await loadWith({
+    ...GITLAB_ENV,
+    CICD_VARIABLES: '{"NOTE": ""}',
+    NOTIFICATION_TEMPLATE: "",
+  });
+  assertEquals(config.notificationTemplate, "");
+  assertEquals(config.chains[0].cicdVariables, '{"NOTE": ""}');
+
+  await assertRejects(
+    () => loadWith({ ...GITLAB_ENV, NOTIFICATION_TEMPLATE: "{{ }} upgrade" }),
+    ConfigurationError,
+    'Unknown placeholder "{{}}" in NOTIFICATION_TEMPLATE',
+  );
+});
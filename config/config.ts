@@ -1,38 +1,711 @@
 import { load } from "dotenv";
+import { MONITOR_EVENT_TYPES, MonitorEventType } from "src/types/events.ts";
+import { EXECUTOR_TYPES, ExecutorType } from "src/types/executor.ts";
+import { MANUAL_JOB_ACTIONS, ManualJobAction } from "src/types/gitlab.ts";
+import {
+  NOTIFICATION_CHANNEL_TYPES,
+  NotificationChannel,
+  SMTP_SECURITY_MODES,
+  SmtpConfig,
+  SmtpSecurity,
+} from "src/types/notifications.ts";
 import { ConfigurationError } from "src/types/result.ts";
+import {
+  PIPELINE_VARIABLE_PLACEHOLDERS,
+  TEMPLATE_PLACEHOLDERS,
+  TemplatePlaceholder,
+} from "src/types/template.ts";
+import { findUnknownPlaceholders } from "src/utils/template.ts";
 
-export interface Config {
-  applicationPort: number;
+/**
+ * Configuration of a single monitored chain. Every chain gets its own
+ * CosmosMonitor with its own node and pipeline executor settings.
+ */
+export interface ChainConfig {
+  name: string;
   pollIntervalMs: number;
-  cosmosNodeRestUrl: string;
+  cosmosNodeRestUrls: string[];
+  nodeLagThresholdBlocks: number;
+  executor: ExecutorType;
   cicdTriggerToken: string;
   cicdPersonalAccessToken: string;
   cicdUpdateBranch: string;
   cicdProjectApiUrl: string;
   cicdVariables: string;
+  manualJobAction: ManualJobAction;
+  manualJobTimeoutMs: number;
+  githubApiUrl: string;
+  githubRepository: string;
+  githubWorkflow: string;
+  githubToken: string;
+  webhookUrl: string;
+  webhookSecret: string;
+  localCommand: string;
+  localCommandArgs: string[];
+  localCommandTimeoutMs: number;
+  jenkinsUrl: string;
+  jenkinsJob: string;
+  jenkinsUser: string;
+  jenkinsApiToken: string;
+  stateDir: string;
+  prepareTriggerBlocks: number;
+  prepareTriggerLeadTimeMs: number;
+  prepareCicdUpdateBranch: string;
+  prepareCicdVariables: string;
+  rollbackEnabled: boolean;
+  rollbackCicdUpdateBranch: string;
+  rollbackCicdVariables: string;
+  planRevalidateCycles: number;
+  notifyBlocksRemaining: number;
+  emailInfoRecipients: string[];
+  emailWarningRecipients: string[];
+  emailCriticalRecipients: string[];
+  postUpgradeVerifyTimeoutMs: number;
+  pipelineTimeoutMs: number;
+  cancelPipelineOnAbort: boolean;
+  pipelineMaxAttempts: number;
+  pipelineRetryBackoffMs: number;
+  pipelineRetryMaxBackoffMs: number;
+  pipelineRetryableStatuses: string[];
+  dryRun: boolean;
+  dryRunPipelineStatus: string;
 }
 
-const REQUIRED_KEYS: ReadonlyArray<keyof Config> = [
-  "cosmosNodeRestUrl",
-  "cicdTriggerToken",
-  "cicdPersonalAccessToken",
-  "cicdUpdateBranch",
-  "cicdProjectApiUrl",
+export interface Config {
+  applicationPort: number;
+  readinessNodeDownThresholdMs: number;
+  livenessTimeoutMs: number;
+  adminApiToken: string;
+  notificationChannels: NotificationChannel[];
+  /** Template of the notification message, empty for the event message */
+  notificationTemplate: string;
+  /** Null when email notifications are disabled */
+  smtp: SmtpConfig | null;
+  chains: ChainConfig[];
+}
+
+const REQUIRED_KEYS: ReadonlyArray<keyof ChainConfig> = [
+  "cosmosNodeRestUrls",
 ];
 
-const ENV_VAR_MAPPING: Record<keyof Config, string> = {
-  cosmosNodeRestUrl: "COSMOS_NODE_REST_URL",
+/**
+ * Keys additionally required by each pipeline executor.
+ */
+const EXECUTOR_REQUIRED_KEYS: Record<
+  ExecutorType,
+  ReadonlyArray<keyof ChainConfig>
+> = {
+  gitlab: [
+    "cicdUpdateBranch",
+    "cicdTriggerToken",
+    "cicdPersonalAccessToken",
+    "cicdProjectApiUrl",
+  ],
+  github: [
+    "cicdUpdateBranch",
+    "githubApiUrl",
+    "githubRepository",
+    "githubWorkflow",
+    "githubToken",
+  ],
+  webhook: [
+    "webhookUrl",
+    "webhookSecret",
+  ],
+  command: [
+    "localCommand",
+  ],
+  jenkins: [
+    "jenkinsUrl",
+    "jenkinsJob",
+    "jenkinsUser",
+    "jenkinsApiToken",
+  ],
+};
+
+const ENV_VAR_MAPPING: Record<keyof ChainConfig, string> = {
+  name: "CHAIN_NAME",
+  cosmosNodeRestUrls: "COSMOS_NODE_REST_URL",
+  nodeLagThresholdBlocks: "NODE_LAG_THRESHOLD_BLOCKS",
+  executor: "EXECUTOR",
   cicdTriggerToken: "CICD_TRIGGER_TOKEN",
   cicdPersonalAccessToken: "CICD_PERSONAL_ACCESS_TOKEN",
   cicdUpdateBranch: "CICD_UPDATE_BRANCH",
   cicdProjectApiUrl: "CICD_PROJECT_API_URL",
-  applicationPort: "APPLICATION_PORT",
   pollIntervalMs: "POLL_INTERVAL_MS",
   cicdVariables: "CICD_VARIABLES",
+  manualJobAction: "MANUAL_JOB_ACTION",
+  manualJobTimeoutMs: "MANUAL_JOB_TIMEOUT_MS",
+  githubApiUrl: "GITHUB_API_URL",
+  githubRepository: "GITHUB_REPOSITORY",
+  githubWorkflow: "GITHUB_WORKFLOW",
+  githubToken: "GITHUB_TOKEN",
+  webhookUrl: "WEBHOOK_URL",
+  webhookSecret: "WEBHOOK_SECRET",
+  localCommand: "LOCAL_COMMAND",
+  localCommandArgs: "LOCAL_COMMAND_ARGS",
+  localCommandTimeoutMs: "LOCAL_COMMAND_TIMEOUT_MS",
+  jenkinsUrl: "JENKINS_URL",
+  jenkinsJob: "JENKINS_JOB",
+  jenkinsUser: "JENKINS_USER",
+  jenkinsApiToken: "JENKINS_API_TOKEN",
+  stateDir: "STATE_DIR",
+  prepareTriggerBlocks: "PREPARE_TRIGGER_BLOCKS",
+  prepareTriggerLeadTimeMs: "PREPARE_TRIGGER_LEAD_TIME_MS",
+  prepareCicdUpdateBranch: "PREPARE_CICD_UPDATE_BRANCH",
+  prepareCicdVariables: "PREPARE_CICD_VARIABLES",
+  rollbackEnabled: "ROLLBACK_ENABLED",
+  rollbackCicdUpdateBranch: "ROLLBACK_CICD_UPDATE_BRANCH",
+  rollbackCicdVariables: "ROLLBACK_CICD_VARIABLES",
+  planRevalidateCycles: "PLAN_REVALIDATE_CYCLES",
+  notifyBlocksRemaining: "NOTIFY_BLOCKS_REMAINING",
+  emailInfoRecipients: "EMAIL_INFO_RECIPIENTS",
+  emailWarningRecipients: "EMAIL_WARNING_RECIPIENTS",
+  emailCriticalRecipients: "EMAIL_CRITICAL_RECIPIENTS",
+  postUpgradeVerifyTimeoutMs: "POST_UPGRADE_VERIFY_TIMEOUT_MS",
+  pipelineTimeoutMs: "PIPELINE_TIMEOUT_MS",
+  cancelPipelineOnAbort: "CANCEL_PIPELINE_ON_ABORT",
+  pipelineMaxAttempts: "PIPELINE_MAX_ATTEMPTS",
+  pipelineRetryBackoffMs: "PIPELINE_RETRY_BACKOFF_MS",
+  pipelineRetryMaxBackoffMs: "PIPELINE_RETRY_MAX_BACKOFF_MS",
+  pipelineRetryableStatuses: "PIPELINE_RETRYABLE_STATUSES",
+  dryRun: "DRY_RUN",
+  dryRunPipelineStatus: "DRY_RUN_PIPELINE_STATUS",
 };
 
+/**
+ * Keys holding pipeline variables as a JSON string. The chains file may
+ * specify them as plain objects instead.
+ */
+const VARIABLE_KEYS: ReadonlyArray<keyof ChainConfig> = [
+  "cicdVariables",
+  "prepareCicdVariables",
+  "rollbackCicdVariables",
+];
+
+/**
+ * Terminal pipeline statuses a dry run may simulate.
+ */
+const DRY_RUN_STATUSES: ReadonlyArray<string> = [
+  "success",
+  "failed",
+  "canceled",
+  "skipped",
+];
+
+/**
+ * Unsuccessful pipeline statuses a failed upgrade may be retried for.
+ */
+const RETRYABLE_STATUSES: ReadonlyArray<string> = [
+  "failed",
+  "canceled",
+  "skipped",
+  "timeout",
+];
+
 let configCache: Config | null = null;
 
+/**
+ * Reads an integer environment variable.
+ *
+ * @param name - The environment variable name.
+ * @param fallback - The value used when the variable is not set.
+ * @param min - The smallest accepted value.
+ * @returns The parsed integer.
+ */
+function parseIntegerEnv(name: string, fallback: string, min: number): number {
+  const valueStr = Deno.env.get(name) || fallback;
+  const value = parseInt(valueStr, 10);
+
+  if (isNaN(value) || value < min) {
+    throw new ConfigurationError(`Invalid ${name}: "${valueStr}"`);
+  }
+
+  return value;
+}
+
+/**
+ * Reads a boolean environment variable ("true" or "false").
+ *
+ * @param name - The environment variable name.
+ * @param fallback - The value used when the variable is not set.
+ * @returns The parsed boolean.
+ */
+function parseBooleanEnv(name: string, fallback: boolean): boolean {
+  const valueStr = (Deno.env.get(name) ?? "").trim().toLowerCase();
+
+  if (valueStr === "") return fallback;
+  if (valueStr === "true") return true;
+  if (valueStr === "false") return false;
+
+  throw new ConfigurationError(`Invalid ${name}: "${valueStr}"`);
+}
+
+/**
+ * Splits a comma-separated environment variable into its non-empty entries.
+ *
+ * @param name - The environment variable name.
+ * @param fallback - The value used when the variable is not set.
+ * @returns The list of trimmed entries.
+ */
+function parseListEnv(name: string, fallback: string = ""): string[] {
+  return (Deno.env.get(name) ?? fallback)
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry !== "");
+}
+
+/**
+ * Builds the chain configuration from environment variables. In multi-chain
+ * mode these values act as defaults for every entry of the chains file.
+ *
+ * @returns The chain configuration derived from the environment.
+ */
+function loadChainDefaultsFromEnv(): ChainConfig {
+  return {
+    name: Deno.env.get("CHAIN_NAME") || "default",
+    pollIntervalMs: parseIntegerEnv("POLL_INTERVAL_MS", "2000", 1),
+    cosmosNodeRestUrls: parseListEnv("COSMOS_NODE_REST_URL"),
+    nodeLagThresholdBlocks: parseIntegerEnv(
+      "NODE_LAG_THRESHOLD_BLOCKS",
+      "10",
+      0,
+    ),
+    executor: (Deno.env.get("EXECUTOR") || "gitlab") as ExecutorType,
+    cicdTriggerToken: Deno.env.get("CICD_TRIGGER_TOKEN") ?? "",
+    cicdPersonalAccessToken: Deno.env.get("CICD_PERSONAL_ACCESS_TOKEN") ?? "",
+    cicdUpdateBranch: Deno.env.get("CICD_UPDATE_BRANCH") ?? "",
+    cicdProjectApiUrl: Deno.env.get("CICD_PROJECT_API_URL") ?? "",
+    cicdVariables: Deno.env.get("CICD_VARIABLES") ?? "",
+    manualJobAction: (Deno.env.get("MANUAL_JOB_ACTION") ||
+      "wait") as ManualJobAction,
+    manualJobTimeoutMs: parseIntegerEnv("MANUAL_JOB_TIMEOUT_MS", "3600000", 0),
+    githubApiUrl: Deno.env.get("GITHUB_API_URL") || "https://api.github.com",
+    githubRepository: Deno.env.get("GITHUB_REPOSITORY") ?? "",
+    githubWorkflow: Deno.env.get("GITHUB_WORKFLOW") ?? "",
+    githubToken: Deno.env.get("GITHUB_TOKEN") ?? "",
+    webhookUrl: Deno.env.get("WEBHOOK_URL") ?? "",
+    webhookSecret: Deno.env.get("WEBHOOK_SECRET") ?? "",
+    localCommand: Deno.env.get("LOCAL_COMMAND") ?? "",
+    localCommandArgs: parseListEnv("LOCAL_COMMAND_ARGS"),
+    localCommandTimeoutMs: parseIntegerEnv(
+      "LOCAL_COMMAND_TIMEOUT_MS",
+      "3600000",
+      1,
+    ),
+    jenkinsUrl: Deno.env.get("JENKINS_URL") ?? "",
+    jenkinsJob: Deno.env.get("JENKINS_JOB") ?? "",
+    jenkinsUser: Deno.env.get("JENKINS_USER") ?? "",
+    jenkinsApiToken: Deno.env.get("JENKINS_API_TOKEN") ?? "",
+    stateDir: Deno.env.get("STATE_DIR") ?? "./state",
+    prepareTriggerBlocks: parseIntegerEnv("PREPARE_TRIGGER_BLOCKS", "0", 0),
+    prepareTriggerLeadTimeMs: parseIntegerEnv(
+      "PREPARE_TRIGGER_LEAD_TIME_MS",
+      "0",
+      0,
+    ),
+    prepareCicdUpdateBranch: Deno.env.get("PREPARE_CICD_UPDATE_BRANCH") ?? "",
+    prepareCicdVariables: Deno.env.get("PREPARE_CICD_VARIABLES") ?? "",
+    rollbackEnabled: parseBooleanEnv("ROLLBACK_ENABLED", false),
+    rollbackCicdUpdateBranch: Deno.env.get("ROLLBACK_CICD_UPDATE_BRANCH") ??
+      "",
+    rollbackCicdVariables: Deno.env.get("ROLLBACK_CICD_VARIABLES") ?? "",
+    planRevalidateCycles: parseIntegerEnv("PLAN_REVALIDATE_CYCLES", "1", 1),
+    notifyBlocksRemaining: parseIntegerEnv("NOTIFY_BLOCKS_REMAINING", "0", 0),
+    emailInfoRecipients: parseListEnv("EMAIL_INFO_RECIPIENTS"),
+    emailWarningRecipients: parseListEnv("EMAIL_WARNING_RECIPIENTS"),
+    emailCriticalRecipients: parseListEnv("EMAIL_CRITICAL_RECIPIENTS"),
+    postUpgradeVerifyTimeoutMs: parseIntegerEnv(
+      "POST_UPGRADE_VERIFY_TIMEOUT_MS",
+      "600000",
+      0,
+    ),
+    pipelineTimeoutMs: parseIntegerEnv("PIPELINE_TIMEOUT_MS", "7200000", 0),
+    cancelPipelineOnAbort: parseBooleanEnv("CANCEL_PIPELINE_ON_ABORT", false),
+    pipelineMaxAttempts: parseIntegerEnv("PIPELINE_MAX_ATTEMPTS", "3", 0),
+    pipelineRetryBackoffMs: parseIntegerEnv(
+      "PIPELINE_RETRY_BACKOFF_MS",
+      "600000",
+      0,
+    ),
+    pipelineRetryMaxBackoffMs: parseIntegerEnv(
+      "PIPELINE_RETRY_MAX_BACKOFF_MS",
+      "3600000",
+      0,
+    ),
+    pipelineRetryableStatuses: parseListEnv(
+      "PIPELINE_RETRYABLE_STATUSES",
+      "failed,timeout",
+    ),
+    dryRun: parseBooleanEnv("DRY_RUN", false),
+    dryRunPipelineStatus: Deno.env.get("DRY_RUN_PIPELINE_STATUS") || "success",
+  };
+}
+
+/**
+ * Reads a comma-separated list of monitor event types, defaulting to all.
+ *
+ * @param name - The environment variable name.
+ * @returns The validated event types.
+ */
+function parseEventsEnv(name: string): MonitorEventType[] {
+  const events = parseListEnv(name, MONITOR_EVENT_TYPES.join(","));
+  const invalidEvent = events.find((event) =>
+    !MONITOR_EVENT_TYPES.includes(event as MonitorEventType)
+  );
+  if (invalidEvent !== undefined) {
+    throw new ConfigurationError(
+      `Invalid event in ${name}: "${invalidEvent}" (expected any of ${
+        MONITOR_EVENT_TYPES.join(", ")
+      })`,
+    );
+  }
+
+  return events as MonitorEventType[];
+}
+
+/**
+ * Reads the Slack and Teams notification channels from the environment.
+ * A channel is enabled by its webhook URL and receives every event type
+ * unless `<TYPE>_EVENTS` restricts them.
+ *
+ * @returns The enabled notification channels.
+ */
+function loadNotificationChannels(): NotificationChannel[] {
+  return NOTIFICATION_CHANNEL_TYPES.flatMap((type) => {
+    const prefix = type.toUpperCase();
+    const webhookUrl = Deno.env.get(`${prefix}_WEBHOOK_URL`) ?? "";
+    if (!webhookUrl) return [];
+
+    return [{ type, webhookUrl, events: parseEventsEnv(`${prefix}_EVENTS`) }];
+  });
+}
+
+/**
+ * Reads the SMTP server of the email notifications from the environment.
+ *
+ * @returns The SMTP configuration, or null if `SMTP_HOST` is not set.
+ */
+function loadSmtpConfig(): SmtpConfig | null {
+  const host = Deno.env.get("SMTP_HOST") ?? "";
+  if (!host) return null;
+
+  const security = (Deno.env.get("SMTP_SECURITY") || "starttls")
+    .trim()
+    .toLowerCase() as SmtpSecurity;
+  if (!SMTP_SECURITY_MODES.includes(security)) {
+    throw new ConfigurationError(
+      `Invalid SMTP_SECURITY: "${security}" (expected one of ${
+        SMTP_SECURITY_MODES.join(", ")
+      })`,
+    );
+  }
+
+  const from = Deno.env.get("SMTP_FROM") ?? "";
+  if (!isEmailAddress(from)) {
+    throw new ConfigurationError(`Invalid SMTP_FROM: "${from}"`);
+  }
+
+  return {
+    host,
+    port: parseIntegerEnv(
+      "SMTP_PORT",
+      security === "tls" ? "465" : "587",
+      1,
+    ),
+    security,
+    username: Deno.env.get("SMTP_USERNAME") ?? "",
+    password: Deno.env.get("SMTP_PASSWORD") ?? "",
+    from,
+    events: parseEventsEnv("EMAIL_EVENTS"),
+  };
+}
+
+/**
+ * Ensures a template only uses the allowed placeholders.
+ *
+ * @param template - The template to check.
+ * @param source - Where the template was configured, used in errors.
+ * @param allowed - The placeholders the template may use.
+ * @throws ConfigurationError naming the first placeholder not allowed.
+ */
+function validateTemplate(
+  template: string,
+  source: string,
+  allowed: ReadonlyArray<TemplatePlaceholder>,
+): void {
+  const [unknown] = findUnknownPlaceholders(template, allowed);
+  if (unknown !== undefined) {
+    const isKnown = TEMPLATE_PLACEHOLDERS.includes(
+      unknown as TemplatePlaceholder,
+    );
+    const problem = isKnown ? "Unavailable" : "Unknown";
+    throw new ConfigurationError(
+      `${problem} placeholder "{{${unknown}}}" in ${source} (expected one of ${
+        allowed.map((name) => `{{${name}}}`).join(", ")
+      })`,
+    );
+  }
+}
+
+/**
+ * Ensures the pipeline variables of a chain are JSON objects whose values
+ * only use the placeholders known when a pipeline is triggered.
+ *
+ * @param chain - The chain configuration to validate.
+ */
+function validateVariableTemplates(chain: ChainConfig): void {
+  for (const key of VARIABLE_KEYS) {
+    const raw = chain[key] as string;
+    if (!raw) continue;
+
+    const source = `${ENV_VAR_MAPPING[key]} of chain "${chain.name}"`;
+    let variables: unknown;
+    try {
+      variables = JSON.parse(raw);
+    } catch {
+      throw new ConfigurationError(`Invalid JSON in ${source}`);
+    }
+    if (
+      typeof variables !== "object" || variables === null ||
+      Array.isArray(variables)
+    ) {
+      throw new ConfigurationError(`Expected a JSON object in ${source}`);
+    }
+
+    for (const [name, value] of Object.entries(variables)) {
+      if (typeof value === "string") {
+        validateTemplate(
+          value,
+          `${source} (variable ${name})`,
+          PIPELINE_VARIABLE_PLACEHOLDERS,
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Checks whether a value is a single plain email address.
+ *
+ * @param value - The value to check.
+ */
+function isEmailAddress(value: string): boolean {
+  return /^[^\s@<>,]+@[^\s@<>,]+$/.test(value);
+}
+
+/**
+ * Merges a single entry of the chains file over the environment defaults.
+ * Values must have the same type as their default; pipeline variables may
+ * also be given as a plain object.
+ *
+ * @param entry - The raw entry from the chains file.
+ * @param index - Position of the entry, used for default names and errors.
+ * @param defaults - Chain configuration derived from the environment.
+ * @returns The merged chain configuration.
+ */
+function mergeChainEntry(
+  entry: unknown,
+  index: number,
+  defaults: ChainConfig,
+): ChainConfig {
+  if (typeof entry !== "object" || entry === null || Array.isArray(entry)) {
+    throw new ConfigurationError(`Invalid chain entry at chains[${index}]`);
+  }
+
+  const chain: ChainConfig = { ...defaults, name: `chain-${index + 1}` };
+  const target = chain as unknown as Record<string, unknown>;
+
+  for (const [key, value] of Object.entries(entry)) {
+    if (!(key in defaults)) {
+      throw new ConfigurationError(
+        `Unknown key "${key}" in chains[${index}]`,
+      );
+    }
+
+    const defaultValue = (defaults as unknown as Record<string, unknown>)[key];
+
+    if (
+      VARIABLE_KEYS.includes(key as keyof ChainConfig) &&
+      typeof value === "object" && value !== null && !Array.isArray(value)
+    ) {
+      target[key] = JSON.stringify(value);
+      continue;
+    }
+
+    if (
+      typeof value !== typeof defaultValue ||
+      Array.isArray(value) !== Array.isArray(defaultValue) ||
+      (Array.isArray(value) &&
+        value.some((item) => typeof item !== "string")) ||
+      (typeof value === "number" && (!Number.isInteger(value) || value < 0))
+    ) {
+      throw new ConfigurationError(
+        `Invalid value for "${key}" in chains[${index}]`,
+      );
+    }
+
+    target[key] = value;
+  }
+
+  if (chain.pollIntervalMs <= 0) {
+    throw new ConfigurationError(
+      `Invalid pollIntervalMs in chains[${index}]: "${chain.pollIntervalMs}"`,
+    );
+  }
+
+  if (chain.localCommandTimeoutMs <= 0) {
+    throw new ConfigurationError(
+      `Invalid localCommandTimeoutMs in chains[${index}]: "${chain.localCommandTimeoutMs}"`,
+    );
+  }
+
+  if (chain.planRevalidateCycles <= 0) {
+    throw new ConfigurationError(
+      `Invalid planRevalidateCycles in chains[${index}]: "${chain.planRevalidateCycles}"`,
+    );
+  }
+
+  return chain;
+}
+
+/**
+ * Reads the multi-chain configuration file referenced by CHAINS_CONFIG_FILE.
+ *
+ * @param path - Path to a JSON file containing an array of chain entries.
+ * @param defaults - Chain configuration derived from the environment.
+ * @returns The list of chain configurations.
+ */
+async function loadChainsFile(
+  path: string,
+  defaults: ChainConfig,
+): Promise<ChainConfig[]> {
+  let entries: unknown;
+
+  try {
+    entries = JSON.parse(await Deno.readTextFile(path));
+  } catch (err) {
+    throw new ConfigurationError(
+      `Failed to read CHAINS_CONFIG_FILE "${path}": ${
+        err instanceof Error ? err.message : String(err)
+      }`,
+    );
+  }
+
+  if (!Array.isArray(entries) || entries.length === 0) {
+    throw new ConfigurationError(
+      `CHAINS_CONFIG_FILE "${path}" must contain a non-empty array of chains`,
+    );
+  }
+
+  return entries.map((entry, index) => mergeChainEntry(entry, index, defaults));
+}
+
+/**
+ * Ensures every chain has a known executor, all values required by it and a
+ * unique name.
+ *
+ * @param chains - The chain configurations to validate.
+ * @param fromFile - Whether the chains were loaded from the chains file.
+ */
+function validateChains(chains: ChainConfig[], fromFile: boolean): void {
+  for (const chain of chains) {
+    if (!EXECUTOR_TYPES.includes(chain.executor)) {
+      throw new ConfigurationError(
+        `Invalid executor for chain "${chain.name}": "${chain.executor}" (expected one of ${
+          EXECUTOR_TYPES.join(", ")
+        })`,
+      );
+    }
+  }
+
+  const missing: string[] = [];
+
+  chains.forEach((chain, index) => {
+    const requiredKeys = [
+      ...REQUIRED_KEYS,
+      ...EXECUTOR_REQUIRED_KEYS[chain.executor],
+    ];
+    for (const key of requiredKeys) {
+      const value = chain[key];
+      if (
+        value == null || value === "" ||
+        (Array.isArray(value) && value.length === 0)
+      ) {
+        missing.push(
+          fromFile
+            ? `chains[${index}].${key} (or ${ENV_VAR_MAPPING[key]})`
+            : ENV_VAR_MAPPING[key],
+        );
+      }
+    }
+  });
+
+  if (missing.length > 0) {
+    const missingList = missing.map((entry) => `  - ${entry}`).join("\n");
+
+    throw new ConfigurationError(
+      `Missing or empty required environment variables:
+${missingList}`,
+      missing,
+    );
+  }
+
+  for (const chain of chains) {
+    if (!DRY_RUN_STATUSES.includes(chain.dryRunPipelineStatus)) {
+      throw new ConfigurationError(
+        `Invalid dry run pipeline status for chain "${chain.name}": "${chain.dryRunPipelineStatus}" (expected one of ${
+          DRY_RUN_STATUSES.join(", ")
+        })`,
+      );
+    }
+    const invalidStatus = chain.pipelineRetryableStatuses.find((status) =>
+      !RETRYABLE_STATUSES.includes(status)
+    );
+    if (invalidStatus !== undefined) {
+      throw new ConfigurationError(
+        `Invalid retryable pipeline status for chain "${chain.name}": "${invalidStatus}" (expected any of ${
+          RETRYABLE_STATUSES.join(", ")
+        })`,
+      );
+    }
+    const invalidRecipient = [
+      ...chain.emailInfoRecipients,
+      ...chain.emailWarningRecipients,
+      ...chain.emailCriticalRecipients,
+    ].find((recipient) => !isEmailAddress(recipient));
+    if (invalidRecipient !== undefined) {
+      throw new ConfigurationError(
+        `Invalid email recipient for chain "${chain.name}": "${invalidRecipient}"`,
+      );
+    }
+    validateVariableTemplates(chain);
+    if (!MANUAL_JOB_ACTIONS.includes(chain.manualJobAction)) {
+      throw new ConfigurationError(
+        `Invalid manual job action for chain "${chain.name}": "${chain.manualJobAction}" (expected one of ${
+          MANUAL_JOB_ACTIONS.join(", ")
+        })`,
+      );
+    }
+  }
+
+  const names = new Set<string>();
+  for (const chain of chains) {
+    if (names.has(chain.name)) {
+      throw new ConfigurationError(`Duplicate chain name: "${chain.name}"`);
+    }
+    names.add(chain.name);
+  }
+}
+
+/**
+ * Drops the cached configuration, so the next loadConfig call reads the
+ * environment and the chains file again.
+ */
+export function clearConfigCache(): void {
+  configCache = null;
+}
+
 export async function loadConfig(): Promise<Config> {
   if (configCache) {
     return configCache;
@@ -45,10 +718,7 @@ export async function loadConfig(): Promise<Config> {
   });
 
   const applicationPortStr = Deno.env.get("APPLICATION_PORT") ?? "8080";
-  const pollIntervalMsStr = Deno.env.get("POLL_INTERVAL_MS") ?? "2000";
-
   const applicationPort = parseInt(applicationPortStr, 10);
-  const pollIntervalMs = parseInt(pollIntervalMsStr, 10);
 
   if (isNaN(applicationPort) || applicationPort <= 0) {
     throw new ConfigurationError(
@@ -56,40 +726,45 @@ export async function loadConfig(): Promise<Config> {
     );
   }
 
-  if (isNaN(pollIntervalMs) || pollIntervalMs <= 0) {
-    throw new ConfigurationError(
-      `Invalid POLL_INTERVAL_MS: "${pollIntervalMsStr}"`,
-    );
-  }
+  const readinessNodeDownThresholdMs = parseIntegerEnv(
+    "READINESS_NODE_DOWN_THRESHOLD_MS",
+    "60000",
+    0,
+  );
+  const livenessTimeoutMs = parseIntegerEnv(
+    "LIVENESS_TIMEOUT_MS",
+    "300000",
+    1,
+  );
 
-  configCache = {
-    applicationPort,
-    pollIntervalMs,
-    cosmosNodeRestUrl: Deno.env.get("COSMOS_NODE_REST_URL") ?? "",
-    cicdTriggerToken: Deno.env.get("CICD_TRIGGER_TOKEN") ?? "",
-    cicdPersonalAccessToken: Deno.env.get("CICD_PERSONAL_ACCESS_TOKEN") ?? "",
-    cicdUpdateBranch: Deno.env.get("CICD_UPDATE_BRANCH") ?? "",
-    cicdProjectApiUrl: Deno.env.get("CICD_PROJECT_API_URL") ?? "",
-    cicdVariables: Deno.env.get("CICD_VARIABLES") ?? "",
-  };
+  const adminApiToken = Deno.env.get("ADMIN_API_TOKEN") ?? "";
+  const notificationChannels = loadNotificationChannels();
+  const smtp = loadSmtpConfig();
+  const notificationTemplate = Deno.env.get("NOTIFICATION_TEMPLATE") ?? "";
+  validateTemplate(
+    notificationTemplate,
+    "NOTIFICATION_TEMPLATE",
+    TEMPLATE_PLACEHOLDERS,
+  );
 
-  const missingKeys = REQUIRED_KEYS.filter((key) => {
-    const value = configCache![key];
-    return value == null || value === "";
-  });
+  const defaults = loadChainDefaultsFromEnv();
+  const chainsFile = Deno.env.get("CHAINS_CONFIG_FILE") ?? "";
+  const chains = chainsFile
+    ? await loadChainsFile(chainsFile, defaults)
+    : [defaults];
 
-  if (missingKeys.length > 0) {
-    const missingEnvVars = missingKeys.map((key) => ENV_VAR_MAPPING[key]);
-    const envVarList = missingEnvVars.map((envVar) => `  - ${envVar}`).join(
-      "\n",
-    );
+  validateChains(chains, chainsFile !== "");
 
-    throw new ConfigurationError(
-      `Missing or empty required environment variables:
-${envVarList}`,
-      missingEnvVars,
-    );
-  }
+  configCache = {
+    applicationPort,
+    readinessNodeDownThresholdMs,
+    livenessTimeoutMs,
+    adminApiToken,
+    notificationChannels,
+    notificationTemplate,
+    smtp,
+    chains,
+  };
 
   return configCache;
 }
@@ -1,6 +1,12 @@
-import { type Config, loadConfig } from "config/config.ts";
+import { type ChainConfig, type Config, loadConfig } from "config/config.ts";
+import { registerAdminTarget } from "src/service/admin.ts";
 import { startHealthServer } from "src/service/health.ts";
+import { startMetricsCollection } from "src/service/metrics.ts";
 import { CosmosMonitor } from "src/service/monitor.ts";
+import {
+  startEmailNotifications,
+  startNotifications,
+} from "src/service/notifications.ts";
 import { ConfigurationError } from "src/types/result.ts";
 import { logger } from "src/utils/logger.ts";
 
@@ -8,20 +14,45 @@ import { logger } from "src/utils/logger.ts";
  * Function to monitor the blockchain and handle errors.
  */
 async function monitorBlockchain(
-  config: Config,
+  chain: ChainConfig,
   signal: AbortSignal,
 ): Promise<void> {
-  const monitor = new CosmosMonitor(config);
+  const monitor = new CosmosMonitor(chain);
+  const unregisterAdminTarget = registerAdminTarget(chain.name, monitor);
   try {
     await monitor.startMonitoring(signal);
   } catch (err) {
-    logger.error("Error in monitoring the chain:", err);
+    logger.error(`Error in monitoring the chain ${chain.name}:`, err);
     throw err;
   } finally {
+    unregisterAdminTarget();
     monitor.reset();
   }
 }
 
+/**
+ * Function to run one monitor per configured chain concurrently.
+ * A failing chain is logged and does not stop the other monitors.
+ */
+async function monitorChains(
+  config: Config,
+  signal: AbortSignal,
+): Promise<void> {
+  logger.info(
+    `Monitoring ${config.chains.length} chain(s): ${
+      config.chains.map((chain) => chain.name).join(", ")
+    }`,
+  );
+
+  await Promise.all(
+    config.chains.map((chain) =>
+      monitorBlockchain(chain, signal).catch((err) => {
+        logger.error(`Blockchain monitor for ${chain.name} failed:`, err);
+      })
+    ),
+  );
+}
+
 /**
  * Function to manage the health server lifecycle and handle errors.
  */
@@ -29,7 +60,11 @@ async function manageHealthServer(
   config: Config,
   signal: AbortSignal,
 ): Promise<void> {
-  const healthServer = startHealthServer(config.applicationPort);
+  const healthServer = startHealthServer(config.applicationPort, {
+    nodeDownThresholdMs: config.readinessNodeDownThresholdMs,
+    livenessTimeoutMs: config.livenessTimeoutMs,
+    adminApiToken: config.adminApiToken,
+  });
 
   try {
     signal.addEventListener("abort", async () => {
@@ -64,6 +99,16 @@ async function main(): Promise<void> {
 
   const abortController = new AbortController();
   const { signal } = abortController;
+  const stopMetricsCollection = startMetricsCollection();
+  const stopNotifications = startNotifications(
+    config.notificationChannels,
+    config.notificationTemplate,
+  );
+  const stopEmailNotifications = startEmailNotifications(
+    config.smtp,
+    config.chains,
+    config.notificationTemplate,
+  );
 
   const signals = Deno.build.os === "windows"
     ? ["SIGINT", "SIGBREAK"] as const
@@ -82,7 +127,7 @@ async function main(): Promise<void> {
 
   try {
     const healthPromise = manageHealthServer(config, signal);
-    const monitorPromise = monitorBlockchain(config, signal);
+    const monitorPromise = monitorChains(config, signal);
 
     await Promise.race([
       healthPromise.catch((err) => {
@@ -102,6 +147,9 @@ async function main(): Promise<void> {
       abortController.abort();
     }
   } finally {
+    stopMetricsCollection();
+    stopNotifications();
+    stopEmailNotifications();
     logger.info("Application shutdown complete");
   }
 }
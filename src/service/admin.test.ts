@@ -0,0 +1,144 @@
+import { handleAdminRequest, registerAdminTarget } from "src/service/admin.ts";
+import {
+  AdminAction,
+  AdminActionResult,
+  AdminTarget,
+} from "src/types/admin.ts";
+import { logger } from "src/utils/logger.ts";
+import { assertEquals } from "test-assert";
+import { stub } from "test-mock";
+
+const TOKEN = "admin-token";
+
+function createMockTarget(result: AdminActionResult = {
+  ok: true,
+  message: "done",
+}): AdminTarget & { actions: AdminAction[] } {
+  const actions: AdminAction[] = [];
+  return {
+    actions,
+    runAdminAction: (action: AdminAction) => {
+      actions.push(action);
+      return Promise.resolve(result);
+    },
+  };
+}
+
+function createAdminRequest(
+  path: string,
+  options: { method?: string; token?: string } = {},
+): Request {
+  const { method = "POST", token = TOKEN } = options;
+  return new Request(`http://localhost:8080${path}`, {
+    method,
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+  });
+}
+
+async function withAdminTarget<T>(
+  chain: string,
+  target: AdminTarget,
+  testFn: () => Promise<T>,
+): Promise<T> {
+  const unregister = registerAdminTarget(chain, target);
+  const infoStub = stub(logger, "info");
+  const warnStub = stub(logger, "warn");
+  try {
+    return await testFn();
+  } finally {
+    unregister();
+    infoStub.restore();
+    warnStub.restore();
+  }
+}
+
+Deno.test("handleAdminRequest should run the action on the chain monitor", async () => {
+  const target = createMockTarget();
+
+  await withAdminTarget("test-chain", target, async () => {
+    const response = await handleAdminRequest(
+      createAdminRequest("/admin/chains/test-chain/pause"),
+      TOKEN,
+    );
+
+    assertEquals(response.status, 200);
+    assertEquals(await response.json(), { ok: true, message: "done" });
+    assertEquals(target.actions, ["pause"]);
+  });
+});
+
+Deno.test("handleAdminRequest should reject requests without a valid token", async () => {
+  const target = createMockTarget();
+
+  await withAdminTarget("test-chain", target, async () => {
+    const missing = await handleAdminRequest(
+      createAdminRequest("/admin/chains/test-chain/pause", { token: "" }),
+      TOKEN,
+    );
+    const wrong = await handleAdminRequest(
+      createAdminRequest("/admin/chains/test-chain/pause", {
+        token: "wrong-token",
+      }),
+      TOKEN,
+    );
+
+    assertEquals(missing.status, 401);
+    assertEquals(wrong.status, 401);
+    assertEquals(target.actions, []);
+  });
+});
+
+Deno.test("handleAdminRequest should be disabled without a configured token", async () => {
+  const target = createMockTarget();
+
+  await withAdminTarget("test-chain", target, async () => {
+    const response = await handleAdminRequest(
+      createAdminRequest("/admin/chains/test-chain/pause", { token: "" }),
+      "",
+    );
+
+    assertEquals(response.status, 404);
+    assertEquals(target.actions, []);
+  });
+});
+
+Deno.test("handleAdminRequest should reject unknown chains, unknown actions and GET", async () => {
+  const target = createMockTarget();
+
+  await withAdminTarget("test-chain", target, async () => {
+    const unknownChain = await handleAdminRequest(
+      createAdminRequest("/admin/chains/other-chain/pause"),
+      TOKEN,
+    );
+    const unknownAction = await handleAdminRequest(
+      createAdminRequest("/admin/chains/test-chain/explode"),
+      TOKEN,
+    );
+    const getRequest = await handleAdminRequest(
+      createAdminRequest("/admin/chains/test-chain/pause", { method: "GET" }),
+      TOKEN,
+    );
+
+    assertEquals(unknownChain.status, 404);
+    assertEquals(unknownAction.status, 404);
+    assertEquals(getRequest.status, 405);
+    assertEquals(target.actions, []);
+  });
+});
+
+Deno.test("handleAdminRequest should return 409 for rejected actions", async () => {
+  const target = createMockTarget({
+    ok: false,
+    message: "No pending upgrade plan",
+  });
+
+  await withAdminTarget("test-chain", target, async () => {
+    const response = await handleAdminRequest(
+      createAdminRequest("/admin/chains/test-chain/skip-plan"),
+      TOKEN,
+    );
+
+    assertEquals(response.status, 409);
+    assertEquals(target.actions, ["skip-plan"]);
+  });
+});
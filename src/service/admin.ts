@@ -0,0 +1,116 @@
+import { ADMIN_ACTIONS, AdminAction, AdminTarget } from "src/types/admin.ts";
+import { logger } from "src/utils/logger.ts";
+
+const ADMIN_PATH_PATTERN = /^\/admin\/chains\/([^/]+)\/([^/]+)$/;
+
+/**
+ * Chain monitors controllable through the admin API, keyed by chain name.
+ */
+const targets = new Map<string, AdminTarget>();
+
+/**
+ * Registers a chain monitor for the admin API.
+ *
+ * @param chain - The chain name used in the admin URL.
+ * @param target - The monitor running the admin actions.
+ * @returns A function removing the registration again.
+ */
+export function registerAdminTarget(
+  chain: string,
+  target: AdminTarget,
+): () => void {
+  targets.set(chain, target);
+  return () => {
+    if (targets.get(chain) === target) {
+      targets.delete(chain);
+    }
+  };
+}
+
+/**
+ * Compares two strings in constant time to avoid leaking the token length
+ * of matching prefixes through response timing.
+ *
+ * @param actual - The provided value.
+ * @param expected - The expected value.
+ */
+function timingSafeEqual(actual: string, expected: string): boolean {
+  const encoder = new TextEncoder();
+  const a = encoder.encode(actual);
+  const b = encoder.encode(expected);
+  let diff = a.length ^ b.length;
+
+  for (let i = 0; i < b.length; i++) {
+    diff |= (a[i] ?? 0) ^ b[i];
+  }
+  return diff === 0;
+}
+
+/**
+ * Handles `POST /admin/chains/:chain/:action` requests. Requests must carry
+ * the admin token as bearer token. The API is disabled without a token.
+ * Every attempt is logged together with the client address.
+ *
+ * @param request - The incoming HTTP request.
+ * @param token - The configured admin API token, empty if disabled.
+ * @param client - The client address, used in the logs.
+ * @returns A JSON response describing the outcome.
+ */
+export async function handleAdminRequest(
+  request: Request,
+  token: string,
+  client: string = "unknown",
+): Promise<Response> {
+  const { pathname } = new URL(request.url);
+  const match = pathname.match(ADMIN_PATH_PATTERN);
+
+  if (!token || !match) {
+    return new Response(null, { status: 404 });
+  }
+
+  const chain = decodeURIComponent(match[1]);
+  const action = match[2];
+
+  const authorization = request.headers.get("Authorization") ?? "";
+  if (!timingSafeEqual(authorization, `Bearer ${token}`)) {
+    logger.warn(
+      `Admin API: rejected unauthorized ${action} on chain ${chain} from ${client}`,
+    );
+    return Response.json({ ok: false, message: "Unauthorized" }, {
+      status: 401,
+    });
+  }
+
+  if (request.method !== "POST") {
+    return Response.json({ ok: false, message: "Method not allowed" }, {
+      status: 405,
+      headers: { Allow: "POST" },
+    });
+  }
+
+  if (!ADMIN_ACTIONS.includes(action as AdminAction)) {
+    return Response.json({
+      ok: false,
+      message: `Unknown action "${action}"`,
+    }, { status: 404 });
+  }
+
+  const target = targets.get(chain);
+  if (!target) {
+    return Response.json({
+      ok: false,
+      message: `Unknown chain "${chain}"`,
+    }, { status: 404 });
+  }
+
+  logger.info(`Admin API: ${action} on chain ${chain} requested by ${client}`);
+  const result = await target.runAdminAction(action as AdminAction);
+
+  if (!result.ok) {
+    logger.warn(
+      `Admin API: ${action} on chain ${chain} rejected: ${result.message}`,
+    );
+  }
+
+  return Response.json(result, { status: result.ok ? 200 : 409 });
+}
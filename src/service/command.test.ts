@@ -0,0 +1,187 @@
+import { type ChainConfig } from "config/config.ts";
+import { CommandExecutor } from "src/service/command.ts";
+import { createMockChainConfig } from "src/test-utils/config.ts";
+import {
+  PipelineRun,
+  PipelineStatusClassification,
+} from "src/types/executor.ts";
+import { logger } from "src/utils/logger.ts";
+import { assertEquals } from "test-assert";
+import { stub } from "test-mock";
+import { FakeTime } from "test-time";
+
+function createMockConfig(overrides: Partial<ChainConfig> = {}): ChainConfig {
+  return createMockChainConfig({
+    executor: "command",
+    cicdVariables: '{"PROVIDER": "aws"}',
+    localCommand: "sh",
+    localCommandArgs: ["-c", 'echo "upgrading to $UPGRADE_NAME on $PROVIDER"'],
+    localCommandTimeoutMs: 10_000,
+    ...overrides,
+  });
+}
+
+/**
+ * Polls the executor until the run reaches a terminal status.
+ */
+async function waitForCommand(
+  executor: CommandExecutor,
+  run: PipelineRun,
+): Promise<string> {
+  while (true) {
+    const result = await executor.getStatus(run);
+    if (result?.classification === PipelineStatusClassification.TERMINAL) {
+      return result.status;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+async function withStubbedLogger<T>(
+  testFn: (messages: string[]) => Promise<T>,
+): Promise<T> {
+  const messages: string[] = [];
+  const stubs = (["info", "warn", "error"] as const).map((level) =>
+    stub(logger, level, (message: unknown) => {
+      messages.push(String(message));
+      return message as string;
+    })
+  );
+  try {
+    return await testFn(messages);
+  } finally {
+    stubs.forEach((entry) => entry.restore());
+  }
+}
+
+Deno.test(
+  "CommandExecutor should pass variables as environment and stream output",
+  async () => {
+    await withStubbedLogger(async (messages) => {
+      const executor = new CommandExecutor(createMockConfig());
+      const run = await executor.trigger({ variables: { UPGRADE_NAME: "v2" } });
+
+      assertEquals(await waitForCommand(executor, run!), "success");
+      assertEquals(
+        messages.some((message) =>
+          message.endsWith(`[command ${run!.id}] upgrading to v2 on aws`)
+        ),
+        true,
+      );
+    });
+  },
+);
+
+Deno.test("CommandExecutor should fail on a non-zero exit code", async () => {
+  await withStubbedLogger(async (messages) => {
+    const executor = new CommandExecutor(
+      createMockConfig({
+        localCommandArgs: ["-c", "echo 'disk full' >&2; exit 3"],
+      }),
+    );
+    const run = await executor.trigger();
+
+    assertEquals(await waitForCommand(executor, run!), "failed");
+    assertEquals(
+      messages.some((message) => message.endsWith("disk full")),
+      true,
+    );
+  });
+});
+
+Deno.test("CommandExecutor should fail when the timeout elapses", async () => {
+  await withStubbedLogger(async () => {
+    const executor = new CommandExecutor(
+      createMockConfig({
+        localCommandArgs: ["-c", "exec sleep 10"],
+        localCommandTimeoutMs: 50,
+      }),
+    );
+    const run = await executor.trigger();
+
+    assertEquals(await waitForCommand(executor, run!), "failed");
+  });
+});
+
+Deno.test("CommandExecutor should cancel a running command", async () => {
+  await withStubbedLogger(async () => {
+    const executor = new CommandExecutor(
+      createMockConfig({ localCommandArgs: ["-c", "exec sleep 10"] }),
+    );
+    const run = await executor.trigger();
+
+    assertEquals(await executor.cancel(run!), true);
+    assertEquals(await waitForCommand(executor, run!), "canceled");
+  });
+});
+
+Deno.test("CommandExecutor should return null if the command cannot start", async () => {
+  await withStubbedLogger(async () => {
+    const executor = new CommandExecutor(
+      createMockConfig({ localCommand: "/nonexistent/upgrade.sh" }),
+    );
+
+    assertEquals(await executor.trigger(), null);
+  });
+});
+
+Deno.test("CommandExecutor should kill a command that ignores SIGTERM", async () => {
+  await withStubbedLogger(async (messages) => {
+    const realSetTimeout = globalThis.setTimeout;
+    const time = new FakeTime();
+    try {
+      const executor = new CommandExecutor(
+        createMockConfig({
+          localCommandArgs: ["-c", "trap '' TERM; exec sleep 30"],
+          localCommandTimeoutMs: 50,
+        }),
+      );
+      const run = await executor.trigger();
+
+      await time.tickAsync(50);
+      await new Promise((resolve) => realSetTimeout(resolve, 100));
+      assertEquals((await executor.getStatus(run!))?.status, "running");
+
+      await time.tickAsync(5_000);
+      let result = await executor.getStatus(run!);
+      while (result?.classification !== PipelineStatusClassification.TERMINAL) {
+        await new Promise((resolve) => realSetTimeout(resolve, 10));
+        await time.tickAsync(1_000);
+        result = await executor.getStatus(run!);
+      }
+
+      assertEquals(result.status, "failed");
+      assertEquals(
+        messages.some((message) => message.includes("sending SIGKILL")),
+        true,
+      );
+    } finally {
+      time.restore();
+    }
+  });
+});
+
+Deno.test("CommandExecutor should forget a run once its final status was reported", async () => {
+  await withStubbedLogger(async () => {
+    const executor = new CommandExecutor(createMockConfig());
+    const run = await executor.trigger({ variables: { UPGRADE_NAME: "v2" } });
+
+    assertEquals(await waitForCommand(executor, run!), "success");
+    assertEquals((await executor.getStatus(run!))?.status, "interrupted");
+  });
+});
+
+Deno.test("CommandExecutor should report untracked runs as interrupted", async () => {
+  await withStubbedLogger(async () => {
+    const result = await new CommandExecutor(createMockConfig()).getStatus({
+      id: 1,
+      webUrl: "command://1",
+      status: "running",
+    });
+
+    assertEquals(result, {
+      status: "interrupted",
+      classification: PipelineStatusClassification.TERMINAL,
+    });
+  });
+});
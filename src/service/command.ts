@@ -0,0 +1,280 @@
+import { type ChainConfig } from "config/config.ts";
+import {
+  PipelineExecutor,
+  PipelineRun,
+  PipelineRunStatus,
+  PipelineStatusClassification,
+  PipelineTriggerOptions,
+} from "src/types/executor.ts";
+import {
+  simulatePipelineStatus,
+  simulatePipelineTrigger,
+} from "src/utils/dry-run.ts";
+import { type ChainLogger, createChainLogger } from "src/utils/logger.ts";
+import { createUpgradeTemplateValues } from "src/utils/template.ts";
+import { parseVariables } from "src/utils/variable-parser.ts";
+
+const OUTPUT_DRAIN_TIMEOUT_MS = 1_000;
+const KILL_GRACE_PERIOD_MS = 5_000;
+
+/**
+ * Status of a run that is not tracked by this process, e.g. because the
+ * service restarted while the command ran. Its outcome is unknown, so it is
+ * not retried.
+ */
+const INTERRUPTED_STATUS = "interrupted";
+
+/**
+ * A command started by the executor. `status` stays null while it runs.
+ */
+interface CommandProcess {
+  child: Deno.ChildProcess;
+  status: string | null;
+  isCancelled: boolean;
+}
+
+/**
+ * Passes every line of a stream to the given writer.
+ *
+ * @param stream - The byte stream, e.g. stdout of a child process.
+ * @param write - Receives each line without its line break.
+ */
+async function streamLines(
+  stream: ReadableStream<Uint8Array>,
+  write: (line: string) => void,
+): Promise<void> {
+  let buffer = "";
+  for await (const chunk of stream.pipeThrough(new TextDecoderStream())) {
+    buffer += chunk;
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+    for (const line of lines) {
+      write(line.replace(/\r$/, ""));
+    }
+  }
+  if (buffer !== "") {
+    write(buffer);
+  }
+}
+
+/**
+ * Runs upgrades as a local command, e.g. an upgrade script on the validator
+ * host. Pipeline variables are passed as environment variables and the
+ * command output is streamed into the log.
+ *
+ * Runs are tracked in memory only: a command interrupted by a restart of
+ * this service is reported as interrupted.
+ */
+export class CommandExecutor implements PipelineExecutor {
+  readonly apiUrl: string = "";
+  private readonly log: ChainLogger;
+  private readonly processes = new Map<number, CommandProcess>();
+
+  constructor(private readonly config: ChainConfig) {
+    this.log = createChainLogger(config.name);
+  }
+
+  trigger(options: PipelineTriggerOptions = {}): Promise<PipelineRun | null> {
+    const { localCommand, localCommandArgs } = this.config;
+    const commandLine = [localCommand, ...localCommandArgs].join(" ");
+    this.log.info(`Running upgrade command: ${commandLine}`);
+
+    try {
+      const env = {
+        ...parseVariables(
+          this.config.cicdVariables,
+          "CICD_VARIABLES",
+          createUpgradeTemplateValues(options.upgrade),
+        ),
+        ...options.variables,
+      };
+
+      if (this.config.dryRun) {
+        return Promise.resolve(simulatePipelineTrigger(this.config, {
+          method: "RUN",
+          url: commandLine,
+          variables: env,
+        }));
+      }
+
+      const child = new Deno.Command(localCommand, {
+        args: localCommandArgs,
+        env,
+        stdin: "null",
+        stdout: "piped",
+        stderr: "piped",
+      }).spawn();
+
+      const process: CommandProcess = {
+        child,
+        status: null,
+        isCancelled: false,
+      };
+      this.processes.set(child.pid, process);
+      this.followProcess(process);
+
+      return Promise.resolve({
+        id: child.pid,
+        webUrl: `command://${child.pid}`,
+        status: "running",
+      });
+    } catch (err) {
+      this.log.error(`Failed to start upgrade command: ${commandLine}`, err);
+      return Promise.resolve(null);
+    }
+  }
+
+  /**
+   * Streams the output of a started command into the log and records its
+   * final status once it exits or its timeout elapses.
+   *
+   * @param process - The started command.
+   */
+  private async followProcess(process: CommandProcess): Promise<void> {
+    const { child } = process;
+    const timeoutMs = this.config.localCommandTimeoutMs;
+    let isTimedOut = false;
+
+    const timer = setTimeout(() => {
+      isTimedOut = true;
+      this.log.error(
+        `Upgrade command ${child.pid} timed out after ${timeoutMs}ms`,
+      );
+      this.terminate(child);
+    }, timeoutMs);
+
+    const output = Promise.all([
+      streamLines(
+        child.stdout,
+        (line) => this.log.info(`[command ${child.pid}] ${line}`),
+      ),
+      streamLines(
+        child.stderr,
+        (line) => this.log.warn(`[command ${child.pid}] ${line}`),
+      ),
+    ]).catch((err) => {
+      this.log.error(`Failed to read output of command ${child.pid}:`, err);
+    });
+
+    try {
+      const status = await child.status;
+      clearTimeout(timer);
+      await this.waitForOutput(output);
+
+      if (process.isCancelled) {
+        process.status = "canceled";
+      } else if (status.success && !isTimedOut) {
+        process.status = "success";
+      } else {
+        process.status = "failed";
+      }
+
+      this.log.info(
+        `Upgrade command ${child.pid} exited with code ${status.code}${
+          status.signal ? ` (${status.signal})` : ""
+        }`,
+      );
+    } catch (err) {
+      this.log.error(`Failed to follow upgrade command ${child.pid}:`, err);
+      process.status = "failed";
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Waits for the remaining output of an exited command. Processes started
+   * by the command may keep its output open, so the wait is limited.
+   *
+   * @param output - Resolves when stdout and stderr are closed.
+   */
+  private async waitForOutput(output: Promise<unknown>): Promise<void> {
+    let timer: number | undefined;
+    await Promise.race([
+      output,
+      new Promise((resolve) => {
+        timer = setTimeout(resolve, OUTPUT_DRAIN_TIMEOUT_MS);
+      }),
+    ]);
+    clearTimeout(timer);
+  }
+
+  /**
+   * Terminates a running command with SIGTERM and kills it with SIGKILL if
+   * it is still running after a grace period.
+   *
+   * @param child - The child process.
+   */
+  private terminate(child: Deno.ChildProcess): void {
+    this.signal(child, "SIGTERM");
+    const timer = setTimeout(() => {
+      this.log.error(
+        `Upgrade command ${child.pid} ignored SIGTERM, sending SIGKILL`,
+      );
+      this.signal(child, "SIGKILL");
+    }, KILL_GRACE_PERIOD_MS);
+    child.status.finally(() => clearTimeout(timer));
+  }
+
+  /**
+   * Sends a signal to a command. Errors of already exited commands are
+   * ignored.
+   *
+   * @param child - The child process.
+   * @param signal - The signal to send.
+   */
+  private signal(child: Deno.ChildProcess, signal: Deno.Signal): void {
+    try {
+      child.kill(signal);
+    } catch {
+      // The command already exited
+    }
+  }
+
+  getStatus(run: PipelineRun): Promise<PipelineRunStatus | null> {
+    if (this.config.dryRun) {
+      return Promise.resolve(simulatePipelineStatus(this.config, run));
+    }
+
+    const process = this.processes.get(run.id);
+    if (!process) {
+      this.log.warn(
+        `Upgrade command ${run.id} is not tracked by this process, treating as ${INTERRUPTED_STATUS}`,
+      );
+      return Promise.resolve({
+        status: INTERRUPTED_STATUS,
+        classification: PipelineStatusClassification.TERMINAL,
+      });
+    }
+
+    if (process.status === null) {
+      return Promise.resolve({
+        status: "running",
+        classification: PipelineStatusClassification.NON_TERMINAL,
+      });
+    }
+
+    // The final status is reported once, so the finished run is forgotten
+    this.processes.delete(run.id);
+    return Promise.resolve({
+      status: process.status,
+      classification: PipelineStatusClassification.TERMINAL,
+    });
+  }
+
+  cancel(run: PipelineRun): Promise<boolean> {
+    const process = this.processes.get(run.id);
+    if (!process || process.status !== null) {
+      return Promise.resolve(false);
+    }
+
+    this.log.warn(`Cancelling upgrade command ${run.id}`);
+    process.isCancelled = true;
+    this.terminate(process.child);
+    return Promise.resolve(true);
+  }
+
+  getUrl(run: PipelineRun): string {
+    return run.webUrl;
+  }
+}
@@ -1,8 +1,10 @@
 // src/service/cosmos.test.ts
 import {
+  getAppliedPlanHeight,
   getBlockHeight,
   getChainIdentity,
-  getUpgradePlanBlockHeight,
+  getUpgradePlan,
+  parseUpgradeBinaries,
 } from "src/service/cosmos.ts";
 import { assertEquals } from "test-assert";
 import { assertSpyCall, spy } from "test-mock";
@@ -61,12 +63,20 @@ Deno.test(
 );
 
 Deno.test(
-  "getUpgradePlan should return plan height when a plan exists",
+  "getUpgradePlan should return the full plan when a plan exists",
   async () => {
+    const info = JSON.stringify({
+      binaries: {
+        "linux/amd64":
+          "https://example.com/gaiad-linux-amd64?checksum=sha256:abc123",
+      },
+    });
     const mockResponseData = {
       plan: {
         name: "v2-upgrade",
+        time: "0001-01-01T00:00:00Z",
         height: "99999",
+        info,
       },
     };
     const originalFetch = globalThis.fetch;
@@ -77,8 +87,19 @@ Deno.test(
     );
     globalThis.fetch = mockFetch;
     try {
-      const planHeight = await getUpgradePlanBlockHeight("http://dummy-url");
-      assertEquals(planHeight, 99999);
+      const result = await getUpgradePlan("http://dummy-url");
+      assertEquals(result?.plan, {
+        name: "v2-upgrade",
+        height: 99999,
+        time: "0001-01-01T00:00:00Z",
+        info,
+        binaries: {
+          "linux/amd64": {
+            url: "https://example.com/gaiad-linux-amd64?checksum=sha256:abc123",
+            checksum: "sha256:abc123",
+          },
+        },
+      });
       assertSpyCall(mockFetch, 0, {
         args: [
           `http://dummy-url/cosmos/upgrade/v1beta1/current_plan`,
@@ -105,8 +126,8 @@ Deno.test(
     );
     globalThis.fetch = mockFetch;
     try {
-      const planHeight = await getUpgradePlanBlockHeight("http://dummy-url");
-      assertEquals(planHeight, null);
+      const result = await getUpgradePlan("http://dummy-url");
+      assertEquals(result, { plan: null });
       assertSpyCall(mockFetch, 0, {
         args: [
           `http://dummy-url/cosmos/upgrade/v1beta1/current_plan`,
@@ -119,6 +140,47 @@ Deno.test(
   },
 );
 
+Deno.test(
+  "getUpgradePlan should return null when the API call fails",
+  async () => {
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = () => Promise.reject(new Error("Network failure"));
+    try {
+      const result = await getUpgradePlan("http://dummy-url");
+      assertEquals(result, null);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  },
+);
+
+Deno.test(
+  "parseUpgradeBinaries should return an empty map for non-JSON info",
+  () => {
+    assertEquals(parseUpgradeBinaries(""), {});
+    assertEquals(
+      parseUpgradeBinaries("https://example.com/upgrade-info.json"),
+      {},
+    );
+  },
+);
+
+Deno.test(
+  "parseUpgradeBinaries should keep binaries without checksum",
+  () => {
+    const info = JSON.stringify({
+      binaries: { "linux/arm64": "https://example.com/gaiad-linux-arm64" },
+    });
+
+    assertEquals(parseUpgradeBinaries(info), {
+      "linux/arm64": {
+        url: "https://example.com/gaiad-linux-arm64",
+        checksum: null,
+      },
+    });
+  },
+);
+
 Deno.test(
   "getChainIdentity should return moniker and network on success",
   async () => {
@@ -127,12 +189,13 @@ Deno.test(
         default_node_id: "node-id-123",
         listen_addr: "0.0.0.0:26656",
         network: "test-network-1",
-        version: "v1.0.0",
+        version: "0.38.12",
         moniker: "test-moniker",
         other: {
           rpc_address: "localhost:26657",
         },
       },
+      application_version: { name: "gaia", version: "v1.0.0" },
     };
     const originalFetch = globalThis.fetch;
     const mockFetch = spy(() =>
@@ -175,3 +238,44 @@ Deno.test("getChainIdentity should return null on API failure", async () => {
     globalThis.fetch = originalFetch;
   }
 });
+
+Deno.test(
+  "getAppliedPlanHeight should return the height the plan was applied at",
+  async () => {
+    const originalFetch = globalThis.fetch;
+    const mockFetch = spy(() =>
+      Promise.resolve(
+        new Response(JSON.stringify({ height: "99999" }), { status: 200 }),
+      )
+    );
+    globalThis.fetch = mockFetch;
+    try {
+      const height = await getAppliedPlanHeight("http://dummy-url", "v2");
+      assertEquals(height, 99999);
+      assertSpyCall(mockFetch, 0, {
+        args: [
+          `http://dummy-url/cosmos/upgrade/v1beta1/applied_plan/v2`,
+          undefined,
+        ],
+      });
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  },
+);
+
+Deno.test(
+  "getAppliedPlanHeight should return 0 for plans not applied yet",
+  async () => {
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = () =>
+      Promise.resolve(
+        new Response(JSON.stringify({ height: "0" }), { status: 200 }),
+      );
+    try {
+      assertEquals(await getAppliedPlanHeight("http://dummy-url", "v2"), 0);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  },
+);
@@ -1,5 +1,6 @@
 import { ChainIdentity } from "src/types/chain-identity.ts";
 import { isFailure } from "src/types/result.ts";
+import { CurrentPlanResult, UpgradeBinary } from "src/types/upgrade-plan.ts";
 import { fetchJson, safeGet } from "src/utils/http.ts";
 
 /**
@@ -32,14 +33,52 @@ export async function getBlockHeight(apiUrl: string): Promise<number | null> {
 }
 
 /**
- * Fetches the upgrade plan height from the Cosmos blockchain.
+ * Parses the cosmovisor-style binaries map from the info field of a plan.
+ *
+ * @param info - The raw plan info.
+ * @returns The binaries by platform, or an empty object if info holds none.
+ */
+export function parseUpgradeBinaries(
+  info: string,
+): Record<string, UpgradeBinary> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(info);
+  } catch {
+    return {};
+  }
+
+  const binaries = safeGet<Record<string, unknown>>(parsed, ["binaries"]);
+  if (!binaries || typeof binaries !== "object") {
+    return {};
+  }
+
+  const result: Record<string, UpgradeBinary> = {};
+  for (const [platform, url] of Object.entries(binaries)) {
+    if (typeof url !== "string") continue;
+
+    let checksum: string | null = null;
+    try {
+      checksum = new URL(url).searchParams.get("checksum");
+    } catch {
+      // Keep binaries with unparsable URLs, only without checksum
+    }
+    result[platform] = { url, checksum };
+  }
+
+  return result;
+}
+
+/**
+ * Fetches the current upgrade plan from the Cosmos blockchain.
  *
  * @param apiUrl - The base URL of the Cosmos REST API.
- * @returns The upgrade plan height as a number, or null if no plan exists or the request fails.
+ * @returns The query result holding the plan (null if no plan is scheduled),
+ * or null if the request fails.
  */
-export async function getUpgradePlanBlockHeight(
+export async function getUpgradePlan(
   apiUrl: string,
-): Promise<number | null> {
+): Promise<CurrentPlanResult | null> {
   const result = await fetchJson(
     `${apiUrl}/cosmos/upgrade/v1beta1/current_plan`,
   );
@@ -48,14 +87,56 @@ export async function getUpgradePlanBlockHeight(
     return null;
   }
 
-  const planHeight = safeGet<string>(result.data.data, ["plan", "height"]);
+  const plan = safeGet<Record<string, unknown>>(result.data.data, ["plan"]);
+  const planHeight = safeGet<string>(plan, ["height"]);
 
-  if (!planHeight) {
-    return null;
+  if (!plan || !planHeight) {
+    return { plan: null };
   }
 
   const height = parseInt(planHeight, 10);
-  return isNaN(height) ? null : height;
+  if (isNaN(height)) {
+    return { plan: null };
+  }
+
+  const info = safeGet<string>(plan, ["info"]) || "";
+
+  return {
+    plan: {
+      name: safeGet<string>(plan, ["name"]) || "",
+      height,
+      time: safeGet<string>(plan, ["time"]),
+      info,
+      binaries: parseUpgradeBinaries(info),
+    },
+  };
+}
+
+/**
+ * Fetches the height at which the named upgrade plan was applied.
+ *
+ * @param apiUrl - The base URL of the Cosmos REST API.
+ * @param name - The name of the upgrade plan.
+ * @returns The applied height (0 if the plan has not been applied yet), or
+ * null if the request fails.
+ */
+export async function getAppliedPlanHeight(
+  apiUrl: string,
+  name: string,
+): Promise<number | null> {
+  const result = await fetchJson(
+    `${apiUrl}/cosmos/upgrade/v1beta1/applied_plan/${encodeURIComponent(name)}`,
+  );
+
+  if (isFailure(result)) {
+    return null;
+  }
+
+  const height = parseInt(
+    safeGet<string>(result.data.data, ["height"]) ?? "0",
+    10,
+  );
+  return isNaN(height) ? 0 : height;
 }
 
 /**
@@ -85,7 +166,10 @@ export async function getChainIdentity(
   const nodeId = safeGet<string>(nodeInfo, ["default_node_id"]) || "";
   const listenAddr = safeGet<string>(nodeInfo, ["listen_addr"]) || "";
   const network = safeGet<string>(nodeInfo, ["network"]) || "";
-  const version = safeGet<string>(nodeInfo, ["version"]) || "";
+  const version = safeGet<string>(result.data.data, [
+    "application_version",
+    "version",
+  ]) || "";
   const moniker = safeGet<string>(nodeInfo, ["moniker"]) || "";
   const other = safeGet<Record<string, unknown>>(nodeInfo, ["other"]);
   const rpcAddress = other ? safeGet<string>(other, ["rpc_address"]) || "" : "";
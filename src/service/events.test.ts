@@ -0,0 +1,56 @@
+import { onMonitorEvent, publishMonitorEvent } from "src/service/events.ts";
+import { MonitorEvent } from "src/types/events.ts";
+import { logger } from "src/utils/logger.ts";
+import { assertEquals } from "test-assert";
+import { stub } from "test-mock";
+
+function createMockEvent(): MonitorEvent {
+  return {
+    type: "plan-detected",
+    severity: "info",
+    chain: "test-chain",
+    identity: null,
+    message: "Upgrade plan detected",
+    timestamp: new Date(0).toISOString(),
+    details: { height: 100 },
+  };
+}
+
+Deno.test("publishMonitorEvent should deliver events to subscribed listeners", () => {
+  const received: MonitorEvent[] = [];
+  const unsubscribe = onMonitorEvent((event) => {
+    received.push(event);
+  });
+
+  publishMonitorEvent(createMockEvent());
+  unsubscribe();
+  publishMonitorEvent(createMockEvent());
+
+  assertEquals(received.length, 1);
+  assertEquals(received[0].details.height, 100);
+});
+
+Deno.test("publishMonitorEvent should isolate failing listeners", async () => {
+  const errorStub = stub(logger, "error");
+  const received: string[] = [];
+  const unsubscribers = [
+    onMonitorEvent(() => {
+      throw new Error("sync failure");
+    }),
+    onMonitorEvent(() => Promise.reject(new Error("async failure"))),
+    onMonitorEvent((event) => {
+      received.push(event.type);
+    }),
+  ];
+
+  try {
+    publishMonitorEvent(createMockEvent());
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    assertEquals(received, ["plan-detected"]);
+    assertEquals(errorStub.calls.length, 2);
+  } finally {
+    unsubscribers.forEach((unsubscribe) => unsubscribe());
+    errorStub.restore();
+  }
+});
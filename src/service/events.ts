@@ -0,0 +1,41 @@
+import { MonitorEvent, MonitorEventListener } from "src/types/events.ts";
+import { logger } from "src/utils/logger.ts";
+
+/**
+ * Listeners subscribed to the lifecycle events of all chain monitors.
+ */
+const listeners = new Set<MonitorEventListener>();
+
+/**
+ * Subscribes a listener to monitor events.
+ *
+ * @param listener - The callback receiving every published event.
+ * @returns A function removing the listener again.
+ */
+export function onMonitorEvent(listener: MonitorEventListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Publishes a monitor event to all listeners. A failing listener is logged
+ * and never interrupts the monitor or the other listeners.
+ *
+ * @param event - The event to publish.
+ */
+export function publishMonitorEvent(event: MonitorEvent): void {
+  for (const listener of listeners) {
+    try {
+      const result = listener(event);
+      if (result instanceof Promise) {
+        result.catch((err) => {
+          logger.error(`Monitor event listener failed for ${event.type}:`, err);
+        });
+      }
+    } catch (err) {
+      logger.error(`Monitor event listener failed for ${event.type}:`, err);
+    }
+  }
+}
@@ -0,0 +1,210 @@
+import { type ChainConfig } from "config/config.ts";
+import { createExecutor, waitForRun } from "src/service/executor.ts";
+import { GithubExecutor } from "src/service/github.ts";
+import { GitlabExecutor } from "src/service/gitlab.ts";
+import { WebhookExecutor } from "src/service/webhook.ts";
+import {
+  PipelineExecutor,
+  PipelineRun,
+  PipelineRunStatus,
+  PipelineStatusClassification,
+} from "src/types/executor.ts";
+import { logger } from "src/utils/logger.ts";
+import { assertEquals, assertInstanceOf } from "test-assert";
+import { stub } from "test-mock";
+
+const PIPELINE_RUN: PipelineRun = {
+  id: 456,
+  webUrl: "https://ci.example.com/runs/456",
+  status: "pending",
+};
+
+function createMockExecutor(
+  statuses: Array<PipelineRunStatus | null>,
+): PipelineExecutor & { statusCalls: number; cancelCalls: number } {
+  return {
+    apiUrl: "https://ci.example.com",
+    statusCalls: 0,
+    cancelCalls: 0,
+    trigger: () => Promise.resolve(PIPELINE_RUN),
+    getStatus(_run: PipelineRun): Promise<PipelineRunStatus | null> {
+      this.statusCalls++;
+      return Promise.resolve(statuses.shift() ?? null);
+    },
+    cancel(_run: PipelineRun): Promise<boolean> {
+      this.cancelCalls++;
+      return Promise.resolve(true);
+    },
+    getUrl: (run: PipelineRun) => run.webUrl,
+  };
+}
+
+function terminal(status: string): PipelineRunStatus {
+  return { status, classification: PipelineStatusClassification.TERMINAL };
+}
+
+function running(): PipelineRunStatus {
+  return {
+    status: "running",
+    classification: PipelineStatusClassification.NON_TERMINAL,
+  };
+}
+
+async function withImmediateTimers<T>(testFn: () => Promise<T>): Promise<T> {
+  const originalSetTimeout = globalThis.setTimeout;
+  try {
+    // Mock setTimeout to execute on the next microtask
+    globalThis.setTimeout = ((fn: () => void) => {
+      queueMicrotask(fn);
+      return 0;
+    }) as typeof setTimeout;
+    return await testFn();
+  } finally {
+    globalThis.setTimeout = originalSetTimeout;
+  }
+}
+
+Deno.test("waitForRun should return a terminal status immediately", async () => {
+  const executor = createMockExecutor([terminal("success")]);
+
+  assertEquals(await waitForRun(executor, PIPELINE_RUN), {
+    status: "success",
+    reason: "finished",
+    cancelled: false,
+  });
+  assertEquals(executor.statusCalls, 1);
+});
+
+Deno.test("waitForRun should keep polling after a transient status error", async () => {
+  const warnStub = stub(logger, "warn");
+  const executor = createMockExecutor([null, running(), terminal("success")]);
+
+  try {
+    const result = await withImmediateTimers(() =>
+      waitForRun(executor, PIPELINE_RUN)
+    );
+
+    assertEquals(result, {
+      status: "success",
+      reason: "finished",
+      cancelled: false,
+    });
+    assertEquals(executor.statusCalls, 3);
+  } finally {
+    warnStub.restore();
+  }
+});
+
+Deno.test("waitForRun should end with an error after repeated status errors", async () => {
+  const warnStub = stub(logger, "warn");
+  const executor = createMockExecutor([running()]);
+
+  try {
+    const result = await withImmediateTimers(() =>
+      waitForRun(executor, PIPELINE_RUN)
+    );
+
+    assertEquals(result, {
+      status: "running",
+      reason: "error",
+      cancelled: false,
+    });
+    assertEquals(executor.statusCalls, 6);
+    assertEquals(executor.cancelCalls, 0);
+  } finally {
+    warnStub.restore();
+  }
+});
+
+Deno.test("waitForRun should poll until terminal status is reached", async () => {
+  const warnStub = stub(logger, "warn");
+  const executor = createMockExecutor([
+    {
+      status: "pending",
+      classification: PipelineStatusClassification.NON_TERMINAL,
+    },
+    {
+      status: "waiting_for_resource",
+      classification: PipelineStatusClassification.UNKNOWN,
+    },
+    terminal("canceled"),
+  ]);
+
+  try {
+    const result = await withImmediateTimers(() =>
+      waitForRun(executor, PIPELINE_RUN)
+    );
+
+    assertEquals(result.status, "canceled");
+    assertEquals(executor.statusCalls, 3);
+    assertEquals(warnStub.calls.length, 1);
+  } finally {
+    warnStub.restore();
+  }
+});
+
+Deno.test("waitForRun should cancel the run when the timeout elapses", async () => {
+  const warnStub = stub(logger, "warn");
+  const infoStub = stub(logger, "info");
+  const executor = createMockExecutor([running(), running(), running()]);
+
+  try {
+    const result = await waitForRun(executor, PIPELINE_RUN, {
+      timeoutMs: 1,
+      cancelOnAbort: true,
+    });
+
+    assertEquals(result, {
+      status: "running",
+      reason: "timeout",
+      cancelled: true,
+    });
+    assertEquals(executor.cancelCalls, 1);
+  } finally {
+    warnStub.restore();
+    infoStub.restore();
+  }
+});
+
+Deno.test("waitForRun should stop on shutdown without cancelling by default", async () => {
+  const warnStub = stub(logger, "warn");
+  const executor = createMockExecutor([running()]);
+  const controller = new AbortController();
+  controller.abort();
+
+  try {
+    const result = await waitForRun(executor, PIPELINE_RUN, {
+      signal: controller.signal,
+    });
+
+    assertEquals(result, {
+      status: "pending",
+      reason: "shutdown",
+      cancelled: false,
+    });
+    assertEquals(executor.statusCalls, 0);
+    assertEquals(executor.cancelCalls, 0);
+  } finally {
+    warnStub.restore();
+  }
+});
+
+Deno.test("createExecutor should create the configured executor", () => {
+  const config = {
+    executor: "gitlab",
+    cicdProjectApiUrl: "https://gitlab.example.com/api/v4/projects/123",
+    githubApiUrl: "https://api.github.com",
+    githubRepository: "acme/node-ops",
+  } as ChainConfig;
+
+  assertInstanceOf(createExecutor(config), GitlabExecutor);
+
+  const github = createExecutor({ ...config, executor: "github" });
+  assertInstanceOf(github, GithubExecutor);
+  assertEquals(github.apiUrl, "https://api.github.com/repos/acme/node-ops");
+
+  assertInstanceOf(
+    createExecutor({ ...config, executor: "webhook" }),
+    WebhookExecutor,
+  );
+});
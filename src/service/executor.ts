@@ -0,0 +1,145 @@
+import { type ChainConfig } from "config/config.ts";
+import { CommandExecutor } from "src/service/command.ts";
+import { GithubExecutor } from "src/service/github.ts";
+import { GitlabExecutor } from "src/service/gitlab.ts";
+import { JenkinsExecutor } from "src/service/jenkins.ts";
+import { WebhookExecutor } from "src/service/webhook.ts";
+import {
+  PipelineExecutor,
+  PipelineRun,
+  PipelineRunStatus,
+  PipelineStatusClassification,
+  PipelineWaitOptions,
+  PipelineWaitReason,
+  PipelineWaitResult,
+} from "src/types/executor.ts";
+import { signalAwareDelay } from "src/utils/delay.ts";
+import { logger } from "src/utils/logger.ts";
+
+const POLL_INTERVAL_MS = 10_000;
+const MAX_CONSECUTIVE_POLL_ERRORS = 5;
+
+/**
+ * Creates the pipeline executor configured for a chain.
+ *
+ * @param config - The chain configuration.
+ * @returns The executor for the configured backend.
+ */
+export function createExecutor(config: ChainConfig): PipelineExecutor {
+  switch (config.executor) {
+    case "github":
+      return new GithubExecutor(config);
+    case "gitlab":
+      return new GitlabExecutor(config);
+    case "webhook":
+      return new WebhookExecutor(config);
+    case "command":
+      return new CommandExecutor(config);
+    case "jenkins":
+      return new JenkinsExecutor(config);
+  }
+}
+
+/**
+ * Ends the wait for an unfinished run and cancels the run if requested.
+ *
+ * @param executor - The executor that started the run.
+ * @param run - The unfinished run.
+ * @param status - The last known status of the run.
+ * @param reason - Why the wait ended.
+ * @param cancelOnAbort - Whether to cancel the run.
+ * @returns The wait result.
+ */
+async function abortWait(
+  executor: PipelineExecutor,
+  run: PipelineRun,
+  status: string,
+  reason: PipelineWaitReason,
+  cancelOnAbort: boolean,
+): Promise<PipelineWaitResult> {
+  logger.warn(
+    `Stopped waiting for pipeline ${run.id} (${reason}), last status: ${status}`,
+  );
+
+  if (!cancelOnAbort) {
+    logger.warn(
+      `Pipeline ${run.id} was not cancelled and may still be running`,
+    );
+    return { status, reason, cancelled: false };
+  }
+
+  const cancelled = await executor.cancel(run);
+  if (cancelled) {
+    logger.info(`Pipeline ${run.id} cancelled`);
+  } else {
+    logger.error(`Failed to cancel pipeline ${run.id}`);
+  }
+  return { status, reason, cancelled };
+}
+
+/**
+ * Waits for a pipeline run to complete by polling its status.
+ *
+ * The status is polled at a fixed interval until the run reaches a terminal
+ * state (success, failed, canceled or skipped). Unknown statuses are treated
+ * as non-terminal. Failed status requests are retried on the next poll; only
+ * a run of consecutive failures ends the wait with reason "error". The wait
+ * also ends when the signal is aborted or the timeout elapses. Whenever the
+ * wait ends before the run finished, the run is cancelled if requested.
+ *
+ * @param executor - The executor that started the run.
+ * @param run - The run to wait for.
+ * @param options - Signal, timeout and cancellation behaviour.
+ * @returns The final status of the run and why the wait ended.
+ */
+export async function waitForRun(
+  executor: PipelineExecutor,
+  run: PipelineRun,
+  options: PipelineWaitOptions = {},
+): Promise<PipelineWaitResult> {
+  const { signal, timeoutMs = 0, cancelOnAbort = false } = options;
+  const deadline = timeoutMs > 0 ? Date.now() + timeoutMs : Infinity;
+  let status = run.status;
+  let pollErrors = 0;
+
+  while (!signal?.aborted) {
+    let result: PipelineRunStatus | null = null;
+    try {
+      result = await executor.getStatus(run);
+    } catch (err) {
+      logger.error(`Failed to fetch pipeline status:`, err);
+    }
+
+    if (!result) {
+      pollErrors++;
+      logger.warn(
+        `Status of pipeline ${run.id} unavailable (${pollErrors}/${MAX_CONSECUTIVE_POLL_ERRORS})`,
+      );
+      if (pollErrors >= MAX_CONSECUTIVE_POLL_ERRORS) {
+        return abortWait(executor, run, status, "error", cancelOnAbort);
+      }
+    } else {
+      pollErrors = 0;
+      status = result.status;
+
+      if (result.classification === PipelineStatusClassification.TERMINAL) {
+        return { status, reason: "finished", cancelled: false };
+      }
+
+      if (result.classification === PipelineStatusClassification.UNKNOWN) {
+        logger.warn(
+          `Unknown pipeline status: ${status}, treating as non-terminal`,
+        );
+      }
+    }
+
+    const remainingMs = deadline - Date.now();
+    if (remainingMs <= 0) {
+      return abortWait(executor, run, status, "timeout", cancelOnAbort);
+    }
+
+    await signalAwareDelay(Math.min(POLL_INTERVAL_MS, remainingMs), signal);
+  }
+
+  return abortWait(executor, run, status, "shutdown", cancelOnAbort);
+}
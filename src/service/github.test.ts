@@ -0,0 +1,299 @@
+import { type ChainConfig } from "config/config.ts";
+import { classifyWorkflowRun, GithubExecutor } from "src/service/github.ts";
+import { createMockChainConfig } from "src/test-utils/config.ts";
+import {
+  PipelineRun,
+  PipelineStatusClassification,
+} from "src/types/executor.ts";
+import { GithubWorkflowRun } from "src/types/github.ts";
+import { logger } from "src/utils/logger.ts";
+import { assertEquals } from "test-assert";
+import { stub } from "test-mock";
+
+const API_URL = "https://api.github.com/repos/acme/node-ops";
+const WORKFLOW_URL = `${API_URL}/actions/workflows/upgrade.yml`;
+const UPGRADE_ID = "6f1c2a9e-3b7d-4e0f-9a51-8c2d4e6f7a90";
+const PIPELINE_RUN: PipelineRun = {
+  id: 789,
+  webUrl: "https://github.com/acme/node-ops/actions/runs/789",
+  status: "queued",
+};
+
+function createMockConfig(overrides: Partial<ChainConfig> = {}): ChainConfig {
+  return createMockChainConfig({
+    executor: "github",
+    cicdVariables: '{"PROVIDER": "aws"}',
+    githubRepository: "acme/node-ops",
+    githubWorkflow: "upgrade.yml",
+    githubToken: "ghp_0123456789abcdef",
+    ...overrides,
+  });
+}
+
+interface RecordedRequest {
+  url: string;
+  method: string;
+  body: string | null;
+}
+
+/**
+ * Runs a test with fetch answered by a route table keyed by "METHOD URL"
+ * and setTimeout executing immediately.
+ */
+async function withMockedGithub<T>(
+  routes: Record<string, () => Response>,
+  testFn: (requests: RecordedRequest[]) => Promise<T>,
+): Promise<T> {
+  const originalFetch = globalThis.fetch;
+  const originalSetTimeout = globalThis.setTimeout;
+  const requests: RecordedRequest[] = [];
+
+  try {
+    globalThis.fetch = (input: string | URL | Request, init?: RequestInit) => {
+      const method = init?.method ?? "GET";
+      const url = String(input);
+      requests.push({ url, method, body: (init?.body as string) ?? null });
+
+      const route = routes[`${method} ${url.split("?")[0]}`];
+      return Promise.resolve(
+        route ? route() : new Response("Not Found", { status: 404 }),
+      );
+    };
+    globalThis.setTimeout = ((fn: () => void) => {
+      queueMicrotask(fn);
+      return 0;
+    }) as typeof setTimeout;
+    return await testFn(requests);
+  } finally {
+    globalThis.fetch = originalFetch;
+    globalThis.setTimeout = originalSetTimeout;
+  }
+}
+
+function createMockRun(id: number, upgradeId: string): GithubWorkflowRun {
+  return {
+    id,
+    head_branch: "main",
+    status: "queued",
+    conclusion: null,
+    created_at: new Date().toISOString(),
+    html_url: `https://github.com/acme/node-ops/actions/runs/${id}`,
+    display_title: `Upgrade v2 (${upgradeId})`,
+  };
+}
+
+Deno.test("classifyWorkflowRun should normalize conclusions", () => {
+  const cases: Array<[string, string | null, string]> = [
+    ["completed", "success", "success"],
+    ["completed", "failure", "failed"],
+    ["completed", "timed_out", "failed"],
+    ["completed", "cancelled", "canceled"],
+    ["completed", "skipped", "skipped"],
+    ["completed", null, "failed"],
+  ];
+
+  for (const [status, conclusion, expected] of cases) {
+    assertEquals(classifyWorkflowRun(status, conclusion), {
+      status: expected,
+      classification: PipelineStatusClassification.TERMINAL,
+    });
+  }
+
+  assertEquals(
+    classifyWorkflowRun("in_progress", null).classification,
+    PipelineStatusClassification.NON_TERMINAL,
+  );
+  assertEquals(
+    classifyWorkflowRun("paused", null).classification,
+    PipelineStatusClassification.UNKNOWN,
+  );
+});
+
+Deno.test(
+  "GithubExecutor.trigger should dispatch the workflow and return the new run",
+  async () => {
+    const infoStub = stub(logger, "info");
+    const uuidStub = stub(crypto, "randomUUID", () => UPGRADE_ID);
+
+    try {
+      await withMockedGithub({
+        [`POST ${WORKFLOW_URL}/dispatches`]: () =>
+          new Response(null, { status: 204 }),
+        [`GET ${WORKFLOW_URL}/runs`]: () =>
+          Response.json({
+            workflow_runs: [createMockRun(789, UPGRADE_ID)],
+          }),
+      }, async (requests) => {
+        const run = await new GithubExecutor(createMockConfig()).trigger({
+          ref: "release",
+          variables: { UPGRADE_NAME: "v2" },
+        });
+
+        assertEquals(run, PIPELINE_RUN);
+        assertEquals(
+          JSON.parse(requests[0].body!),
+          {
+            ref: "release",
+            inputs: {
+              PROVIDER: "aws",
+              UPGRADE_NAME: "v2",
+              UPGRADE_ID,
+            },
+          },
+        );
+        const lookup = new URL(requests[1].url).searchParams;
+        assertEquals(lookup.get("event"), "workflow_dispatch");
+        assertEquals(lookup.get("branch"), "release");
+      });
+    } finally {
+      infoStub.restore();
+      uuidStub.restore();
+    }
+  },
+);
+
+Deno.test(
+  "GithubExecutor.trigger should pick the run of its own dispatch among concurrent runs",
+  async () => {
+    const infoStub = stub(logger, "info");
+    const uuidStub = stub(crypto, "randomUUID", () => UPGRADE_ID);
+    const otherRun = createMockRun(801, "0b7e4d2c-5a1f-4c3e-8d9b-2f6a1e3c5b7d");
+    const lookups = [
+      [otherRun],
+      [otherRun, createMockRun(789, UPGRADE_ID)],
+    ];
+
+    try {
+      await withMockedGithub({
+        [`POST ${WORKFLOW_URL}/dispatches`]: () =>
+          new Response(null, { status: 204 }),
+        [`GET ${WORKFLOW_URL}/runs`]: () =>
+          Response.json({ workflow_runs: lookups.shift() ?? [] }),
+      }, async (requests) => {
+        const run = await new GithubExecutor(createMockConfig()).trigger();
+
+        assertEquals(run, PIPELINE_RUN);
+        assertEquals(requests.length, 3);
+      });
+    } finally {
+      infoStub.restore();
+      uuidStub.restore();
+    }
+  },
+);
+
+Deno.test(
+  "GithubExecutor.trigger should stop looking up the run on shutdown",
+  async () => {
+    const errorStub = stub(logger, "error");
+    const infoStub = stub(logger, "info");
+    const controller = new AbortController();
+
+    try {
+      await withMockedGithub({
+        [`POST ${WORKFLOW_URL}/dispatches`]: () =>
+          new Response(null, { status: 204 }),
+        [`GET ${WORKFLOW_URL}/runs`]: () => {
+          controller.abort();
+          return Response.json({ workflow_runs: [] });
+        },
+      }, async (requests) => {
+        const run = await new GithubExecutor(createMockConfig()).trigger({
+          signal: controller.signal,
+        });
+
+        assertEquals(run, null);
+        assertEquals(requests.length, 2);
+      });
+    } finally {
+      errorStub.restore();
+      infoStub.restore();
+    }
+  },
+);
+
+Deno.test(
+  "GithubExecutor.trigger should return null when the dispatch is rejected",
+  async () => {
+    const errorStub = stub(logger, "error");
+    const infoStub = stub(logger, "info");
+
+    try {
+      await withMockedGithub({
+        [`POST ${WORKFLOW_URL}/dispatches`]: () =>
+          new Response("Unexpected inputs provided", { status: 422 }),
+      }, async (requests) => {
+        const run = await new GithubExecutor(createMockConfig()).trigger();
+        assertEquals(run, null);
+        assertEquals(requests.length, 1);
+      });
+    } finally {
+      errorStub.restore();
+      infoStub.restore();
+    }
+  },
+);
+
+Deno.test(
+  "GithubExecutor.getStatus should map the run conclusion",
+  async () => {
+    const infoStub = stub(logger, "info");
+
+    try {
+      await withMockedGithub({
+        [`GET ${API_URL}/actions/runs/789`]: () =>
+          Response.json({ status: "completed", conclusion: "cancelled" }),
+      }, async () => {
+        const result = await new GithubExecutor(createMockConfig()).getStatus(
+          PIPELINE_RUN,
+        );
+        assertEquals(result, {
+          status: "canceled",
+          classification: PipelineStatusClassification.TERMINAL,
+        });
+      });
+    } finally {
+      infoStub.restore();
+    }
+  },
+);
+
+Deno.test("GithubExecutor.cancel should post to the run cancel endpoint", async () => {
+  const infoStub = stub(logger, "info");
+
+  try {
+    await withMockedGithub({
+      [`POST ${API_URL}/actions/runs/789/cancel`]: () =>
+        new Response("{}", { status: 202 }),
+    }, async () => {
+      const cancelled = await new GithubExecutor(createMockConfig()).cancel(
+        PIPELINE_RUN,
+      );
+      assertEquals(cancelled, true);
+    });
+  } finally {
+    infoStub.restore();
+  }
+});
+
+Deno.test(
+  "GithubExecutor.trigger should only log the request in dry-run mode",
+  async () => {
+    const infoStub = stub(logger, "info");
+
+    try {
+      await withMockedGithub({}, async (requests) => {
+        const run = await new GithubExecutor(createMockConfig({ dryRun: true }))
+          .trigger();
+        assertEquals(requests.length, 0);
+        assertEquals(run?.webUrl.startsWith("dry-run://pipelines/"), true);
+      });
+
+      const message = String(infoStub.calls.at(-1)?.args[0]);
+      assertEquals(message.includes(`POST ${WORKFLOW_URL}/dispatches`), true);
+      assertEquals(message.includes("Token: ghp_****"), true);
+    } finally {
+      infoStub.restore();
+    }
+  },
+);
@@ -0,0 +1,303 @@
+import { type ChainConfig } from "config/config.ts";
+import {
+  PipelineExecutor,
+  PipelineRun,
+  PipelineRunStatus,
+  PipelineStatusClassification,
+  PipelineTriggerOptions,
+} from "src/types/executor.ts";
+import { GithubWorkflowRun } from "src/types/github.ts";
+import { isFailure } from "src/types/result.ts";
+import { signalAwareDelay } from "src/utils/delay.ts";
+import {
+  simulatePipelineStatus,
+  simulatePipelineTrigger,
+} from "src/utils/dry-run.ts";
+import { fetchJson, safeGet } from "src/utils/http.ts";
+import { logger } from "src/utils/logger.ts";
+import { createUpgradeTemplateValues } from "src/utils/template.ts";
+import { parseVariables } from "src/utils/variable-parser.ts";
+
+/**
+ * Normalized statuses of completed workflow runs by their conclusion.
+ * Conclusions not listed here are reported as failed.
+ */
+const CONCLUSION_STATUSES: Record<string, string> = {
+  success: "success",
+  failure: "failed",
+  timed_out: "failed",
+  startup_failure: "failed",
+  action_required: "failed",
+  cancelled: "canceled",
+  skipped: "skipped",
+  neutral: "skipped",
+  stale: "skipped",
+};
+const NON_TERMINAL_STATUSES = [
+  "queued",
+  "in_progress",
+  "requested",
+  "waiting",
+  "pending",
+] as const;
+const RUN_LOOKUP_ATTEMPTS = 10;
+const RUN_LOOKUP_INTERVAL_MS = 3_000;
+/** Input carrying the ID that identifies the run of a dispatch */
+const CORRELATION_INPUT = "UPGRADE_ID";
+
+/**
+ * Maps the status and conclusion of a workflow run onto a normalized status.
+ *
+ * @param status - The workflow run status, e.g. "in_progress".
+ * @param conclusion - The conclusion of a completed workflow run.
+ * @returns The normalized status and its classification.
+ */
+export function classifyWorkflowRun(
+  status: string,
+  conclusion: string | null,
+): PipelineRunStatus {
+  if (status === "completed") {
+    return {
+      status: CONCLUSION_STATUSES[conclusion ?? ""] ?? "failed",
+      classification: PipelineStatusClassification.TERMINAL,
+    };
+  }
+
+  if (
+    NON_TERMINAL_STATUSES.includes(
+      status as typeof NON_TERMINAL_STATUSES[number],
+    )
+  ) {
+    return {
+      status,
+      classification: PipelineStatusClassification.NON_TERMINAL,
+    };
+  }
+
+  return { status, classification: PipelineStatusClassification.UNKNOWN };
+}
+
+/**
+ * Runs upgrade pipelines as GitHub Actions workflows via workflow_dispatch.
+ *
+ * The dispatch API does not return the started run, so every dispatch passes
+ * a unique UPGRADE_ID input and the run is looked up afterwards by its name.
+ * The workflow must declare every passed variable as an input and include
+ * UPGRADE_ID in its `run-name`.
+ */
+export class GithubExecutor implements PipelineExecutor {
+  readonly apiUrl: string;
+
+  constructor(private readonly config: ChainConfig) {
+    this.apiUrl = `${config.githubApiUrl}/repos/${config.githubRepository}`;
+  }
+
+  /**
+   * Creates the headers for GitHub REST API requests.
+   */
+  private createHeaders(): Record<string, string> {
+    return {
+      "Accept": "application/vnd.github+json",
+      "Authorization": `Bearer ${this.config.githubToken}`,
+      "X-GitHub-Api-Version": "2022-11-28",
+    };
+  }
+
+  /**
+   * Returns the API URL of the configured workflow.
+   */
+  private getWorkflowUrl(): string {
+    return `${this.apiUrl}/actions/workflows/${
+      encodeURIComponent(this.config.githubWorkflow)
+    }`;
+  }
+
+  async trigger(
+    options: PipelineTriggerOptions = {},
+  ): Promise<PipelineRun | null> {
+    logger.info(`Triggering update workflow`);
+    const dispatchUrl = `${this.getWorkflowUrl()}/dispatches`;
+
+    try {
+      const ref = options.ref || this.config.cicdUpdateBranch;
+      const correlationId = crypto.randomUUID();
+      const inputs = {
+        ...parseVariables(
+          this.config.cicdVariables,
+          "CICD_VARIABLES",
+          createUpgradeTemplateValues(options.upgrade),
+        ),
+        ...options.variables,
+        [CORRELATION_INPUT]: correlationId,
+      };
+
+      if (this.config.dryRun) {
+        return simulatePipelineTrigger(this.config, {
+          method: "POST",
+          url: dispatchUrl,
+          ref,
+          token: this.config.githubToken,
+          variables: inputs,
+        });
+      }
+
+      const response = await fetch(dispatchUrl, {
+        method: "POST",
+        headers: {
+          ...this.createHeaders(),
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ ref, inputs }),
+      });
+
+      if (!response.ok) {
+        const errorBody = await response.text();
+        logger.error(
+          `GitHub API error! status: ${response.status} - ${errorBody}`,
+        );
+        return null;
+      }
+      await response.body?.cancel();
+
+      const run = await this.findDispatchedRun(
+        ref,
+        correlationId,
+        options.signal,
+      );
+      if (!run) {
+        logger.error(
+          options.signal?.aborted
+            ? `Workflow run for dispatch on ref ${ref} not found before shutdown`
+            : `Workflow run for dispatch on ref ${ref} not found after ${RUN_LOOKUP_ATTEMPTS} attempts`,
+        );
+        return null;
+      }
+
+      logger.info(`Workflow Run Details:
+                                  - Run ID: ${run.id}
+                                  - Repository: ${this.config.githubRepository}
+                                  - Branch: ${run.head_branch}
+                                  - Status: ${run.status}
+                                  - Run URL: ${run.html_url}`);
+
+      return { id: run.id, webUrl: run.html_url, status: run.status };
+    } catch (err) {
+      logger.error(
+        `Error triggering update workflow for api url: ${dispatchUrl}`,
+        err,
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Looks up the workflow run started by a dispatch by the correlation ID in
+   * its name, so concurrent dispatches of the same workflow and ref cannot be
+   * mixed up. Runs appear with a delay, so the lookup is retried a few times.
+   *
+   * @param ref - The dispatched ref.
+   * @param correlationId - The UPGRADE_ID input of the dispatch.
+   * @param signal - Optional AbortSignal for graceful shutdown.
+   * @returns The run of the dispatch, or null.
+   */
+  private async findDispatchedRun(
+    ref: string,
+    correlationId: string,
+    signal?: AbortSignal,
+  ): Promise<GithubWorkflowRun | null> {
+    const params = new URLSearchParams({
+      event: "workflow_dispatch",
+      branch: ref,
+      per_page: "20",
+    });
+    const runsUrl = `${this.getWorkflowUrl()}/runs?${params}`;
+
+    for (let attempt = 1; attempt <= RUN_LOOKUP_ATTEMPTS; attempt++) {
+      await signalAwareDelay(RUN_LOOKUP_INTERVAL_MS, signal);
+      if (signal?.aborted) return null;
+
+      const result = await fetchJson(runsUrl, {
+        headers: this.createHeaders(),
+      });
+      if (isFailure(result)) {
+        logger.warn(`Failed to list workflow runs: ${result.error.message}`);
+        continue;
+      }
+
+      const runs = safeGet<GithubWorkflowRun[]>(result.data.data, [
+        "workflow_runs",
+      ]) ?? [];
+      const run = runs.find((run) =>
+        run.display_title?.includes(correlationId)
+      );
+      if (run) {
+        return run;
+      }
+    }
+
+    return null;
+  }
+
+  async getStatus(run: PipelineRun): Promise<PipelineRunStatus | null> {
+    if (this.config.dryRun) {
+      return simulatePipelineStatus(this.config, run);
+    }
+
+    const result = await fetchJson(`${this.apiUrl}/actions/runs/${run.id}`, {
+      headers: this.createHeaders(),
+    });
+
+    if (isFailure(result)) {
+      logger.error(
+        `Failed to fetch workflow run status: ${result.error.message}`,
+      );
+      return null;
+    }
+
+    const status = safeGet<string>(result.data.data, ["status"]);
+    if (!status) {
+      logger.error("Workflow run status not found in response");
+      return null;
+    }
+
+    const conclusion = safeGet<string>(result.data.data, ["conclusion"]) ??
+      null;
+    logger.info(
+      `Workflow run status: ${status}${conclusion ? ` (${conclusion})` : ""}`,
+    );
+    return classifyWorkflowRun(status, conclusion);
+  }
+
+  async cancel(run: PipelineRun): Promise<boolean> {
+    if (this.config.dryRun) {
+      logger.info(`[DRY RUN] Would cancel workflow run ${run.id}`);
+      return true;
+    }
+
+    try {
+      const response = await fetch(
+        `${this.apiUrl}/actions/runs/${run.id}/cancel`,
+        { method: "POST", headers: this.createHeaders() },
+      );
+
+      if (!response.ok) {
+        const errorBody = await response.text();
+        logger.error(
+          `GitHub API error! status: ${response.status} - ${errorBody}`,
+        );
+        return false;
+      }
+
+      await response.body?.cancel();
+      logger.info(`Requested cancellation of workflow run ${run.id}`);
+      return true;
+    } catch (err) {
+      logger.error(`Error cancelling workflow run ${run.id}:`, err);
+      return false;
+    }
+  }
+
+  getUrl(run: PipelineRun): string {
+    return run.webUrl;
+  }
+}
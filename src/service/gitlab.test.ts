@@ -1,27 +1,54 @@
-import { type Config } from "config/config.ts";
+import { type ChainConfig } from "config/config.ts";
 import {
-  fetchGitlabPipelineStatus,
-  triggerGitlabUpdatePipeline,
+  combineTreeStatuses,
+  GitlabExecutor,
+  tailJobLog,
+  triggerGitlabPipeline,
 } from "src/service/gitlab.ts";
+import { createMockChainConfig } from "src/test-utils/config.ts";
+import {
+  PipelineRun,
+  PipelineStatusClassification,
+  PipelineTriggerOptions,
+} from "src/types/executor.ts";
+import { logger } from "src/utils/logger.ts";
 import { assertEquals } from "test-assert";
+import { stub } from "test-mock";
 
-const PIPELINE_ID = 456;
+const PIPELINE_RUN: PipelineRun = {
+  id: 456,
+  webUrl: "https://gitlab.example.com/project/-/pipelines/456",
+  status: "pending",
+};
 
-function createMockConfig(): Config {
-  return {
-    applicationPort: 8080,
-    pollIntervalMs: 2000,
-    cosmosNodeRestUrl: "http://localhost:1317",
+const TRIGGER_OPTIONS: PipelineTriggerOptions = {
+  variables: { UPGRADE_NAME: "v2", UPGRADE_PHASE: "execute" },
+  upgrade: {
+    chainId: "cosmoshub-4",
+    moniker: "validator-1",
+    version: "v1.0.0",
+    plan: {
+      name: "v2",
+      height: 1000,
+      time: null,
+      info: "{}",
+      binaries: {},
+    },
+    phase: "execute",
+  },
+};
+
+function createMockConfig(overrides: Partial<ChainConfig> = {}): ChainConfig {
+  return createMockChainConfig({
     cicdTriggerToken: "test-token",
-    cicdPersonalAccessToken: "test-pat",
-    cicdUpdateBranch: "main",
     cicdProjectApiUrl: "https://gitlab.example.com/api/v4/projects/123",
     cicdVariables: "{}",
-  };
+    ...overrides,
+  });
 }
 
 async function withMockedFetch<T>(
-  fetchImpl: () => Promise<Response>,
+  fetchImpl: typeof fetch,
   testFn: () => Promise<T>,
 ): Promise<T> {
   const originalFetch = globalThis.fetch;
@@ -101,169 +128,661 @@ function createMockErrorResponse(
 }
 
 Deno.test(
-  "triggerGitlabUpdatePipeline should trigger pipeline successfully",
+  "GitlabExecutor.trigger should return the triggered pipeline run",
   async () => {
     const mockPipeline = createMockPipelineResponse({
       id: 12345,
       status: "pending",
     });
-    const mockStatusResponse = createMockStatusResponse("failed"); // Use failed to avoid monitorChain
 
-    let fetchCallCount = 0;
-    await withMockedFetch(() => {
-      fetchCallCount++;
-      if (fetchCallCount === 1) {
-        return Promise.resolve(createMockResponse(mockPipeline));
-      } else {
-        return Promise.resolve(createMockResponse(mockStatusResponse));
-      }
+    let requestedUrl = "";
+    await withMockedFetch((input: string | URL | Request) => {
+      requestedUrl = String(input);
+      return Promise.resolve(createMockResponse(mockPipeline));
     }, async () => {
-      const result = await triggerGitlabUpdatePipeline(createMockConfig());
-      assertEquals(fetchCallCount, 2);
-      assertEquals(result, false); // Pipeline failed
+      const run = await new GitlabExecutor(createMockConfig()).trigger();
+      assertEquals(
+        requestedUrl,
+        "https://gitlab.example.com/api/v4/projects/123/trigger/pipeline",
+      );
+      assertEquals(run, {
+        id: 12345,
+        webUrl: "https://gitlab.example.com/project/-/pipelines/12345",
+        status: "pending",
+      });
     });
   },
 );
 
 Deno.test(
-  "triggerGitlabUpdatePipeline should not resume monitoring when pipeline fails",
+  "GitlabExecutor.trigger should handle GitLab API errors gracefully",
   async () => {
-    const mockPipeline = createMockPipelineResponse({
-      id: 12345,
-      status: "pending",
-    });
-    const mockStatusResponse = createMockStatusResponse("failed");
-
-    let fetchCallCount = 0;
     await withMockedFetch(() => {
-      fetchCallCount++;
-      if (fetchCallCount === 1) {
-        return Promise.resolve(createMockResponse(mockPipeline));
-      } else {
-        return Promise.resolve(createMockResponse(mockStatusResponse));
-      }
+      return Promise.resolve(createMockErrorResponse("Bad Request", 400));
     }, async () => {
-      const result = await triggerGitlabUpdatePipeline(createMockConfig());
-      assertEquals(fetchCallCount, 2);
-      assertEquals(result, false); // Pipeline failed
+      const run = await new GitlabExecutor(createMockConfig()).trigger();
+      assertEquals(run, null);
     });
   },
 );
 
 Deno.test(
-  "triggerGitlabUpdatePipeline should return true when pipeline succeeds",
+  "triggerGitlabPipeline should return the pipeline without waiting for it",
   async () => {
-    const mockPipeline = createMockPipelineResponse({
-      id: 12345,
-      status: "pending",
-    });
-    const mockStatusResponse = createMockStatusResponse("success");
+    const mockPipeline = createMockPipelineResponse({ id: 12345 });
 
     let fetchCallCount = 0;
     await withMockedFetch(() => {
       fetchCallCount++;
-      if (fetchCallCount === 1) {
-        return Promise.resolve(createMockResponse(mockPipeline));
-      } else {
-        return Promise.resolve(createMockResponse(mockStatusResponse));
-      }
+      return Promise.resolve(createMockResponse(mockPipeline));
     }, async () => {
-      const result = await triggerGitlabUpdatePipeline(createMockConfig());
-      assertEquals(fetchCallCount, 2);
-      assertEquals(result, true); // Pipeline succeeded
+      const pipeline = await triggerGitlabPipeline(createMockConfig());
+      assertEquals(fetchCallCount, 1);
+      assertEquals(pipeline?.id, 12345);
     });
   },
 );
 
 Deno.test(
-  "triggerGitlabUpdatePipeline should handle GitLab API errors gracefully",
+  "GitlabExecutor.getStatus should classify terminal statuses",
   async () => {
-    await withMockedFetch(() => {
-      return Promise.resolve(createMockErrorResponse("Bad Request", 400));
+    const result = await withMockedFetch((input) => {
+      return Promise.resolve(
+        createMockResponse(
+          String(input).includes("/bridges")
+            ? []
+            : createMockStatusResponse("failed"),
+        ),
+      );
     }, async () => {
-      const result = await triggerGitlabUpdatePipeline(createMockConfig());
-      assertEquals(result, false); // Should return false on error
+      return await new GitlabExecutor(createMockConfig()).getStatus(
+        PIPELINE_RUN,
+      );
+    });
+
+    assertEquals(result, {
+      status: "failed",
+      classification: PipelineStatusClassification.TERMINAL,
     });
   },
 );
 
 Deno.test(
-  "fetchGitlabPipelineStatus should return success status immediately",
+  "GitlabExecutor.getStatus should classify running and unknown statuses",
   async () => {
-    const mockStatusResponse = createMockStatusResponse("success");
-
-    const result = await withMockedFetch(() => {
-      return Promise.resolve(createMockResponse(mockStatusResponse));
+    const statuses = ["running", "waiting_for_resource"];
+    const results = await withMockedFetch(() => {
+      return Promise.resolve(
+        createMockResponse(createMockStatusResponse(statuses.shift()!)),
+      );
     }, async () => {
-      return await fetchGitlabPipelineStatus(PIPELINE_ID, createMockConfig());
+      const executor = new GitlabExecutor(createMockConfig());
+      return [
+        await executor.getStatus(PIPELINE_RUN),
+        await executor.getStatus(PIPELINE_RUN),
+      ];
     });
 
-    assertEquals(result, "success");
+    assertEquals(
+      results.map((result) => result?.classification),
+      [
+        PipelineStatusClassification.NON_TERMINAL,
+        PipelineStatusClassification.UNKNOWN,
+      ],
+    );
   },
 );
 
 Deno.test(
-  "fetchGitlabPipelineStatus should return failed status immediately",
+  "GitlabExecutor.getStatus should return null when GitLab API returns non-200 status",
   async () => {
-    const mockStatusResponse = createMockStatusResponse("failed");
-
-    const result = await withMockedFetch(() => {
-      return Promise.resolve(createMockResponse(mockStatusResponse));
+    await withMockedFetch(() => {
+      return Promise.resolve(createMockErrorResponse("Bad Request", 400));
     }, async () => {
-      return await fetchGitlabPipelineStatus(PIPELINE_ID, createMockConfig());
+      const result = await new GitlabExecutor(createMockConfig()).getStatus(
+        PIPELINE_RUN,
+      );
+      assertEquals(result, null);
     });
+  },
+);
 
-    assertEquals(result, "failed");
+Deno.test(
+  "GitlabExecutor.cancel should post to the pipeline cancel endpoint",
+  async () => {
+    let request: { url: string; init?: RequestInit } | null = null;
+    await withMockedFetch(
+      (input: string | URL | Request, init?: RequestInit) => {
+        request = { url: String(input), init };
+        return Promise.resolve(createMockResponse({ status: "canceled" }));
+      },
+      async () => {
+        const cancelled = await new GitlabExecutor(createMockConfig()).cancel(
+          PIPELINE_RUN,
+        );
+        assertEquals(cancelled, true);
+      },
+    );
+
+    assertEquals(
+      request!.url,
+      "https://gitlab.example.com/api/v4/projects/123/pipelines/456/cancel",
+    );
+    assertEquals(request!.init?.method, "POST");
+    assertEquals(
+      (request!.init?.headers as Record<string, string>)["PRIVATE-TOKEN"],
+      "test-pat",
+    );
   },
 );
 
 Deno.test(
-  "fetchGitlabPipelineStatus should return failed when GitLab API returns non-200 status",
+  "GitlabExecutor.cancel should return false when GitLab rejects the request",
   async () => {
     await withMockedFetch(() => {
-      return Promise.resolve(createMockErrorResponse("Bad Request", 400));
+      return Promise.resolve(createMockErrorResponse("Forbidden", 403));
     }, async () => {
-      const result = await fetchGitlabPipelineStatus(
-        PIPELINE_ID,
-        createMockConfig(),
+      const cancelled = await new GitlabExecutor(createMockConfig()).cancel(
+        PIPELINE_RUN,
       );
-      assertEquals(result, "failed");
+      assertEquals(cancelled, false);
     });
   },
 );
 
 Deno.test(
-  "fetchGitlabPipelineStatus should poll until terminal status is reached",
+  "triggerGitlabPipeline should only log the request in dry-run mode",
   async () => {
-    const originalSetTimeout = globalThis.setTimeout;
-    let fetchCallCount = 0;
+    const infoStub = stub(logger, "info");
+    let fetchCalled = false;
 
     try {
-      // Mock setTimeout to execute immediately
-      globalThis.setTimeout = (fn: () => void) => {
-        fn();
-        return 0;
-      };
-
-      const result = await withMockedFetch(() => {
-        fetchCallCount++;
-        if (fetchCallCount === 1) {
-          return Promise.resolve(
-            createMockResponse(createMockStatusResponse("pending")),
-          );
-        } else {
-          return Promise.resolve(
-            createMockResponse(createMockStatusResponse("success")),
-          );
-        }
+      await withMockedFetch(() => {
+        fetchCalled = true;
+        return Promise.resolve(createMockResponse({}));
       }, async () => {
-        return await fetchGitlabPipelineStatus(PIPELINE_ID, createMockConfig());
+        const pipeline = await triggerGitlabPipeline(
+          createMockConfig({
+            dryRun: true,
+            cicdTriggerToken: "glptt-0123456789abcdef",
+            cicdVariables: '{"PROVIDER": "aws"}',
+          }),
+          { ref: "release", variables: { UPGRADE_NAME: "v2" } },
+        );
+
+        assertEquals(fetchCalled, false);
+        assertEquals(pipeline?.ref, "release");
       });
 
-      assertEquals(result, "success");
-      assertEquals(fetchCallCount, 2);
+      const message = String(infoStub.calls.at(-1)?.args[0]);
+      assertEquals(
+        message.includes(
+          "POST https://gitlab.example.com/api/v4/projects/123/trigger/pipeline",
+        ),
+        true,
+      );
+      assertEquals(message.includes("Token: glpt****"), true);
+      assertEquals(message.includes("0123456789abcdef"), false);
+      assertEquals(
+        message.includes('{"PROVIDER":"aws","UPGRADE_NAME":"v2"}'),
+        true,
+      );
+    } finally {
+      infoStub.restore();
+    }
+  },
+);
+
+Deno.test(
+  "GitlabExecutor.getStatus should return the simulated status in dry-run mode",
+  async () => {
+    const infoStub = stub(logger, "info");
+
+    try {
+      await withMockedFetch(
+        () => Promise.reject(new Error("fetch must not be called")),
+        async () => {
+          const result = await new GitlabExecutor(
+            createMockConfig({ dryRun: true, dryRunPipelineStatus: "failed" }),
+          ).getStatus(PIPELINE_RUN);
+          assertEquals(result?.status, "failed");
+        },
+      );
     } finally {
-      globalThis.setTimeout = originalSetTimeout;
+      infoStub.restore();
     }
   },
 );
+
+Deno.test("tailJobLog should strip control sequences and keep the last lines", () => {
+  const trace = [
+    "section_start:1700000000:step_script\r\x1b[0K\x1b[36;1mExecuting step\x1b[0;m",
+    ...Array.from({ length: 40 }, (_, i) => `line ${i + 1}`),
+    "",
+    "\x1b[31;1mERROR: Job failed: exit code 1\x1b[0;m",
+    "section_end:1700000001:step_script\r\x1b[0K",
+  ].join("\n");
+
+  const lines = tailJobLog(trace).split("\n");
+
+  assertEquals(lines.length, 30);
+  assertEquals(lines[0], "line 12");
+  assertEquals(lines.at(-1), "ERROR: Job failed: exit code 1");
+});
+
+Deno.test("GitlabExecutor.getFailedJobs should list failed jobs with their log tail", async () => {
+  const requests: string[] = [];
+
+  await withMockedFetch((input) => {
+    const url = String(input);
+    requests.push(url);
+    if (url.includes("/jobs/11/trace")) {
+      return Promise.resolve(new Response("building\nexit code 1\n"));
+    }
+    if (url.includes("/bridges")) {
+      return Promise.resolve(Response.json([]));
+    }
+    return Promise.resolve(Response.json([
+      {
+        id: 11,
+        name: "upgrade-node",
+        stage: "deploy",
+        status: "failed",
+        allow_failure: false,
+        web_url: "https://gitlab.example.com/project/-/jobs/11",
+      },
+      {
+        id: 12,
+        name: "lint",
+        stage: "test",
+        status: "failed",
+        allow_failure: true,
+        web_url: "https://gitlab.example.com/project/-/jobs/12",
+      },
+    ]));
+  }, async () => {
+    const jobs = await new GitlabExecutor(createMockConfig()).getFailedJobs(
+      PIPELINE_RUN,
+    );
+
+    assertEquals(jobs, [{
+      name: "upgrade-node",
+      stage: "deploy",
+      webUrl: "https://gitlab.example.com/project/-/jobs/11",
+      logExcerpt: "building\nexit code 1",
+    }]);
+    assertEquals(requests, [
+      "https://gitlab.example.com/api/v4/projects/123/pipelines/456/jobs?scope[]=failed&per_page=100",
+      "https://gitlab.example.com/api/v4/projects/123/jobs/11/trace",
+      "https://gitlab.example.com/api/v4/projects/123/pipelines/456/bridges?per_page=100",
+    ]);
+  });
+});
+
+Deno.test("GitlabExecutor.getFailedJobs should keep jobs whose log is unavailable", async () => {
+  const errorStub = stub(logger, "error");
+
+  try {
+    await withMockedFetch((input) =>
+      Promise.resolve(
+        String(input).endsWith("/trace")
+          ? new Response("Forbidden", { status: 403 })
+          : String(input).includes("/bridges")
+          ? Response.json([])
+          : Response.json([{
+            id: 11,
+            name: "upgrade-node",
+            stage: "deploy",
+            status: "failed",
+            allow_failure: false,
+            web_url: "https://gitlab.example.com/project/-/jobs/11",
+          }]),
+      ), async () => {
+      const jobs = await new GitlabExecutor(createMockConfig())
+        .getFailedJobs(PIPELINE_RUN);
+
+      assertEquals(jobs.length, 1);
+      assertEquals(jobs[0].logExcerpt, "");
+      assertEquals(errorStub.calls.length, 1);
+    });
+  } finally {
+    errorStub.restore();
+  }
+});
+
+Deno.test("combineTreeStatuses should only succeed when the whole tree succeeded", () => {
+  assertEquals(combineTreeStatuses(["success", "success"]), "success");
+  assertEquals(combineTreeStatuses(["success", "running"]), "running");
+  assertEquals(combineTreeStatuses(["failed", "manual"]), "manual");
+  assertEquals(combineTreeStatuses(["success", "canceled"]), "canceled");
+  assertEquals(combineTreeStatuses(["failed", "success"]), "failed");
+});
+
+Deno.test("combineTreeStatuses should not count skipped pipelines as successful", () => {
+  assertEquals(combineTreeStatuses(["success", "skipped"]), "skipped");
+  assertEquals(combineTreeStatuses(["skipped", "success"]), "skipped");
+  assertEquals(combineTreeStatuses(["skipped", "failed"]), "skipped");
+  assertEquals(combineTreeStatuses(["skipped", "running"]), "running");
+});
+
+Deno.test("GitlabExecutor.getStatus should report a successful parent with a skipped child as skipped", async () => {
+  const infoStub = stub(logger, "info");
+
+  try {
+    const result = await withMockedFetch((input) => {
+      const url = String(input);
+      if (url.endsWith("/projects/123/pipelines/456/bridges?per_page=100")) {
+        return Promise.resolve(Response.json([{
+          id: 20,
+          name: "deploy-nodes",
+          status: "success",
+          downstream_pipeline: {
+            id: 789,
+            project_id: 123,
+            status: "skipped",
+            web_url: "https://gitlab.example.com/project/-/pipelines/789",
+          },
+        }]));
+      }
+      if (url.includes("/bridges")) {
+        return Promise.resolve(Response.json([]));
+      }
+      if (url.endsWith("/projects/123/pipelines/789")) {
+        return Promise.resolve(
+          Response.json(createMockStatusResponse("skipped")),
+        );
+      }
+      return Promise.resolve(
+        Response.json(createMockStatusResponse("success")),
+      );
+    }, () => new GitlabExecutor(createMockConfig()).getStatus(PIPELINE_RUN));
+
+    assertEquals(result, {
+      status: "skipped",
+      classification: PipelineStatusClassification.TERMINAL,
+    });
+  } finally {
+    infoStub.restore();
+  }
+});
+
+Deno.test("GitlabExecutor.getStatus should follow downstream pipelines", async () => {
+  const infoStub = stub(logger, "info");
+  const childStatuses = ["running", "success"];
+  const requests: string[] = [];
+
+  try {
+    const results = await withMockedFetch((input) => {
+      const url = String(input);
+      requests.push(url);
+      if (url.endsWith("/projects/123/pipelines/456/bridges?per_page=100")) {
+        return Promise.resolve(Response.json([{
+          id: 20,
+          name: "deploy-nodes",
+          status: "success",
+          downstream_pipeline: {
+            id: 789,
+            project_id: 999,
+            status: "running",
+            web_url: "https://gitlab.example.com/infra/-/pipelines/789",
+          },
+        }]));
+      }
+      if (url.includes("/bridges")) {
+        return Promise.resolve(Response.json([]));
+      }
+      if (url.endsWith("/projects/999/pipelines/789")) {
+        return Promise.resolve(
+          Response.json(createMockStatusResponse(childStatuses.shift()!)),
+        );
+      }
+      return Promise.resolve(
+        Response.json(createMockStatusResponse("success")),
+      );
+    }, async () => {
+      const executor = new GitlabExecutor(createMockConfig());
+      return [
+        await executor.getStatus(PIPELINE_RUN),
+        await executor.getStatus(PIPELINE_RUN),
+      ];
+    });
+
+    assertEquals(results.map((result) => result?.status), [
+      "running",
+      "success",
+    ]);
+    assertEquals(
+      requests.includes(
+        "https://gitlab.example.com/api/v4/projects/999/pipelines/789/bridges?per_page=100",
+      ),
+      true,
+    );
+  } finally {
+    infoStub.restore();
+  }
+});
+
+Deno.test("GitlabExecutor.getStatus should play blocking manual jobs", async () => {
+  const infoStub = stub(logger, "info");
+  const played: string[] = [];
+
+  try {
+    const result = await withMockedFetch((input, init) => {
+      const url = String(input);
+      if (init?.method === "POST") {
+        played.push(url);
+        return Promise.resolve(Response.json({}));
+      }
+      if (url.includes("/jobs?scope[]=manual")) {
+        return Promise.resolve(Response.json([
+          {
+            id: 31,
+            name: "approve-upgrade",
+            stage: "approve",
+            status: "manual",
+            allow_failure: false,
+            web_url: "https://gitlab.example.com/project/-/jobs/31",
+          },
+          {
+            id: 32,
+            name: "rollback",
+            stage: "approve",
+            status: "manual",
+            allow_failure: true,
+            web_url: "https://gitlab.example.com/project/-/jobs/32",
+          },
+        ]));
+      }
+      return Promise.resolve(
+        Response.json(createMockStatusResponse("manual")),
+      );
+    }, async () => {
+      return await new GitlabExecutor(
+        createMockConfig({ manualJobAction: "play" }),
+      ).getStatus(PIPELINE_RUN);
+    });
+
+    assertEquals(result, {
+      status: "manual",
+      classification: PipelineStatusClassification.NON_TERMINAL,
+    });
+    assertEquals(played, [
+      "https://gitlab.example.com/api/v4/projects/123/jobs/31/play",
+    ]);
+  } finally {
+    infoStub.restore();
+  }
+});
+
+Deno.test("GitlabExecutor.getStatus should treat manual pipelines as success if configured", async () => {
+  const infoStub = stub(logger, "info");
+
+  try {
+    const result = await withMockedFetch((input) => {
+      return Promise.resolve(
+        Response.json(
+          String(input).includes("/bridges")
+            ? []
+            : createMockStatusResponse("manual"),
+        ),
+      );
+    }, async () => {
+      return await new GitlabExecutor(
+        createMockConfig({ manualJobAction: "success" }),
+      ).getStatus(PIPELINE_RUN);
+    });
+
+    assertEquals(result?.status, "success");
+  } finally {
+    infoStub.restore();
+  }
+});
+
+Deno.test("GitlabExecutor.getStatus should fail manual pipelines after the manual job timeout", async () => {
+  const infoStub = stub(logger, "info");
+  const errorStub = stub(logger, "error");
+
+  try {
+    const results = await withMockedFetch((input) => {
+      return Promise.resolve(
+        Response.json(
+          String(input).includes("/bridges")
+            ? []
+            : createMockStatusResponse("manual"),
+        ),
+      );
+    }, async () => {
+      const executor = new GitlabExecutor(
+        createMockConfig({ manualJobAction: "wait", manualJobTimeoutMs: 1 }),
+      );
+      const first = await executor.getStatus(PIPELINE_RUN);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      return [first, await executor.getStatus(PIPELINE_RUN)];
+    });
+
+    assertEquals(results.map((result) => result?.status), [
+      "manual",
+      "failed",
+    ]);
+  } finally {
+    infoStub.restore();
+    errorStub.restore();
+  }
+});
+
+Deno.test("triggerGitlabPipeline should tag the pipeline with the upgrade ID", async () => {
+  const infoStub = stub(logger, "info");
+  let body: URLSearchParams | null = null;
+
+  try {
+    await withMockedFetch((_input, init) => {
+      body = init?.body as URLSearchParams;
+      return Promise.resolve(createMockResponse(createMockPipelineResponse()));
+    }, async () => {
+      await triggerGitlabPipeline(createMockConfig(), TRIGGER_OPTIONS);
+    });
+
+    assertEquals(
+      body!.get("variables[UPGRADE_ID]"),
+      "cosmoshub-4/v2/execute",
+    );
+  } finally {
+    infoStub.restore();
+  }
+});
+
+Deno.test("GitlabExecutor.findRun should return an unfailed pipeline with the same upgrade ID", async () => {
+  const infoStub = stub(logger, "info");
+  const requests: string[] = [];
+
+  try {
+    const run = await withMockedFetch((input) => {
+      const url = String(input);
+      requests.push(url);
+      if (url.endsWith("/pipelines/503/variables")) {
+        return Promise.resolve(Response.json([
+          { key: "UPGRADE_ID", value: "cosmoshub-4/v2/prepare" },
+        ]));
+      }
+      if (url.endsWith("/pipelines/502/variables")) {
+        return Promise.resolve(Response.json([
+          { key: "UPGRADE_ID", value: "cosmoshub-4/v2/execute" },
+        ]));
+      }
+      return Promise.resolve(Response.json([
+        { id: 504, status: "failed", web_url: "https://gitlab/p/504" },
+        { id: 503, status: "running", web_url: "https://gitlab/p/503" },
+        { id: 502, status: "running", web_url: "https://gitlab/p/502" },
+        { id: 501, status: "success", web_url: "https://gitlab/p/501" },
+      ]));
+    }, async () => {
+      return await new GitlabExecutor(createMockConfig()).findRun(
+        TRIGGER_OPTIONS,
+      );
+    });
+
+    assertEquals(run, {
+      id: 502,
+      webUrl: "https://gitlab/p/502",
+      status: "running",
+    });
+    assertEquals(requests, [
+      "https://gitlab.example.com/api/v4/projects/123/pipelines?ref=main&order_by=id&sort=desc&per_page=20",
+      "https://gitlab.example.com/api/v4/projects/123/pipelines/503/variables",
+      "https://gitlab.example.com/api/v4/projects/123/pipelines/502/variables",
+    ]);
+  } finally {
+    infoStub.restore();
+  }
+});
+
+Deno.test("GitlabExecutor.findRun should skip canceling and excluded pipelines", async () => {
+  const infoStub = stub(logger, "info");
+  const requests: string[] = [];
+
+  try {
+    const run = await withMockedFetch((input) => {
+      const url = String(input);
+      requests.push(url);
+      if (url.endsWith("/variables")) {
+        return Promise.resolve(Response.json([
+          { key: "UPGRADE_ID", value: "cosmoshub-4/v2/execute" },
+        ]));
+      }
+      return Promise.resolve(Response.json([
+        { id: 504, status: "canceling", web_url: "https://gitlab/p/504" },
+        { id: 503, status: "success", web_url: "https://gitlab/p/503" },
+        { id: 502, status: "running", web_url: "https://gitlab/p/502" },
+      ]));
+    }, async () => {
+      return await new GitlabExecutor(createMockConfig()).findRun(
+        TRIGGER_OPTIONS,
+        [503],
+      );
+    });
+
+    assertEquals(run?.id, 502);
+    assertEquals(requests, [
+      "https://gitlab.example.com/api/v4/projects/123/pipelines?ref=main&order_by=id&sort=desc&per_page=20",
+      "https://gitlab.example.com/api/v4/projects/123/pipelines/502/variables",
+    ]);
+  } finally {
+    infoStub.restore();
+  }
+});
+
+Deno.test("GitlabExecutor.findRun should return null without a matching pipeline", async () => {
+  const run = await withMockedFetch((input) => {
+    return Promise.resolve(Response.json(
+      String(input).endsWith("/variables")
+        ? [{ key: "UPGRADE_ID", value: "osmosis-1/v2/execute" }]
+        : [{ id: 501, status: "pending", web_url: "https://gitlab/p/501" }],
+    ));
+  }, async () => {
+    return await new GitlabExecutor(createMockConfig()).findRun(
+      TRIGGER_OPTIONS,
+    );
+  });
+
+  assertEquals(run, null);
+});
@@ -1,12 +1,32 @@
-import { type Config } from "config/config.ts";
+import { type ChainConfig } from "config/config.ts";
 import {
-  GitlabPipeline,
+  FailedJob,
+  PipelineExecutor,
+  PipelineRun,
+  PipelineRunStatus,
   PipelineStatusClassification,
+  PipelineTriggerOptions,
+  UpgradeContext,
+} from "src/types/executor.ts";
+import {
+  DownstreamPipeline,
+  GitlabBridge,
+  GitlabJob,
+  GitlabPipeline,
+  GitlabPipelineVariable,
 } from "src/types/gitlab.ts";
 import { isFailure } from "src/types/result.ts";
+import {
+  simulatePipelineStatus,
+  simulatePipelineTrigger,
+} from "src/utils/dry-run.ts";
 import { fetchJson, safeGet } from "src/utils/http.ts";
 import { logger } from "src/utils/logger.ts";
-import { parseCicdVariables } from "src/utils/variable-parser.ts";
+import { createUpgradeTemplateValues } from "src/utils/template.ts";
+import {
+  formatTriggerVariables,
+  parseCicdVariables,
+} from "src/utils/variable-parser.ts";
 
 /**
  * Categories of pipeline statuses.
@@ -18,23 +38,79 @@ const NON_TERMINAL_STATUSES = [
   "manual",
   "created",
 ] as const;
-const POLL_INTERVAL_MS = 10_000;
+const VARIABLE_KEY_PATTERN = /^variables\[(.+)\]$/;
+// Skipped pipelines ran no upgrade, so they count as unsuccessful everywhere
+const UNSUCCESSFUL_STATUSES = ["failed", "canceled", "skipped"];
+// Canceling pipelines will end as canceled, so they are never attached to
+const UNATTACHABLE_STATUSES = [...UNSUCCESSFUL_STATUSES, "canceling"];
+const UPGRADE_ID_VARIABLE = "UPGRADE_ID";
+const RECENT_PIPELINES_LIMIT = 20;
+const MAX_DOWNSTREAM_DEPTH = 5;
+const JOB_LOG_TAIL_LINES = 30;
+// Color codes and collapsible section markers of GitLab job logs
+const JOB_LOG_CONTROL_PATTERN =
+  // deno-lint-ignore no-control-regex
+  /\x1b\[[0-9;]*[A-Za-z]|section_(?:start|end):\d+:[^\r\n]*?\r/g;
+
+/**
+ * Creates the ID tagging the pipelines of an upgrade phase, so they can be
+ * found again before triggering a duplicate.
+ *
+ * @param upgrade - The upgrade the pipeline runs for.
+ * @returns The ID in the form `<chain ID>/<plan name>/<phase>`.
+ */
+export function createUpgradeId(upgrade: UpgradeContext): string {
+  return `${upgrade.chainId}/${upgrade.plan.name}/${upgrade.phase}`;
+}
 
 /**
  * Creates the request body for triggering a GitLab pipeline.
  *
- * @param config - The application configuration.
+ * @param config - The chain configuration.
+ * @param options - Optional ref and variable overrides.
  * @returns URLSearchParams containing the pipeline trigger parameters.
  */
-function createPipelineTriggerBody(config: Config): URLSearchParams {
-  const cicdVariables = parseCicdVariables(config);
+function createPipelineTriggerBody(
+  config: ChainConfig,
+  options: PipelineTriggerOptions,
+): URLSearchParams {
+  const cicdVariables = parseCicdVariables(
+    config,
+    createUpgradeTemplateValues(options.upgrade),
+  );
+  const upgradeVariables: Record<string, string> = options.upgrade
+    ? { [UPGRADE_ID_VARIABLE]: createUpgradeId(options.upgrade) }
+    : {};
   return new URLSearchParams({
     token: config.cicdTriggerToken,
-    ref: config.cicdUpdateBranch,
+    ref: options.ref || config.cicdUpdateBranch,
     ...cicdVariables,
+    ...formatTriggerVariables({
+      ...upgradeVariables,
+      ...options.variables,
+    }),
   });
 }
 
+/**
+ * Extracts the plain variables from a trigger request body.
+ *
+ * @param body - The trigger request body.
+ * @returns The variables without the 'variables[KEY]' wrapping.
+ */
+function extractTriggerVariables(
+  body: URLSearchParams,
+): Record<string, string> {
+  const variables: Record<string, string> = {};
+  for (const [key, value] of body) {
+    const match = key.match(VARIABLE_KEY_PATTERN);
+    if (match) {
+      variables[match[1]] = value;
+    }
+  }
+  return variables;
+}
+
 /**
  * Parses the GitLab API response for a triggered pipeline.
  *
@@ -70,16 +146,17 @@ function logPipelineInfo(pipeline: GitlabPipeline): void {
 /**
  * Fetches the current status of a single GitLab pipeline.
  *
+ * @param projectApiUrl - The API URL of the project running the pipeline.
  * @param pipelineId - The ID of the pipeline to check.
- * @param config - The application configuration.
+ * @param config - The chain configuration.
  * @returns Promise resolving to the pipeline status, or null on error.
  */
 async function checkPipelineStatus(
+  projectApiUrl: string,
   pipelineId: number,
-  config: Config,
+  config: ChainConfig,
 ): Promise<string | null> {
-  const pipelineStatusUrl =
-    `${config.cicdProjectApiUrl}/pipelines/${pipelineId}`;
+  const pipelineStatusUrl = `${projectApiUrl}/pipelines/${pipelineId}`;
 
   const result = await fetchJson(pipelineStatusUrl, {
     headers: { "PRIVATE-TOKEN": config.cicdPersonalAccessToken },
@@ -96,10 +173,85 @@ async function checkPipelineStatus(
     return null;
   }
 
-  logger.info(`Pipeline status: ${status}`);
+  logger.info(`Pipeline ${pipelineId} status: ${status}`);
   return status;
 }
 
+/**
+ * Lists the jobs of a pipeline in the given state.
+ *
+ * @param projectApiUrl - The API URL of the project running the pipeline.
+ * @param pipelineId - The ID of the pipeline.
+ * @param scope - The job state to filter by, e.g. failed or manual.
+ * @param config - The chain configuration.
+ * @returns Promise resolving to the jobs, or null on error.
+ */
+async function listPipelineJobs(
+  projectApiUrl: string,
+  pipelineId: number,
+  scope: string,
+  config: ChainConfig,
+): Promise<GitlabJob[] | null> {
+  const result = await fetchJson<GitlabJob[]>(
+    `${projectApiUrl}/pipelines/${pipelineId}/jobs?scope[]=${scope}&per_page=100`,
+    { headers: { "PRIVATE-TOKEN": config.cicdPersonalAccessToken } },
+  );
+
+  if (isFailure(result)) {
+    logger.error(
+      `Failed to list ${scope} jobs of pipeline ${pipelineId}: ${result.error.message}`,
+    );
+    return null;
+  }
+
+  if (!Array.isArray(result.data.data)) {
+    logger.error(`Unexpected ${scope} jobs response of pipeline ${pipelineId}`);
+    return null;
+  }
+  return result.data.data;
+}
+
+/**
+ * Lists the child and multi-project pipelines triggered by the bridge jobs
+ * of a pipeline. Bridges that did not start their pipeline yet are skipped.
+ *
+ * @param projectApiUrl - The API URL of the project running the pipeline.
+ * @param pipelineId - The ID of the pipeline.
+ * @param config - The chain configuration.
+ * @returns Promise resolving to the downstream pipelines, or null on error.
+ */
+async function listDownstreamPipelines(
+  projectApiUrl: string,
+  pipelineId: number,
+  config: ChainConfig,
+): Promise<DownstreamPipeline[] | null> {
+  const result = await fetchJson<GitlabBridge[]>(
+    `${projectApiUrl}/pipelines/${pipelineId}/bridges?per_page=100`,
+    { headers: { "PRIVATE-TOKEN": config.cicdPersonalAccessToken } },
+  );
+
+  if (isFailure(result)) {
+    logger.error(
+      `Failed to list bridges of pipeline ${pipelineId}: ${result.error.message}`,
+    );
+    return null;
+  }
+
+  if (!Array.isArray(result.data.data)) {
+    logger.error(`Unexpected bridges response of pipeline ${pipelineId}`);
+    return null;
+  }
+  const apiBaseUrl = config.cicdProjectApiUrl.replace(/\/projects\/[^/]+$/, "");
+  return result.data.data.flatMap(({ downstream_pipeline: downstream }) =>
+    downstream
+      ? [{
+        projectApiUrl: `${apiBaseUrl}/projects/${downstream.project_id}`,
+        id: downstream.id,
+      }]
+      : []
+  );
+}
+
 /**
  * Classifies a pipeline status as terminal, non-terminal, or unknown.
  *
@@ -122,24 +274,111 @@ function classifyPipelineStatus(
   return PipelineStatusClassification.UNKNOWN;
 }
 
+/**
+ * Combines the statuses of all pipelines of a pipeline tree into one. The
+ * tree is unfinished while any pipeline is unfinished, and only succeeds when
+ * every pipeline succeeded. A skipped pipeline counts as unsuccessful.
+ *
+ * @param statuses - The statuses, starting with the root pipeline.
+ * @returns The status of the whole tree.
+ */
+export function combineTreeStatuses(statuses: string[]): string {
+  return statuses.find((status) =>
+    classifyPipelineStatus(status) !== PipelineStatusClassification.TERMINAL
+  ) ??
+    statuses.find((status) => status !== "success") ??
+    statuses[0];
+}
+
+/**
+ * Returns the last lines of a job log without terminal control sequences.
+ *
+ * @param trace - The raw job log.
+ * @returns The last JOB_LOG_TAIL_LINES non-empty lines.
+ */
+export function tailJobLog(trace: string): string {
+  return trace
+    .replace(JOB_LOG_CONTROL_PATTERN, "")
+    .split(/\r?\n/)
+    .map((line) => line.trimEnd())
+    .filter((line) => line.length > 0)
+    .slice(-JOB_LOG_TAIL_LINES)
+    .join("\n");
+}
+
+/**
+ * Fetches the tail of a job log.
+ *
+ * @param projectApiUrl - The API URL of the project running the job.
+ * @param jobId - The ID of the job.
+ * @param config - The chain configuration.
+ * @returns Promise resolving to the log tail, or an empty string on error.
+ */
+async function fetchJobLogTail(
+  projectApiUrl: string,
+  jobId: number,
+  config: ChainConfig,
+): Promise<string> {
+  const traceUrl = `${projectApiUrl}/jobs/${jobId}/trace`;
+  try {
+    const response = await fetch(traceUrl, {
+      headers: { "PRIVATE-TOKEN": config.cicdPersonalAccessToken },
+    });
+
+    if (!response.ok) {
+      await response.body?.cancel();
+      logger.error(
+        `Failed to fetch log of job ${jobId}: HTTP ${response.status}`,
+      );
+      return "";
+    }
+
+    return tailJobLog(await response.text());
+  } catch (err) {
+    logger.error(`Error fetching log of job ${jobId}:`, err);
+    return "";
+  }
+}
+
 /**
  * Triggers a GitLab CI/CD pipeline for the specified branch and configuration.
  *
- * The function sends a POST request to the GitLab API to trigger the pipeline.
- * It logs the pipeline details and waits for the pipeline to complete.
- * If the pipeline succeeds, it resumes the monitoring process.
+ * The function sends a POST request to the GitLab API to trigger the pipeline
+ * and logs the pipeline details. It does not wait for the pipeline to finish.
+ * In dry-run mode the request is only logged and a simulated pipeline is
+ * returned.
  *
- * @param config - The application configuration.
- * @returns Promise<boolean> - true if pipeline succeeded, false if failed.
+ * @param config - The chain configuration.
+ * @param options - Optional ref and variable overrides.
+ * @returns Promise resolving to the triggered pipeline, or null on error.
  */
-export async function triggerGitlabUpdatePipeline(
-  config: Config,
-): Promise<boolean> {
+export async function triggerGitlabPipeline(
+  config: ChainConfig,
+  options: PipelineTriggerOptions = {},
+): Promise<GitlabPipeline | null> {
   logger.info(`Triggering update pipeline`);
   const pipelineTriggerUrl = `${config.cicdProjectApiUrl}/trigger/pipeline`;
 
   try {
-    const body = createPipelineTriggerBody(config);
+    const body = createPipelineTriggerBody(config, options);
+
+    if (config.dryRun) {
+      const ref = body.get("ref") ?? "";
+      const run = simulatePipelineTrigger(config, {
+        method: "POST",
+        url: pipelineTriggerUrl,
+        ref,
+        token: config.cicdTriggerToken,
+        variables: extractTriggerVariables(body),
+      });
+      return {
+        id: run.id,
+        project_id: 0,
+        ref,
+        status: run.status,
+        web_url: run.webUrl,
+      };
+    }
 
     const response = await fetch(pipelineTriggerUrl, {
       method: "POST",
@@ -154,69 +393,362 @@ export async function triggerGitlabUpdatePipeline(
       logger.error(
         `GitLab API error! status: ${response.status} - ${errorBody}`,
       );
-      return false;
+      return null;
     }
 
     const pipeline = await parsePipelineResponse(response);
-    if (!pipeline) return false;
+    if (!pipeline) return null;
 
     logPipelineInfo(pipeline);
-
-    const finalStatus = await fetchGitlabPipelineStatus(pipeline.id, config);
-
-    if (finalStatus === "success") {
-      logger.info(`Pipeline with id ${pipeline.id} succeeded.`);
-      return true;
-    } else {
-      logger.error(
-        `Pipeline with id ${pipeline.id} finished with status: ${finalStatus}`,
-      );
-      return false;
-    }
+    return pipeline;
   } catch (err) {
     logger.error(
       `Error triggering update pipeline for api url: ${pipelineTriggerUrl}`,
       err,
     );
-    return false;
+    return null;
   }
 }
 
 /**
- * Waits for a GitLab pipeline to complete by polling its status.
- *
- * The function sends GET requests to the GitLab API to check the pipeline status.
- * It waits for a specified interval between requests and continues polling until
- * the pipeline reaches a termination state (e.g., success, failed, canceled, skipped).
- *
- * @param pipelineId - The ID of the pipeline to check.
- * @param config - The application configuration.
- * @returns The final status of the pipeline (e.g., success, failed).
+ * Runs upgrade pipelines on GitLab CI/CD via pipeline trigger tokens.
+ * Downstream pipelines are followed, so a run only finishes when its whole
+ * pipeline tree finished.
  */
-export async function fetchGitlabPipelineStatus(
-  pipelineId: number,
-  config: Config,
-): Promise<string> {
-  try {
-    const status = await checkPipelineStatus(pipelineId, config);
-    if (!status) return "failed";
+export class GitlabExecutor implements PipelineExecutor {
+  readonly apiUrl: string;
+  /** Since when pipelines have been blocked by a manual job, by status URL */
+  private readonly manualSince = new Map<string, number>();
+
+  constructor(private readonly config: ChainConfig) {
+    this.apiUrl = config.cicdProjectApiUrl;
+  }
+
+  async trigger(
+    options: PipelineTriggerOptions = {},
+  ): Promise<PipelineRun | null> {
+    const pipeline = await triggerGitlabPipeline(this.config, options);
+    if (!pipeline) return null;
+
+    return {
+      id: pipeline.id,
+      webUrl: pipeline.web_url,
+      status: pipeline.status,
+    };
+  }
+
+  async findRun(
+    options: PipelineTriggerOptions,
+    excludedIds: number[] = [],
+  ): Promise<PipelineRun | null> {
+    if (this.config.dryRun || !options.upgrade) {
+      return null;
+    }
+
+    const upgradeId = createUpgradeId(options.upgrade);
+    const ref = options.ref || this.config.cicdUpdateBranch;
+    const headers = { "PRIVATE-TOKEN": this.config.cicdPersonalAccessToken };
+    const result = await fetchJson<GitlabPipeline[]>(
+      `${this.apiUrl}/pipelines?ref=${
+        encodeURIComponent(ref)
+      }&order_by=id&sort=desc&per_page=${RECENT_PIPELINES_LIMIT}`,
+      { headers },
+    );
+
+    if (isFailure(result)) {
+      logger.error(
+        `Failed to list recent pipelines on ${ref}: ${result.error.message}`,
+      );
+      return null;
+    }
+    if (!Array.isArray(result.data.data)) {
+      logger.error(`Unexpected pipelines response for ${ref}`);
+      return null;
+    }
+
+    for (const pipeline of result.data.data) {
+      if (
+        UNATTACHABLE_STATUSES.includes(pipeline.status) ||
+        excludedIds.includes(pipeline.id)
+      ) {
+        continue;
+      }
+
+      const variables = await fetchJson<GitlabPipelineVariable[]>(
+        `${this.apiUrl}/pipelines/${pipeline.id}/variables`,
+        { headers },
+      );
+      if (isFailure(variables)) {
+        logger.error(
+          `Failed to fetch variables of pipeline ${pipeline.id}: ${variables.error.message}`,
+        );
+        continue;
+      }
+
+      const isMatch = Array.isArray(variables.data.data) &&
+        variables.data.data.some((variable) =>
+          variable.key === UPGRADE_ID_VARIABLE && variable.value === upgradeId
+        );
+      if (isMatch) {
+        logger.info(
+          `Found pipeline ${pipeline.id} (${pipeline.status}) for ${upgradeId}`,
+        );
+        return {
+          id: pipeline.id,
+          webUrl: pipeline.web_url,
+          status: pipeline.status,
+        };
+      }
+    }
+    return null;
+  }
+
+  async getStatus(run: PipelineRun): Promise<PipelineRunStatus | null> {
+    if (this.config.dryRun) {
+      return simulatePipelineStatus(this.config, run);
+    }
+
+    const status = await this.getTreeStatus(this.apiUrl, run.id, 0);
+    if (!status) return null;
+
+    return { status, classification: classifyPipelineStatus(status) };
+  }
 
-    const classification = classifyPipelineStatus(status);
+  /**
+   * Resolves the status of a pipeline together with its downstream
+   * pipelines, applying the configured manual job action to each of them.
+   *
+   * @param projectApiUrl - The API URL of the project running the pipeline.
+   * @param pipelineId - The ID of the pipeline.
+   * @param depth - The nesting level of the pipeline in the tree.
+   * @returns The status of the pipeline tree, or null on error.
+   */
+  private async getTreeStatus(
+    projectApiUrl: string,
+    pipelineId: number,
+    depth: number,
+  ): Promise<string | null> {
+    const pipelineStatus = await checkPipelineStatus(
+      projectApiUrl,
+      pipelineId,
+      this.config,
+    );
+    if (!pipelineStatus) return null;
 
-    if (classification === PipelineStatusClassification.TERMINAL) {
+    const status = await this.handleManualStatus(
+      projectApiUrl,
+      pipelineId,
+      pipelineStatus,
+    );
+    if (
+      classifyPipelineStatus(status) !==
+        PipelineStatusClassification.TERMINAL ||
+      depth >= MAX_DOWNSTREAM_DEPTH
+    ) {
       return status;
     }
 
-    if (classification === PipelineStatusClassification.UNKNOWN) {
-      logger.warn(
-        `Unknown pipeline status: ${status}, treating as non-terminal`,
+    const downstream = await listDownstreamPipelines(
+      projectApiUrl,
+      pipelineId,
+      this.config,
+    );
+    if (!downstream) return null;
+
+    const statuses = [status];
+    for (const child of downstream) {
+      const childStatus = await this.getTreeStatus(
+        child.projectApiUrl,
+        child.id,
+        depth + 1,
       );
+      if (!childStatus) return null;
+      statuses.push(childStatus);
+    }
+    return combineTreeStatuses(statuses);
+  }
+
+  /**
+   * Applies the configured manual job action to a pipeline blocked by a
+   * manual job.
+   *
+   * @param projectApiUrl - The API URL of the project running the pipeline.
+   * @param pipelineId - The ID of the pipeline.
+   * @param status - The pipeline status.
+   * @returns The status to continue with.
+   */
+  private async handleManualStatus(
+    projectApiUrl: string,
+    pipelineId: number,
+    status: string,
+  ): Promise<string> {
+    const key = `${projectApiUrl}/pipelines/${pipelineId}`;
+    if (status !== "manual") {
+      this.manualSince.delete(key);
+      return status;
     }
 
-    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
-    return fetchGitlabPipelineStatus(pipelineId, config);
-  } catch (err) {
-    logger.error(`Failed to fetch pipeline status:`, err);
-    return "failed";
+    switch (this.config.manualJobAction) {
+      case "success":
+        logger.info(
+          `Pipeline ${pipelineId} is blocked by a manual job, treating it as success`,
+        );
+        return "success";
+      case "play":
+        await this.playManualJobs(projectApiUrl, pipelineId);
+        return status;
+      case "wait": {
+        const timeoutMs = this.config.manualJobTimeoutMs;
+        const since = this.manualSince.get(key);
+        if (since === undefined) {
+          logger.info(
+            `Pipeline ${pipelineId} is blocked by a manual job, waiting for it to be played`,
+          );
+          this.manualSince.set(key, Date.now());
+        } else if (timeoutMs > 0 && Date.now() - since >= timeoutMs) {
+          logger.error(
+            `Manual job of pipeline ${pipelineId} was not played within ${timeoutMs}ms`,
+          );
+          this.manualSince.delete(key);
+          return "failed";
+        }
+        return status;
+      }
+    }
+  }
+
+  /**
+   * Plays the blocking manual jobs of a pipeline. Manual jobs that are
+   * allowed to fail are optional and left alone.
+   *
+   * @param projectApiUrl - The API URL of the project running the pipeline.
+   * @param pipelineId - The ID of the pipeline.
+   */
+  private async playManualJobs(
+    projectApiUrl: string,
+    pipelineId: number,
+  ): Promise<void> {
+    const jobs = await listPipelineJobs(
+      projectApiUrl,
+      pipelineId,
+      "manual",
+      this.config,
+    );
+
+    for (const job of jobs?.filter((job) => !job.allow_failure) ?? []) {
+      try {
+        const response = await fetch(`${projectApiUrl}/jobs/${job.id}/play`, {
+          method: "POST",
+          headers: { "PRIVATE-TOKEN": this.config.cicdPersonalAccessToken },
+        });
+
+        if (!response.ok) {
+          const errorBody = await response.text();
+          logger.error(
+            `Failed to play manual job "${job.name}": HTTP ${response.status} - ${errorBody}`,
+          );
+          continue;
+        }
+
+        await response.body?.cancel();
+        logger.info(
+          `Played manual job "${job.name}" of pipeline ${pipelineId}`,
+        );
+      } catch (err) {
+        logger.error(`Error playing manual job "${job.name}":`, err);
+      }
+    }
+  }
+
+  async cancel(run: PipelineRun): Promise<boolean> {
+    if (this.config.dryRun) {
+      logger.info(`[DRY RUN] Would cancel pipeline ${run.id}`);
+      return true;
+    }
+
+    const cancelUrl = `${this.apiUrl}/pipelines/${run.id}/cancel`;
+    try {
+      const response = await fetch(cancelUrl, {
+        method: "POST",
+        headers: { "PRIVATE-TOKEN": this.config.cicdPersonalAccessToken },
+      });
+
+      if (!response.ok) {
+        const errorBody = await response.text();
+        logger.error(
+          `GitLab API error! status: ${response.status} - ${errorBody}`,
+        );
+        return false;
+      }
+
+      await response.body?.cancel();
+      logger.info(`Requested cancellation of pipeline ${run.id}`);
+      return true;
+    } catch (err) {
+      logger.error(`Error cancelling pipeline ${run.id}:`, err);
+      return false;
+    }
+  }
+
+  getUrl(run: PipelineRun): string {
+    return run.webUrl;
+  }
+
+  async getFailedJobs(run: PipelineRun): Promise<FailedJob[]> {
+    if (this.config.dryRun) {
+      return [];
+    }
+
+    return await this.collectFailedJobs(this.apiUrl, run.id, 0);
+  }
+
+  /**
+   * Collects the failed jobs of a pipeline and its downstream pipelines.
+   *
+   * @param projectApiUrl - The API URL of the project running the pipeline.
+   * @param pipelineId - The ID of the pipeline.
+   * @param depth - The nesting level of the pipeline in the tree.
+   * @returns The failed jobs with their log tails.
+   */
+  private async collectFailedJobs(
+    projectApiUrl: string,
+    pipelineId: number,
+    depth: number,
+  ): Promise<FailedJob[]> {
+    const jobs = await listPipelineJobs(
+      projectApiUrl,
+      pipelineId,
+      "failed",
+      this.config,
+    ) ?? [];
+
+    const failedJobs: FailedJob[] = [];
+    for (const job of jobs) {
+      if (job.status !== "failed" || job.allow_failure) continue;
+      failedJobs.push({
+        name: job.name,
+        stage: job.stage,
+        webUrl: job.web_url,
+        logExcerpt: await fetchJobLogTail(projectApiUrl, job.id, this.config),
+      });
+    }
+
+    if (depth < MAX_DOWNSTREAM_DEPTH) {
+      const downstream = await listDownstreamPipelines(
+        projectApiUrl,
+        pipelineId,
+        this.config,
+      ) ?? [];
+      for (const child of downstream) {
+        failedJobs.push(
+          ...await this.collectFailedJobs(
+            child.projectApiUrl,
+            child.id,
+            depth + 1,
+          ),
+        );
+      }
+    }
+    return failedJobs;
   }
 }
@@ -4,14 +4,54 @@ import {
   setReady,
 } from "src/service/health.ts";
 import { HealthState } from "src/types/health-server.ts";
+import { ChainStatus } from "src/types/status.ts";
 import { assertEquals } from "test-assert";
 
 function createMockRequest(pathname: string): Request {
   return new Request(`http://localhost:8080${pathname}`);
 }
 
-function createMockHealthState(ready: boolean): HealthState {
-  return { ready };
+const NOW = Date.parse("2024-01-01T00:10:00.000Z");
+
+function createMockHealthState(
+  ready: boolean,
+  chains: ChainStatus[] = [],
+): HealthState {
+  return {
+    ready,
+    chains: Object.fromEntries(chains.map((chain) => [chain.chain, chain])),
+    nodeDownThresholdMs: 60_000,
+    livenessTimeoutMs: 300_000,
+  };
+}
+
+function createMockChainStatus(
+  overrides: Partial<ChainStatus> = {},
+): ChainStatus {
+  return {
+    chain: "test-chain",
+    phase: "idle",
+    paused: false,
+    identity: {
+      nodeId: "node-id",
+      listenAddr: "tcp://0.0.0.0:26656",
+      network: "test-1",
+      moniker: "validator",
+      version: "0.38.0",
+      rpcAddress: "tcp://0.0.0.0:26657",
+    },
+    activeNode: "http://localhost:1317",
+    lastHeight: 1000,
+    upgradePlan: null,
+    secondsUntilUpgrade: null,
+    activePipeline: null,
+    lastFailedPipeline: null,
+    lastError: null,
+    nodeDownSince: null,
+    lastCycleAt: new Date(NOW - 1000).toISOString(),
+    updatedAt: new Date(NOW - 1000).toISOString(),
+    ...overrides,
+  };
 }
 
 Deno.test("setReady should set health state to ready", () => {
@@ -82,6 +122,134 @@ Deno.test(
   },
 );
 
+Deno.test(
+  "healthServerHandler should return the chain status snapshots as JSON",
+  async () => {
+    const request = createMockRequest("/status");
+    const state = createMockHealthState(true, [
+      createMockChainStatus({
+        phase: "awaiting-pipeline",
+        activePipeline: {
+          id: 42,
+          phase: "execute",
+          webUrl: "https://gitlab.example.com/-/pipelines/42",
+        },
+      }),
+    ]);
+    const response = healthServerHandler(request, state, NOW);
+    const body = await response.json();
+
+    assertEquals(response.status, 200);
+    assertEquals(body.ready, true);
+    assertEquals(body.chains.length, 1);
+    assertEquals(body.chains[0].phase, "awaiting-pipeline");
+    assertEquals(body.chains[0].activePipeline.id, 42);
+  },
+);
+
+Deno.test(
+  "healthServerHandler should serve Prometheus metrics",
+  async () => {
+    const request = createMockRequest("/metrics");
+    const state = createMockHealthState(true);
+    const response = healthServerHandler(request, state);
+    assertEquals(response.status, 200);
+    assertEquals(
+      response.headers.get("Content-Type"),
+      "text/plain; version=0.0.4",
+    );
+    assertEquals(
+      (await response.text()).includes(
+        "# TYPE cosmotrigger_block_height gauge",
+      ),
+      true,
+    );
+  },
+);
+
+Deno.test(
+  "healthServerHandler should not be ready before the chain identity is known",
+  () => {
+    const request = createMockRequest("/ready");
+    const state = createMockHealthState(true, [
+      createMockChainStatus({ identity: null, phase: "node-down" }),
+    ]);
+    const response = healthServerHandler(request, state, NOW);
+    assertEquals(response.status, 503);
+  },
+);
+
+Deno.test(
+  "healthServerHandler should stay ready while the node is down briefly",
+  () => {
+    const request = createMockRequest("/ready");
+    const state = createMockHealthState(true, [
+      createMockChainStatus({
+        phase: "node-down",
+        nodeDownSince: new Date(NOW - 30_000).toISOString(),
+      }),
+    ]);
+    const response = healthServerHandler(request, state, NOW);
+    assertEquals(response.status, 204);
+  },
+);
+
+Deno.test(
+  "healthServerHandler should not be ready while the node is down past the threshold",
+  () => {
+    const request = createMockRequest("/ready");
+    const state = createMockHealthState(true, [
+      createMockChainStatus(),
+      createMockChainStatus({
+        chain: "other-chain",
+        phase: "node-down",
+        nodeDownSince: new Date(NOW - 120_000).toISOString(),
+      }),
+    ]);
+    const response = healthServerHandler(request, state, NOW);
+    assertEquals(response.status, 503);
+  },
+);
+
+Deno.test(
+  "healthServerHandler should report live while monitor cycles complete",
+  () => {
+    const request = createMockRequest("/live");
+    const state = createMockHealthState(true, [createMockChainStatus()]);
+    const response = healthServerHandler(request, state, NOW);
+    assertEquals(response.status, 204);
+  },
+);
+
+Deno.test(
+  "healthServerHandler should report not live when a monitor cycle stalls",
+  () => {
+    const request = createMockRequest("/live");
+    const state = createMockHealthState(true, [
+      createMockChainStatus({
+        lastCycleAt: new Date(NOW - 600_000).toISOString(),
+      }),
+    ]);
+    const response = healthServerHandler(request, state, NOW);
+    assertEquals(response.status, 503);
+  },
+);
+
+Deno.test(
+  "healthServerHandler should not apply the watchdog while awaiting a pipeline",
+  () => {
+    const request = createMockRequest("/live");
+    const state = createMockHealthState(true, [
+      createMockChainStatus({
+        phase: "awaiting-pipeline",
+        lastCycleAt: new Date(NOW - 600_000).toISOString(),
+      }),
+    ]);
+    const response = healthServerHandler(request, state, NOW);
+    assertEquals(response.status, 204);
+  },
+);
+
 // Note: startHealthServer tests are skipped due to complexity of mocking
 // Deno.serve and environment configuration. The core business logic
 // (healthServerHandler) is thoroughly tested above.
@@ -1,4 +1,11 @@
-import { HealthServerHandle, HealthState } from "src/types/health-server.ts";
+import { handleAdminRequest } from "src/service/admin.ts";
+import { renderMetrics } from "src/service/metrics.ts";
+import {
+  HealthServerHandle,
+  HealthServerOptions,
+  HealthState,
+} from "src/types/health-server.ts";
+import { ChainStatus, LONG_RUNNING_PHASES } from "src/types/status.ts";
 import { logger } from "src/utils/logger.ts";
 
 /**
@@ -7,6 +14,9 @@ import { logger } from "src/utils/logger.ts";
  */
 const healthState: HealthState = {
   ready: true,
+  chains: {},
+  nodeDownThresholdMs: 60_000,
+  livenessTimeoutMs: 300_000,
 };
 
 /**
@@ -24,24 +34,81 @@ export function setNotReady(): void {
   healthState.ready = false;
 }
 
+/**
+ * Publishes the latest status snapshot of a chain monitor for `/status`.
+ *
+ * @param status - The chain status snapshot.
+ */
+export function publishChainStatus(status: ChainStatus): void {
+  healthState.chains[status.chain] = status;
+}
+
+/**
+ * Checks whether the service is ready. Every chain monitor must have fetched
+ * its chain identity, and its nodes must not be down for longer than the
+ * configured threshold.
+ *
+ * @param state - The current health state of the application.
+ * @param now - The current time in milliseconds since the epoch.
+ */
+function isReady(state: HealthState, now: number): boolean {
+  return state.ready &&
+    Object.values(state.chains).every((chain) =>
+      chain.identity !== null &&
+      (chain.nodeDownSince === null ||
+        now - Date.parse(chain.nodeDownSince) < state.nodeDownThresholdMs)
+    );
+}
+
+/**
+ * Checks whether every chain monitor completed a cycle within the liveness
+ * timeout. Monitors in a long-running phase block within a single cycle by
+ * design and are exempt.
+ *
+ * @param state - The current health state of the application.
+ * @param now - The current time in milliseconds since the epoch.
+ */
+function isLive(state: HealthState, now: number): boolean {
+  return Object.values(state.chains).every((chain) =>
+    LONG_RUNNING_PHASES.includes(chain.phase) ||
+    now - Date.parse(chain.lastCycleAt) < state.livenessTimeoutMs
+  );
+}
+
 /**
  * A pure request handler for the health server. Exported for testability.
  * It returns a Response based on the request path and the provided health state.
  *
  * @param request - The incoming HTTP request.
  * @param state - The current health state of the application.
+ * @param now - The current time in milliseconds since the epoch.
  * @returns A Response object.
  */
 export function healthServerHandler(
   request: Request,
   state: HealthState,
+  now: number = Date.now(),
 ): Response {
   const { pathname } = new URL(request.url);
 
   switch (pathname) {
     case "/ready":
       return new Response(null, {
-        status: state.ready ? 204 : 503,
+        status: isReady(state, now) ? 204 : 503,
+      });
+    case "/live":
+      return new Response(null, {
+        status: isLive(state, now) ? 204 : 503,
+      });
+    case "/status":
+      return Response.json({
+        ready: isReady(state, now),
+        live: isLive(state, now),
+        chains: Object.values(state.chains),
+      });
+    case "/metrics":
+      return new Response(renderMetrics(), {
+        headers: { "Content-Type": "text/plain; version=0.0.4" },
       });
     default:
       return new Response(null, { status: 404 });
@@ -50,20 +117,35 @@ export function healthServerHandler(
 
 /**
  * Start a clean, silent, fully controlled health server.
- * No default Deno logs. Supports `/ready` and a 404 fallback.
+ * No default Deno logs. Supports `/ready`, `/live`, `/status`, `/metrics`,
+ * the admin API under `/admin/` and a 404 fallback.
  *
  * @param port - Valid port number for health server to listen on (validated during config loading).
+ * @param options - Thresholds for the readiness and liveness checks and the
+ * admin API token.
  * @returns A handle to shut down the health server and check readiness state.
  */
-export function startHealthServer(port: number): HealthServerHandle {
+export function startHealthServer(
+  port: number,
+  options: HealthServerOptions,
+): HealthServerHandle {
   logger.info(`Health server listening on port: ${port}`);
+  healthState.nodeDownThresholdMs = options.nodeDownThresholdMs;
+  healthState.livenessTimeoutMs = options.livenessTimeoutMs;
 
   const controller = new AbortController();
   const { signal } = controller;
 
   const server = Deno.serve(
     { port, signal, onListen: () => {} },
-    (request) => healthServerHandler(request, healthState),
+    (request, info) =>
+      new URL(request.url).pathname.startsWith("/admin/")
+        ? handleAdminRequest(
+          request,
+          options.adminApiToken,
+          info.remoteAddr.hostname,
+        )
+        : healthServerHandler(request, healthState),
   );
 
   const serverPromise = server.finished.catch((err) => {
@@ -0,0 +1,237 @@
+import { type ChainConfig } from "config/config.ts";
+import { classifyJenkinsBuild, JenkinsExecutor } from "src/service/jenkins.ts";
+import { createMockChainConfig } from "src/test-utils/config.ts";
+import {
+  PipelineRun,
+  PipelineStatusClassification,
+} from "src/types/executor.ts";
+import { logger } from "src/utils/logger.ts";
+import { assertEquals } from "test-assert";
+import { stub } from "test-mock";
+
+const JENKINS_URL = "https://jenkins.example.com";
+const JOB_URL = `${JENKINS_URL}/job/deploy/job/cosmos-upgrade`;
+const PIPELINE_RUN: PipelineRun = {
+  id: 42,
+  webUrl: `${JOB_URL}/42/`,
+  status: "running",
+};
+
+function createMockConfig(overrides: Partial<ChainConfig> = {}): ChainConfig {
+  return createMockChainConfig({
+    executor: "jenkins",
+    cicdVariables: '{"PROVIDER": "aws"}',
+    jenkinsUrl: `${JENKINS_URL}/`,
+    jenkinsJob: "deploy/cosmos-upgrade",
+    jenkinsUser: "ci-bot",
+    jenkinsApiToken: "jenkins-token",
+    ...overrides,
+  });
+}
+
+interface RecordedRequest {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  body: string | null;
+}
+
+/**
+ * Runs a test with fetch answered by a route table keyed by "METHOD URL",
+ * setTimeout executing immediately and a silenced logger.
+ */
+async function withMockedJenkins<T>(
+  routes: Record<string, () => Response>,
+  testFn: (requests: RecordedRequest[]) => Promise<T>,
+): Promise<T> {
+  const originalFetch = globalThis.fetch;
+  const originalSetTimeout = globalThis.setTimeout;
+  const stubs = [stub(logger, "info"), stub(logger, "error")];
+  const requests: RecordedRequest[] = [];
+
+  try {
+    globalThis.fetch = (input: string | URL | Request, init?: RequestInit) => {
+      const method = init?.method ?? "GET";
+      const url = String(input);
+      requests.push({
+        url,
+        method,
+        headers: (init?.headers ?? {}) as Record<string, string>,
+        body: init?.body ? String(init.body) : null,
+      });
+
+      const route = routes[`${method} ${url}`];
+      return Promise.resolve(
+        route ? route() : new Response("Not Found", { status: 404 }),
+      );
+    };
+    globalThis.setTimeout = ((fn: () => void) => {
+      queueMicrotask(fn);
+      return 0;
+    }) as typeof setTimeout;
+    return await testFn(requests);
+  } finally {
+    globalThis.fetch = originalFetch;
+    globalThis.setTimeout = originalSetTimeout;
+    stubs.forEach((entry) => entry.restore());
+  }
+}
+
+Deno.test("classifyJenkinsBuild should map Jenkins results", () => {
+  const cases: Array<[string, string]> = [
+    ["SUCCESS", "success"],
+    ["FAILURE", "failed"],
+    ["UNSTABLE", "failed"],
+    ["ABORTED", "canceled"],
+    ["NOT_BUILT", "skipped"],
+  ];
+
+  for (const [result, expected] of cases) {
+    assertEquals(classifyJenkinsBuild(false, result), {
+      status: expected,
+      classification: PipelineStatusClassification.TERMINAL,
+    });
+  }
+
+  assertEquals(
+    classifyJenkinsBuild(true, null).classification,
+    PipelineStatusClassification.NON_TERMINAL,
+  );
+  assertEquals(
+    classifyJenkinsBuild(false, "BROKEN").classification,
+    PipelineStatusClassification.UNKNOWN,
+  );
+});
+
+Deno.test(
+  "JenkinsExecutor.trigger should follow the queue item to the build",
+  async () => {
+    let queuePolls = 0;
+
+    await withMockedJenkins({
+      [`POST ${JOB_URL}/buildWithParameters`]: () =>
+        new Response(null, {
+          status: 201,
+          headers: { Location: `${JENKINS_URL}/queue/item/7/` },
+        }),
+      [`GET ${JENKINS_URL}/queue/item/7/api/json`]: () =>
+        Response.json(
+          ++queuePolls === 1
+            ? { id: 7, why: "Waiting for next available executor" }
+            : { id: 7, executable: { number: 42, url: `${JOB_URL}/42/` } },
+        ),
+    }, async (requests) => {
+      const run = await new JenkinsExecutor(createMockConfig()).trigger({
+        variables: { UPGRADE_NAME: "v2" },
+      });
+
+      assertEquals(run, PIPELINE_RUN);
+      assertEquals(queuePolls, 2);
+      assertEquals(
+        requests[0].headers["Authorization"],
+        `Basic ${btoa("ci-bot:jenkins-token")}`,
+      );
+      assertEquals(requests[0].body, "PROVIDER=aws&UPGRADE_NAME=v2");
+    });
+  },
+);
+
+Deno.test(
+  "JenkinsExecutor.trigger should fail when the queue item is cancelled",
+  async () => {
+    await withMockedJenkins({
+      [`POST ${JOB_URL}/buildWithParameters`]: () =>
+        new Response(null, {
+          status: 201,
+          headers: { Location: `${JENKINS_URL}/queue/item/7/` },
+        }),
+      [`GET ${JENKINS_URL}/queue/item/7/api/json`]: () =>
+        Response.json({ id: 7, cancelled: true }),
+    }, async () => {
+      const run = await new JenkinsExecutor(createMockConfig()).trigger();
+      assertEquals(run, null);
+    });
+  },
+);
+
+Deno.test(
+  "JenkinsExecutor.trigger should cancel the queue item on shutdown",
+  async () => {
+    const controller = new AbortController();
+
+    await withMockedJenkins({
+      [`POST ${JOB_URL}/buildWithParameters`]: () =>
+        new Response(null, {
+          status: 201,
+          headers: { Location: `${JENKINS_URL}/queue/item/7/` },
+        }),
+      [`GET ${JENKINS_URL}/queue/item/7/api/json`]: () => {
+        controller.abort();
+        return Response.json({ id: 7, why: "Waiting for next executor" });
+      },
+      [`POST ${JENKINS_URL}/queue/cancelItem?id=7`]: () =>
+        new Response(null, { status: 204 }),
+    }, async (requests) => {
+      const run = await new JenkinsExecutor(createMockConfig()).trigger({
+        signal: controller.signal,
+      });
+
+      assertEquals(run, null);
+      assertEquals(
+        requests.map((request) => `${request.method} ${request.url}`),
+        [
+          `POST ${JOB_URL}/buildWithParameters`,
+          `GET ${JENKINS_URL}/queue/item/7/api/json`,
+          `POST ${JENKINS_URL}/queue/cancelItem?id=7`,
+        ],
+      );
+    });
+  },
+);
+
+Deno.test(
+  "JenkinsExecutor.trigger should return null when Jenkins rejects the build",
+  async () => {
+    await withMockedJenkins({
+      [`POST ${JOB_URL}/buildWithParameters`]: () =>
+        new Response("Unauthorized", { status: 401 }),
+    }, async (requests) => {
+      const run = await new JenkinsExecutor(createMockConfig()).trigger();
+      assertEquals(run, null);
+      assertEquals(requests.length, 1);
+    });
+  },
+);
+
+Deno.test("JenkinsExecutor.getStatus should classify the build", async () => {
+  const builds = [
+    { building: true, result: null },
+    { building: false, result: "ABORTED" },
+  ];
+
+  await withMockedJenkins({
+    [`GET ${JOB_URL}/42/api/json`]: () => Response.json(builds.shift()),
+  }, async () => {
+    const executor = new JenkinsExecutor(createMockConfig());
+
+    assertEquals(
+      (await executor.getStatus(PIPELINE_RUN))?.classification,
+      PipelineStatusClassification.NON_TERMINAL,
+    );
+    assertEquals(await executor.getStatus(PIPELINE_RUN), {
+      status: "canceled",
+      classification: PipelineStatusClassification.TERMINAL,
+    });
+  });
+});
+
+Deno.test("JenkinsExecutor.cancel should stop the build", async () => {
+  await withMockedJenkins({
+    [`POST ${JOB_URL}/42/stop`]: () => new Response(null, { status: 200 }),
+  }, async () => {
+    const cancelled = await new JenkinsExecutor(createMockConfig()).cancel(
+      PIPELINE_RUN,
+    );
+    assertEquals(cancelled, true);
+  });
+});
@@ -0,0 +1,284 @@
+import { type ChainConfig } from "config/config.ts";
+import {
+  PipelineExecutor,
+  PipelineRun,
+  PipelineRunStatus,
+  PipelineStatusClassification,
+  PipelineTriggerOptions,
+} from "src/types/executor.ts";
+import { JenkinsQueueItem } from "src/types/jenkins.ts";
+import { isFailure } from "src/types/result.ts";
+import { signalAwareDelay } from "src/utils/delay.ts";
+import {
+  simulatePipelineStatus,
+  simulatePipelineTrigger,
+} from "src/utils/dry-run.ts";
+import { fetchJson, safeGet } from "src/utils/http.ts";
+import { logger } from "src/utils/logger.ts";
+import { createUpgradeTemplateValues } from "src/utils/template.ts";
+import { parseVariables } from "src/utils/variable-parser.ts";
+
+/**
+ * Normalized statuses of finished builds by their Jenkins result.
+ */
+const RESULT_STATUSES: Record<string, string> = {
+  SUCCESS: "success",
+  FAILURE: "failed",
+  UNSTABLE: "failed",
+  ABORTED: "canceled",
+  NOT_BUILT: "skipped",
+};
+const QUEUE_POLL_ATTEMPTS = 120;
+const QUEUE_POLL_INTERVAL_MS = 5_000;
+const QUEUE_ITEM_PATTERN = /\/queue\/item\/(\d+)\/?$/;
+
+/**
+ * Maps the state of a Jenkins build onto a normalized status.
+ *
+ * @param building - Whether the build is still running.
+ * @param result - The build result, null while running.
+ * @returns The normalized status and its classification.
+ */
+export function classifyJenkinsBuild(
+  building: boolean,
+  result: string | null,
+): PipelineRunStatus {
+  if (building || result === null) {
+    return {
+      status: "running",
+      classification: PipelineStatusClassification.NON_TERMINAL,
+    };
+  }
+
+  const status = RESULT_STATUSES[result];
+  if (!status) {
+    return {
+      status: result,
+      classification: PipelineStatusClassification.UNKNOWN,
+    };
+  }
+  return { status, classification: PipelineStatusClassification.TERMINAL };
+}
+
+/**
+ * Runs upgrade pipelines as parameterized Jenkins jobs via
+ * `buildWithParameters`, authenticated with a user API token.
+ *
+ * Jenkins answers a build request with a queue item, which is followed until
+ * the build starts. Runs are identified by their build number.
+ */
+export class JenkinsExecutor implements PipelineExecutor {
+  readonly apiUrl: string;
+
+  constructor(private readonly config: ChainConfig) {
+    this.apiUrl = `${config.jenkinsUrl.replace(/\/+$/, "")}${
+      config.jenkinsJob
+        .split("/")
+        .filter((segment) => segment !== "")
+        .map((segment) => `/job/${encodeURIComponent(segment)}`)
+        .join("")
+    }`;
+  }
+
+  /**
+   * Creates the headers for Jenkins API requests.
+   */
+  private createHeaders(): Record<string, string> {
+    const credentials = btoa(
+      `${this.config.jenkinsUser}:${this.config.jenkinsApiToken}`,
+    );
+    return { "Authorization": `Basic ${credentials}` };
+  }
+
+  async trigger(
+    options: PipelineTriggerOptions = {},
+  ): Promise<PipelineRun | null> {
+    logger.info(`Triggering update job`);
+    const buildUrl = `${this.apiUrl}/buildWithParameters`;
+
+    try {
+      const parameters = {
+        ...parseVariables(
+          this.config.cicdVariables,
+          "CICD_VARIABLES",
+          createUpgradeTemplateValues(options.upgrade),
+        ),
+        ...options.variables,
+      };
+
+      if (this.config.dryRun) {
+        return simulatePipelineTrigger(this.config, {
+          method: "POST",
+          url: buildUrl,
+          token: this.config.jenkinsApiToken,
+          variables: parameters,
+        });
+      }
+
+      const response = await fetch(buildUrl, {
+        method: "POST",
+        headers: {
+          ...this.createHeaders(),
+          "Content-Type": "application/x-www-form-urlencoded",
+        },
+        body: new URLSearchParams(parameters),
+      });
+
+      if (!response.ok) {
+        const errorBody = await response.text();
+        logger.error(
+          `Jenkins API error! status: ${response.status} - ${errorBody}`,
+        );
+        return null;
+      }
+      await response.body?.cancel();
+
+      const queueUrl = response.headers.get("Location") ?? "";
+      const queueMatch = queueUrl.match(QUEUE_ITEM_PATTERN);
+      if (!queueMatch) {
+        logger.error(`Jenkins did not return a queue item: "${queueUrl}"`);
+        return null;
+      }
+
+      const build = await this.waitForBuild(
+        queueUrl,
+        Number(queueMatch[1]),
+        options.signal,
+      );
+      if (!build) return null;
+
+      logger.info(`Build Details:
+                                  - Build Number: ${build.number}
+                                  - Job: ${this.config.jenkinsJob}
+                                  - Build URL: ${build.url}`);
+
+      return { id: build.number, webUrl: build.url, status: "running" };
+    } catch (err) {
+      logger.error(`Error triggering update job for url: ${buildUrl}`, err);
+      return null;
+    }
+  }
+
+  /**
+   * Follows a queue item until its build starts. Items still waiting when
+   * the attempts are exhausted or the signal is aborted are removed from the
+   * queue.
+   *
+   * @param queueUrl - The URL of the queue item.
+   * @param queueId - The ID of the queue item.
+   * @param signal - Optional AbortSignal for graceful shutdown.
+   * @returns The started build, or null.
+   */
+  private async waitForBuild(
+    queueUrl: string,
+    queueId: number,
+    signal?: AbortSignal,
+  ): Promise<{ number: number; url: string } | null> {
+    const itemUrl = `${queueUrl.replace(/\/+$/, "")}/api/json`;
+
+    for (
+      let attempt = 1;
+      attempt <= QUEUE_POLL_ATTEMPTS && !signal?.aborted;
+      attempt++
+    ) {
+      const result = await fetchJson<JenkinsQueueItem>(itemUrl, {
+        headers: this.createHeaders(),
+      });
+
+      if (isFailure(result)) {
+        logger.warn(`Failed to fetch queue item: ${result.error.message}`);
+      } else {
+        const item = result.data.data;
+        if (item.cancelled) {
+          logger.error(`Queue item ${queueId} was cancelled`);
+          return null;
+        }
+        if (item.executable) {
+          return item.executable;
+        }
+        logger.info(`Queue item ${queueId} waiting: ${item.why ?? "unknown"}`);
+      }
+
+      await signalAwareDelay(QUEUE_POLL_INTERVAL_MS, signal);
+    }
+
+    logger.error(
+      signal?.aborted
+        ? `Queue item ${queueId} did not start a build before shutdown, cancelling it`
+        : `Queue item ${queueId} did not start a build after ${QUEUE_POLL_ATTEMPTS} attempts, cancelling it`,
+    );
+    await this.cancelQueueItem(queueId);
+    return null;
+  }
+
+  /**
+   * Removes a queue item from the Jenkins queue.
+   *
+   * @param queueId - The ID of the queue item.
+   */
+  private async cancelQueueItem(queueId: number): Promise<void> {
+    const baseUrl = this.config.jenkinsUrl.replace(/\/+$/, "");
+    try {
+      const response = await fetch(
+        `${baseUrl}/queue/cancelItem?id=${queueId}`,
+        { method: "POST", headers: this.createHeaders() },
+      );
+      await response.body?.cancel();
+    } catch (err) {
+      logger.error(`Error cancelling queue item ${queueId}:`, err);
+    }
+  }
+
+  async getStatus(run: PipelineRun): Promise<PipelineRunStatus | null> {
+    if (this.config.dryRun) {
+      return simulatePipelineStatus(this.config, run);
+    }
+
+    const result = await fetchJson(`${this.apiUrl}/${run.id}/api/json`, {
+      headers: this.createHeaders(),
+    });
+
+    if (isFailure(result)) {
+      logger.error(`Failed to fetch build status: ${result.error.message}`);
+      return null;
+    }
+
+    const building = safeGet<boolean>(result.data.data, ["building"]) ?? false;
+    const buildResult = safeGet<string>(result.data.data, ["result"]) ?? null;
+    logger.info(`Build status: ${building ? "BUILDING" : buildResult}`);
+    return classifyJenkinsBuild(building, buildResult);
+  }
+
+  async cancel(run: PipelineRun): Promise<boolean> {
+    if (this.config.dryRun) {
+      logger.info(`[DRY RUN] Would stop build ${run.id}`);
+      return true;
+    }
+
+    try {
+      const response = await fetch(`${this.apiUrl}/${run.id}/stop`, {
+        method: "POST",
+        headers: this.createHeaders(),
+      });
+
+      if (!response.ok) {
+        const errorBody = await response.text();
+        logger.error(
+          `Jenkins API error! status: ${response.status} - ${errorBody}`,
+        );
+        return false;
+      }
+
+      await response.body?.cancel();
+      logger.info(`Requested stop of build ${run.id}`);
+      return true;
+    } catch (err) {
+      logger.error(`Error stopping build ${run.id}:`, err);
+      return false;
+    }
+  }
+
+  getUrl(run: PipelineRun): string {
+    return run.webUrl;
+  }
+}
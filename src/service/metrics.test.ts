@@ -0,0 +1,209 @@
+import { publishMonitorEvent } from "src/service/events.ts";
+import {
+  recordHttpRequest,
+  registerChainEndpoints,
+  renderMetrics,
+  startMetricsCollection,
+  updateChainGauges,
+} from "src/service/metrics.ts";
+import { ChainIdentity } from "src/types/chain-identity.ts";
+import { assertEquals } from "test-assert";
+
+function createMockIdentity(): ChainIdentity {
+  return {
+    nodeId: "node-id",
+    listenAddr: "tcp://0.0.0.0:26656",
+    network: "cosmoshub-4",
+    moniker: "validator",
+    version: "0.38.0",
+    rpcAddress: "tcp://0.0.0.0:26657",
+  };
+}
+
+function getSample(metrics: string, prefix: string): string | undefined {
+  return metrics.split("\n").find((line) => line.startsWith(prefix));
+}
+
+Deno.test("renderMetrics should expose chain gauges labelled by chain ID and moniker", () => {
+  updateChainGauges("gauge-chain", {
+    identity: createMockIdentity(),
+    nodeReachable: true,
+    blockHeight: 950,
+    planHeight: 1000,
+    secondsUntilUpgrade: 300,
+  });
+
+  const metrics = renderMetrics();
+  const labels =
+    '{chain="gauge-chain",chain_id="cosmoshub-4",moniker="validator"}';
+
+  assertEquals(
+    getSample(metrics, `cosmotrigger_block_height${labels}`),
+    `cosmotrigger_block_height${labels} 950`,
+  );
+  assertEquals(
+    getSample(metrics, `cosmotrigger_upgrade_blocks_remaining${labels}`),
+    `cosmotrigger_upgrade_blocks_remaining${labels} 50`,
+  );
+  assertEquals(
+    getSample(metrics, `cosmotrigger_upgrade_estimated_seconds${labels}`),
+    `cosmotrigger_upgrade_estimated_seconds${labels} 300`,
+  );
+  assertEquals(
+    getSample(metrics, `cosmotrigger_node_reachable${labels}`),
+    `cosmotrigger_node_reachable${labels} 1`,
+  );
+});
+
+Deno.test("renderMetrics should omit the plan gauges without a pending plan", () => {
+  updateChainGauges("idle-chain", {
+    identity: null,
+    nodeReachable: false,
+    blockHeight: null,
+    planHeight: null,
+    secondsUntilUpgrade: null,
+  });
+
+  const metrics = renderMetrics();
+
+  assertEquals(
+    getSample(metrics, 'cosmotrigger_upgrade_plan_height{chain="idle-chain"'),
+    undefined,
+  );
+  assertEquals(
+    getSample(metrics, 'cosmotrigger_node_reachable{chain="idle-chain"'),
+    'cosmotrigger_node_reachable{chain="idle-chain",chain_id="",moniker=""} 0',
+  );
+});
+
+Deno.test("recordHttpRequest should attribute requests to the registered endpoint", () => {
+  registerChainEndpoints("http-chain", ["http://http-chain-node:1317"]);
+
+  const url = "http://http-chain-node:1317/cosmos/blocks";
+  recordHttpRequest(url, 80, true, "http-chain");
+  recordHttpRequest(url, 3000, false, "http-chain");
+  recordHttpRequest(url, 10, true, null);
+  recordHttpRequest(
+    "http://unknown-node:1317/cosmos/blocks",
+    10,
+    true,
+    "http-chain",
+  );
+
+  const metrics = renderMetrics();
+  const labels =
+    'chain="http-chain",chain_id="",moniker="",endpoint="http://http-chain-node:1317"';
+
+  assertEquals(
+    getSample(
+      metrics,
+      `cosmotrigger_http_request_duration_seconds_bucket{${labels},le="0.1"}`,
+    )?.endsWith(" 1"),
+    true,
+  );
+  assertEquals(
+    getSample(
+      metrics,
+      `cosmotrigger_http_request_duration_seconds_count{${labels}}`,
+    ),
+    `cosmotrigger_http_request_duration_seconds_count{${labels}} 2`,
+  );
+  assertEquals(
+    getSample(metrics, `cosmotrigger_http_request_errors_total{${labels}}`),
+    `cosmotrigger_http_request_errors_total{${labels}} 1`,
+  );
+  assertEquals(metrics.includes("unknown-node"), false);
+});
+
+Deno.test("recordHttpRequest should attribute requests to the requesting chain when chains share an endpoint", () => {
+  const sharedApi = "https://gitlab.example.com/api/v4";
+  registerChainEndpoints("shared-first", ["http://first-node:1317", sharedApi]);
+  registerChainEndpoints("shared-second", [
+    "http://second-node:1317",
+    sharedApi,
+  ]);
+
+  recordHttpRequest(
+    `${sharedApi}/projects/1/pipelines`,
+    50,
+    true,
+    "shared-second",
+  );
+  recordHttpRequest(
+    `${sharedApi}/projects/1/pipelines`,
+    50,
+    false,
+    "shared-second",
+  );
+
+  const metrics = renderMetrics();
+  const endpoint = `endpoint="${sharedApi}"`;
+
+  assertEquals(
+    getSample(
+      metrics,
+      `cosmotrigger_http_request_duration_seconds_count{chain="shared-first"`,
+    ),
+    undefined,
+  );
+  assertEquals(
+    getSample(
+      metrics,
+      `cosmotrigger_http_request_duration_seconds_count{chain="shared-second",chain_id="",moniker="",${endpoint}}`,
+    ),
+    `cosmotrigger_http_request_duration_seconds_count{chain="shared-second",chain_id="",moniker="",${endpoint}} 2`,
+  );
+});
+
+Deno.test("startMetricsCollection should count pipeline runs by outcome", () => {
+  const stop = startMetricsCollection();
+  const publish = (
+    type: "pipeline-succeeded" | "pipeline-failed",
+    status: string | null,
+  ): void =>
+    publishMonitorEvent({
+      type,
+      severity: "info",
+      chain: "pipeline-chain",
+      identity: null,
+      message: "",
+      timestamp: new Date().toISOString(),
+      details: { phase: "execute", status },
+    });
+
+  try {
+    publish("pipeline-succeeded", "success");
+    publish("pipeline-failed", "failed");
+    publish("pipeline-failed", "failed");
+    publish("pipeline-failed", null);
+  } finally {
+    stop();
+  }
+  publish("pipeline-succeeded", "success");
+
+  const metrics = renderMetrics();
+  const labels =
+    'chain="pipeline-chain",chain_id="",moniker="",phase="execute"';
+
+  assertEquals(
+    getSample(
+      metrics,
+      `cosmotrigger_pipeline_runs_total{${labels},outcome="success"}`,
+    ),
+    `cosmotrigger_pipeline_runs_total{${labels},outcome="success"} 1`,
+  );
+  assertEquals(
+    getSample(
+      metrics,
+      `cosmotrigger_pipeline_runs_total{${labels},outcome="failed"}`,
+    ),
+    `cosmotrigger_pipeline_runs_total{${labels},outcome="failed"} 2`,
+  );
+  assertEquals(
+    getSample(
+      metrics,
+      `cosmotrigger_pipeline_runs_total{${labels},outcome="trigger_failed"}`,
+    ),
+    `cosmotrigger_pipeline_runs_total{${labels},outcome="trigger_failed"} 1`,
+  );
+});
@@ -0,0 +1,305 @@
+import { onMonitorEvent } from "src/service/events.ts";
+import { MonitorEvent } from "src/types/events.ts";
+import { ChainGauges, HttpRequestStats } from "src/types/metrics.ts";
+import { setFetchObserver } from "src/utils/http.ts";
+
+const METRIC_PREFIX = "cosmotrigger";
+const HTTP_DURATION_BUCKETS_SECONDS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+/**
+ * Metric families in output order, without the `cosmotrigger_` prefix.
+ */
+const METRIC_FAMILIES: ReadonlyArray<
+  { name: string; help: string; type: "gauge" | "counter" | "histogram" }
+> = [
+  { name: "block_height", help: "Latest observed block height", type: "gauge" },
+  {
+    name: "upgrade_plan_height",
+    help: "Height of the pending upgrade plan",
+    type: "gauge",
+  },
+  {
+    name: "upgrade_blocks_remaining",
+    help: "Blocks remaining until the pending upgrade",
+    type: "gauge",
+  },
+  {
+    name: "upgrade_estimated_seconds",
+    help: "Estimated seconds until the pending upgrade",
+    type: "gauge",
+  },
+  {
+    name: "node_reachable",
+    help: "Whether a REST node of the chain is reachable",
+    type: "gauge",
+  },
+  {
+    name: "pipeline_runs_total",
+    help: "Pipeline runs by phase and outcome",
+    type: "counter",
+  },
+  {
+    name: "http_request_duration_seconds",
+    help: "Duration of REST and CI/CD API requests",
+    type: "histogram",
+  },
+  {
+    name: "http_request_errors_total",
+    help: "Failed REST and CI/CD API requests",
+    type: "counter",
+  },
+];
+
+/**
+ * Metrics collected for a single chain. Series are labelled with the chain
+ * name from the configuration and the chain ID and moniker of its node.
+ */
+type ChainMetrics = {
+  endpoints: string[];
+  gauges: ChainGauges | null;
+  /** Pipeline runs keyed by `<phase>|<outcome>` */
+  pipelineRuns: Map<string, number>;
+  /** Request statistics keyed by endpoint */
+  httpRequests: Map<string, HttpRequestStats>;
+};
+
+const chains = new Map<string, ChainMetrics>();
+
+/**
+ * Returns the metrics of a chain, creating them on first use.
+ *
+ * @param chain - The chain name.
+ */
+function getChainMetrics(chain: string): ChainMetrics {
+  let metrics = chains.get(chain);
+  if (!metrics) {
+    metrics = {
+      endpoints: [],
+      gauges: null,
+      pipelineRuns: new Map(),
+      httpRequests: new Map(),
+    };
+    chains.set(chain, metrics);
+  }
+  return metrics;
+}
+
+/**
+ * Registers the endpoints a chain sends requests to, used to label its
+ * request metrics by endpoint.
+ *
+ * @param chain - The chain name.
+ * @param endpoints - Base URLs of the REST nodes and the CI/CD API.
+ */
+export function registerChainEndpoints(
+  chain: string,
+  endpoints: string[],
+): void {
+  getChainMetrics(chain).endpoints = [...endpoints];
+}
+
+/**
+ * Replaces the gauge values of a chain.
+ *
+ * @param chain - The chain name.
+ * @param gauges - The current gauge values.
+ */
+export function updateChainGauges(chain: string, gauges: ChainGauges): void {
+  getChainMetrics(chain).gauges = gauges;
+}
+
+/**
+ * Records a completed fetchJson request for the chain that sent it, under
+ * the longest registered endpoint of that chain matching the URL. Requests
+ * without a chain or to unregistered endpoints are ignored.
+ *
+ * @param url - The requested URL.
+ * @param durationMs - The request duration in milliseconds.
+ * @param ok - Whether the request succeeded.
+ * @param chain - The chain the request was sent for, if known.
+ */
+export function recordHttpRequest(
+  url: string,
+  durationMs: number,
+  ok: boolean,
+  chain: string | null,
+): void {
+  const metrics = chain === null ? undefined : chains.get(chain);
+  if (!metrics) return;
+
+  const endpoint = metrics.endpoints
+    .filter((candidate) => url.startsWith(candidate))
+    .reduce<string | null>(
+      (longest, candidate) =>
+        longest === null || candidate.length > longest.length
+          ? candidate
+          : longest,
+      null,
+    );
+  if (endpoint === null) return;
+
+  let stats = metrics.httpRequests.get(endpoint);
+  if (!stats) {
+    stats = {
+      count: 0,
+      errors: 0,
+      durationSumSeconds: 0,
+      bucketCounts: HTTP_DURATION_BUCKETS_SECONDS.map(() => 0),
+    };
+    metrics.httpRequests.set(endpoint, stats);
+  }
+
+  const durationSeconds = durationMs / 1000;
+  stats.count++;
+  stats.durationSumSeconds += durationSeconds;
+  if (!ok) stats.errors++;
+  HTTP_DURATION_BUCKETS_SECONDS.forEach((bucket, index) => {
+    if (durationSeconds <= bucket) stats.bucketCounts[index]++;
+  });
+}
+
+/**
+ * Counts finished and failed pipeline runs by phase and outcome.
+ *
+ * @param event - The monitor event.
+ */
+function recordPipelineEvent(event: MonitorEvent): void {
+  if (event.type !== "pipeline-succeeded" && event.type !== "pipeline-failed") {
+    return;
+  }
+
+  const phase = String(event.details.phase ?? "execute");
+  const outcome = event.type === "pipeline-succeeded"
+    ? "success"
+    : String(event.details.status ?? "trigger_failed");
+  const key = `${phase}|${outcome}`;
+  const pipelineRuns = getChainMetrics(event.chain).pipelineRuns;
+
+  pipelineRuns.set(key, (pipelineRuns.get(key) ?? 0) + 1);
+}
+
+/**
+ * Starts collecting request and pipeline metrics.
+ *
+ * @returns A function stopping the collection.
+ */
+export function startMetricsCollection(): () => void {
+  setFetchObserver(recordHttpRequest);
+  const unsubscribe = onMonitorEvent(recordPipelineEvent);
+
+  return () => {
+    setFetchObserver(null);
+    unsubscribe();
+  };
+}
+
+/**
+ * Formats a label set in the Prometheus text format.
+ *
+ * @param labels - The label names and values.
+ */
+function formatLabels(labels: Record<string, string>): string {
+  const formatted = Object.entries(labels).map(([name, value]) =>
+    `${name}="${
+      value.replaceAll("\\", "\\\\").replaceAll('"', '\\"').replaceAll(
+        "\n",
+        "\\n",
+      )
+    }"`
+  );
+  return `{${formatted.join(",")}}`;
+}
+
+/**
+ * Renders all collected metrics in the Prometheus text exposition format.
+ *
+ * @returns The metrics document.
+ */
+export function renderMetrics(): string {
+  const samples = new Map<string, string[]>(
+    METRIC_FAMILIES.map(({ name }) => [name, []]),
+  );
+  const add = (
+    family: string,
+    labels: Record<string, string>,
+    value: number,
+    suffix = "",
+  ): void => {
+    samples.get(family)!.push(
+      `${METRIC_PREFIX}_${family}${suffix}${formatLabels(labels)} ${value}`,
+    );
+  };
+
+  for (const [chain, metrics] of chains) {
+    const gauges = metrics.gauges;
+    const labels = {
+      chain,
+      chain_id: gauges?.identity?.network ?? "",
+      moniker: gauges?.identity?.moniker ?? "",
+    };
+
+    if (gauges !== null) {
+      add("node_reachable", labels, gauges.nodeReachable ? 1 : 0);
+      if (gauges.blockHeight !== null) {
+        add("block_height", labels, gauges.blockHeight);
+      }
+      if (gauges.planHeight !== null) {
+        add("upgrade_plan_height", labels, gauges.planHeight);
+        if (gauges.blockHeight !== null) {
+          add(
+            "upgrade_blocks_remaining",
+            labels,
+            Math.max(0, gauges.planHeight - gauges.blockHeight),
+          );
+        }
+      }
+      if (gauges.secondsUntilUpgrade !== null) {
+        add("upgrade_estimated_seconds", labels, gauges.secondsUntilUpgrade);
+      }
+    }
+
+    for (const [key, count] of metrics.pipelineRuns) {
+      const [phase, outcome] = key.split("|");
+      add("pipeline_runs_total", { ...labels, phase, outcome }, count);
+    }
+
+    for (const [endpoint, stats] of metrics.httpRequests) {
+      const endpointLabels = { ...labels, endpoint };
+      HTTP_DURATION_BUCKETS_SECONDS.forEach((bucket, index) => {
+        add(
+          "http_request_duration_seconds",
+          { ...endpointLabels, le: String(bucket) },
+          stats.bucketCounts[index],
+          "_bucket",
+        );
+      });
+      add(
+        "http_request_duration_seconds",
+        { ...endpointLabels, le: "+Inf" },
+        stats.count,
+        "_bucket",
+      );
+      add(
+        "http_request_duration_seconds",
+        endpointLabels,
+        stats.durationSumSeconds,
+        "_sum",
+      );
+      add(
+        "http_request_duration_seconds",
+        endpointLabels,
+        stats.count,
+        "_count",
+      );
+      add("http_request_errors_total", endpointLabels, stats.errors);
+    }
+  }
+
+  const lines: string[] = [];
+  for (const { name, help, type } of METRIC_FAMILIES) {
+    lines.push(`# HELP ${METRIC_PREFIX}_${name} ${help}`);
+    lines.push(`# TYPE ${METRIC_PREFIX}_${name} ${type}`);
+    lines.push(...samples.get(name)!);
+  }
+  return `${lines.join("\n")}\n`;
+}
@@ -1,44 +1,31 @@
-import { type Config } from "config/config.ts";
+import { type ChainConfig } from "config/config.ts";
+import { onMonitorEvent } from "src/service/events.ts";
 import { CosmosMonitor } from "src/service/monitor.ts";
+import { StateStore } from "src/service/state-store.ts";
+import { createMockChainConfig } from "src/test-utils/config.ts";
+import { MonitorEvent } from "src/types/events.ts";
 import { logger } from "src/utils/logger.ts";
 import { assertEquals } from "test-assert";
 import { stub } from "test-mock";
 import { FakeTime } from "test-time";
 
-/**
- * Enhanced mock configuration factory for comprehensive testing.
- */
-function createMockConfig(overrides: Partial<Config> = {}): Config {
-  return {
-    cosmosNodeRestUrl: "http://localhost:1317",
-    pollIntervalMs: 2000,
-    applicationPort: 8080,
-    cicdTriggerToken: "test-trigger-token",
-    cicdPersonalAccessToken: "test-pat",
-    cicdUpdateBranch: "main",
-    cicdProjectApiUrl: "https://gitlab.example.com/api/v4/projects/1234",
-    cicdVariables: "",
-    ...overrides,
-  };
-}
-
 // Basic functionality tests
 Deno.test("CosmosMonitor should instantiate correctly with config", () => {
-  const config = createMockConfig();
+  const config = createMockChainConfig();
   const monitor = new CosmosMonitor(config);
 
   assertEquals(typeof monitor, "object");
 });
 
 Deno.test("CosmosMonitor should reset internal state properly", () => {
-  const config = createMockConfig();
+  const config = createMockChainConfig();
   const monitor = new CosmosMonitor(config);
 
   monitor.reset();
 });
 
 Deno.test("CosmosMonitor should handle multiple reset calls", () => {
-  const config = createMockConfig();
+  const config = createMockChainConfig();
   const monitor = new CosmosMonitor(config);
 
   monitor.reset();
@@ -47,7 +34,7 @@ Deno.test("CosmosMonitor should handle multiple reset calls", () => {
 });
 
 Deno.test("CosmosMonitor should properly handle aborted signal", async () => {
-  const config = createMockConfig();
+  const config = createMockChainConfig();
   const monitor = new CosmosMonitor(config);
   const controller = new AbortController();
 
@@ -57,7 +44,7 @@ Deno.test("CosmosMonitor should properly handle aborted signal", async () => {
 });
 
 Deno.test("CosmosMonitor should handle createSignalAwareDelay with pre-aborted signal", async () => {
-  const config = createMockConfig();
+  const config = createMockChainConfig();
   const monitor = new CosmosMonitor(config);
   const controller = new AbortController();
 
@@ -74,7 +61,7 @@ Deno.test("CosmosMonitor should handle createSignalAwareDelay with pre-aborted s
 });
 
 Deno.test("CosmosMonitor should handle quick abort during monitoring", async () => {
-  const config = createMockConfig();
+  const config = createMockChainConfig();
   const monitor = new CosmosMonitor(config);
   const controller = new AbortController();
 
@@ -85,7 +72,7 @@ Deno.test("CosmosMonitor should handle quick abort during monitoring", async ()
 });
 
 Deno.test("CosmosMonitor should handle signal abort during delay", async () => {
-  const config = createMockConfig({ pollIntervalMs: 1000 });
+  const config = createMockChainConfig({ pollIntervalMs: 1000 });
   const monitor = new CosmosMonitor(config);
 
   const controller = new AbortController();
@@ -104,7 +91,7 @@ Deno.test("CosmosMonitor should handle signal abort during delay", async () => {
 });
 
 Deno.test("CosmosMonitor should be reusable after reset", async () => {
-  const config = createMockConfig();
+  const config = createMockChainConfig();
   const monitor = new CosmosMonitor(config);
 
   // First session
@@ -124,7 +111,7 @@ Deno.test("CosmosMonitor should be reusable after reset", async () => {
 });
 
 Deno.test("CosmosMonitor should handle multiple quick start/stop cycles", async () => {
-  const config = createMockConfig();
+  const config = createMockChainConfig();
   const monitor = new CosmosMonitor(config);
 
   for (let i = 0; i < 3; i++) {
@@ -142,7 +129,7 @@ Deno.test("CosmosMonitor should handle multiple quick start/stop cycles", async
 });
 
 Deno.test("CosmosMonitor should handle concurrent abort calls", async () => {
-  const config = createMockConfig();
+  const config = createMockChainConfig();
   const monitor = new CosmosMonitor(config);
   const controller = new AbortController();
 
@@ -157,8 +144,8 @@ Deno.test("CosmosMonitor should handle concurrent abort calls", async () => {
 
 // Error handling tests
 Deno.test("CosmosMonitor should handle errors during monitoring gracefully", async () => {
-  const config = createMockConfig({
-    cosmosNodeRestUrl: "http://invalid-url-that-will-fail:1317",
+  const config = createMockChainConfig({
+    cosmosNodeRestUrls: ["http://invalid-url-that-will-fail:1317"],
   });
   const monitor = new CosmosMonitor(config);
   const controller = new AbortController();
@@ -182,8 +169,8 @@ Deno.test("CosmosMonitor should handle errors during monitoring gracefully", asy
 });
 
 Deno.test("CosmosMonitor should continue monitoring after errors", async () => {
-  const config = createMockConfig({
-    cosmosNodeRestUrl: "http://invalid-url-that-will-fail:1317",
+  const config = createMockChainConfig({
+    cosmosNodeRestUrls: ["http://invalid-url-that-will-fail:1317"],
     pollIntervalMs: 50,
   });
   const monitor = new CosmosMonitor(config);
@@ -209,7 +196,7 @@ Deno.test("CosmosMonitor should continue monitoring after errors", async () => {
 
 // Integration tests with FakeTime
 Deno.test("CosmosMonitor should respect poll interval timing", async () => {
-  const config = createMockConfig({ pollIntervalMs: 100 });
+  const config = createMockChainConfig({ pollIntervalMs: 100 });
   const monitor = new CosmosMonitor(config);
   const time = new FakeTime();
 
@@ -229,7 +216,7 @@ Deno.test("CosmosMonitor should respect poll interval timing", async () => {
 });
 
 Deno.test("CosmosMonitor should handle rapid time advancement", async () => {
-  const config = createMockConfig({ pollIntervalMs: 100 });
+  const config = createMockChainConfig({ pollIntervalMs: 100 });
   const monitor = new CosmosMonitor(config);
   const time = new FakeTime();
 
@@ -251,9 +238,9 @@ Deno.test("CosmosMonitor should handle rapid time advancement", async () => {
 // Configuration validation tests
 Deno.test("CosmosMonitor should work with different poll intervals", async () => {
   const configs = [
-    createMockConfig({ pollIntervalMs: 50 }),
-    createMockConfig({ pollIntervalMs: 1000 }),
-    createMockConfig({ pollIntervalMs: 5000 }),
+    createMockChainConfig({ pollIntervalMs: 50 }),
+    createMockChainConfig({ pollIntervalMs: 1000 }),
+    createMockChainConfig({ pollIntervalMs: 5000 }),
   ];
 
   for (const config of configs) {
@@ -270,9 +257,11 @@ Deno.test("CosmosMonitor should work with different poll intervals", async () =>
 
 Deno.test("CosmosMonitor should work with different URLs", async () => {
   const configs = [
-    createMockConfig({ cosmosNodeRestUrl: "http://localhost:1317" }),
-    createMockConfig({ cosmosNodeRestUrl: "https://api.cosmos.network" }),
-    createMockConfig({ cosmosNodeRestUrl: "http://testnet:1317" }),
+    createMockChainConfig({ cosmosNodeRestUrls: ["http://localhost:1317"] }),
+    createMockChainConfig({
+      cosmosNodeRestUrls: ["https://api.cosmos.network"],
+    }),
+    createMockChainConfig({ cosmosNodeRestUrls: ["http://testnet:1317"] }),
   ];
 
   for (const config of configs) {
@@ -286,3 +275,914 @@ Deno.test("CosmosMonitor should work with different URLs", async () => {
     monitor.reset();
   }
 });
+
+// Pre-upgrade trigger tests
+Deno.test("CosmosMonitor should trigger the prepare pipeline ahead of the upgrade height", async () => {
+  const config = createMockChainConfig({
+    pollIntervalMs: 10,
+    prepareTriggerBlocks: 10,
+    prepareCicdUpdateBranch: "prepare",
+  });
+  const monitor = new CosmosMonitor(config);
+  const controller = new AbortController();
+  const triggerBodies: URLSearchParams[] = [];
+  const originalFetch = globalThis.fetch;
+  const infoStub = stub(logger, "info");
+
+  globalThis.fetch = (input: string | URL | Request, init?: RequestInit) => {
+    const url = String(input);
+    const respond = (body: unknown) =>
+      Promise.resolve(new Response(JSON.stringify(body), { status: 200 }));
+
+    if (url.endsWith("/node_info")) {
+      return respond({
+        default_node_info: { network: "test-1", moniker: "validator" },
+      });
+    }
+    if (url.endsWith("/blocks/latest")) {
+      return respond({ block: { header: { height: "95" } } });
+    }
+    if (url.endsWith("/current_plan")) {
+      return respond({ plan: { name: "v2", height: "100" } });
+    }
+    if (url.endsWith("/trigger/pipeline")) {
+      triggerBodies.push(init!.body as URLSearchParams);
+      return respond({ id: 1, status: "pending", web_url: "https://ci/1" });
+    }
+    if (url.includes("/bridges")) {
+      return respond([]);
+    }
+    return respond({ status: "success" });
+  };
+
+  try {
+    const monitoringPromise = monitor.startMonitoring(controller.signal);
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    controller.abort();
+    await monitoringPromise;
+
+    assertEquals(triggerBodies.length, 1);
+    assertEquals(triggerBodies[0].get("ref"), "prepare");
+    assertEquals(triggerBodies[0].get("variables[UPGRADE_PHASE]"), "prepare");
+    assertEquals(triggerBodies[0].get("variables[UPGRADE_NAME]"), "v2");
+    assertEquals(triggerBodies[0].get("variables[UPGRADE_HEIGHT]"), "100");
+  } finally {
+    globalThis.fetch = originalFetch;
+    infoStub.restore();
+  }
+});
+
+Deno.test("CosmosMonitor should log errors while following the prepare pipeline", async () => {
+  const monitor = new CosmosMonitor(
+    createMockChainConfig({ pollIntervalMs: 10, prepareTriggerBlocks: 10 }),
+  );
+  const controller = new AbortController();
+  const originalFetch = globalThis.fetch;
+  const infoStub = stub(logger, "info");
+  const warnStub = stub(logger, "warn");
+  const errorStub = stub(logger, "error");
+  const finishedStub = stub(
+    StateStore.prototype,
+    "recordPipelineFinished",
+    () => Promise.reject(new Error("disk full")),
+  );
+
+  globalThis.fetch = (input: string | URL | Request) => {
+    const url = String(input);
+    const respond = (body: unknown) =>
+      Promise.resolve(new Response(JSON.stringify(body), { status: 200 }));
+
+    if (url.endsWith("/node_info")) {
+      return respond({
+        default_node_info: { network: "test-1", moniker: "validator" },
+      });
+    }
+    if (url.endsWith("/blocks/latest")) {
+      return respond({ block: { header: { height: "95" } } });
+    }
+    if (url.endsWith("/current_plan")) {
+      return respond({ plan: { name: "v2", height: "100" } });
+    }
+    if (url.endsWith("/trigger/pipeline")) {
+      return respond({ id: 1, status: "pending", web_url: "https://ci/1" });
+    }
+    if (url.includes("/bridges")) {
+      return respond([]);
+    }
+    return respond({ status: "success" });
+  };
+
+  try {
+    const monitoringPromise = monitor.startMonitoring(controller.signal);
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    controller.abort();
+    await monitoringPromise;
+
+    const messages = errorStub.calls.map((call) => String(call.args[0]));
+    assertEquals(
+      messages.some((message) =>
+        message.includes("Failed to follow prepare pipeline 1")
+      ),
+      true,
+    );
+  } finally {
+    globalThis.fetch = originalFetch;
+    infoStub.restore();
+    warnStub.restore();
+    errorStub.restore();
+    finishedStub.restore();
+    monitor.reset();
+  }
+});
+
+// Plan re-validation tests
+async function runWithChangingPlan(
+  plans: unknown[],
+): Promise<string[]> {
+  const monitor = new CosmosMonitor(
+    createMockChainConfig({ pollIntervalMs: 10 }),
+  );
+  const controller = new AbortController();
+  const originalFetch = globalThis.fetch;
+  const infoStub = stub(logger, "info");
+  const warnings: string[] = [];
+  const warnStub = stub(logger, "warn", (message: unknown) => {
+    warnings.push(String(message));
+    return "";
+  });
+  let planQueries = 0;
+
+  globalThis.fetch = (input: string | URL | Request) => {
+    const url = String(input);
+    const respond = (body: unknown) =>
+      Promise.resolve(new Response(JSON.stringify(body), { status: 200 }));
+
+    if (url.endsWith("/node_info")) {
+      return respond({
+        default_node_info: { network: "test-1", moniker: "validator" },
+      });
+    }
+    if (url.endsWith("/blocks/latest")) {
+      return respond({ block: { header: { height: "50" } } });
+    }
+    if (url.endsWith("/current_plan")) {
+      const plan = plans[Math.min(planQueries++, plans.length - 1)];
+      return respond({ plan });
+    }
+    return respond({});
+  };
+
+  try {
+    const monitoringPromise = monitor.startMonitoring(controller.signal);
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    controller.abort();
+    await monitoringPromise;
+    return warnings;
+  } finally {
+    globalThis.fetch = originalFetch;
+    infoStub.restore();
+    warnStub.restore();
+  }
+}
+
+Deno.test("CosmosMonitor should detect a cancelled upgrade plan", async () => {
+  const warnings = await runWithChangingPlan([
+    { name: "v2", height: "100" },
+    null,
+  ]);
+
+  assertEquals(
+    warnings.filter((message) => message.includes("Upgrade plan cancelled"))
+      .length,
+    1,
+  );
+  assertEquals(
+    warnings.some((message) => message.includes("height changed")),
+    false,
+  );
+});
+
+Deno.test("CosmosMonitor should ignore a plan missing on a single check", async () => {
+  const warnings = await runWithChangingPlan([
+    { name: "v2", height: "100" },
+    null,
+    { name: "v2", height: "100" },
+  ]);
+
+  assertEquals(
+    warnings.filter((message) => message.includes("not reported by the node"))
+      .length,
+    1,
+  );
+  assertEquals(
+    warnings.some((message) => message.includes("Upgrade plan cancelled")),
+    false,
+  );
+});
+
+Deno.test("CosmosMonitor should detect a rescheduled upgrade plan", async () => {
+  const warnings = await runWithChangingPlan([
+    { name: "v2", height: "100" },
+    { name: "v2", height: "120" },
+  ]);
+
+  assertEquals(
+    warnings.filter((message) =>
+      message.includes("Upgrade plan height changed") &&
+      message.includes("height 100") && message.includes("height 120")
+    ).length,
+    1,
+  );
+  assertEquals(
+    warnings.some((message) => message.includes("cancelled")),
+    false,
+  );
+});
+
+Deno.test("CosmosMonitor should notify once when the upgrade is approaching", async () => {
+  const monitor = new CosmosMonitor(
+    createMockChainConfig({ pollIntervalMs: 10, notifyBlocksRemaining: 10 }),
+  );
+  const controller = new AbortController();
+  const originalFetch = globalThis.fetch;
+  const infoStub = stub(logger, "info");
+  const events: MonitorEvent[] = [];
+  const unsubscribe = onMonitorEvent((event) => {
+    events.push(event);
+  });
+
+  globalThis.fetch = (input: string | URL | Request) => {
+    const url = String(input);
+    const respond = (body: unknown) =>
+      Promise.resolve(new Response(JSON.stringify(body), { status: 200 }));
+
+    if (url.endsWith("/node_info")) {
+      return respond({
+        default_node_info: {
+          network: "test-1",
+          moniker: "validator",
+          version: "v1.0.0",
+        },
+      });
+    }
+    if (url.endsWith("/blocks/latest")) {
+      return respond({ block: { header: { height: "95" } } });
+    }
+    return respond({ plan: { name: "v2", height: "100" } });
+  };
+
+  try {
+    const monitoringPromise = monitor.startMonitoring(controller.signal);
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    controller.abort();
+    await monitoringPromise;
+
+    const approaching = events.filter((event) =>
+      event.type === "upgrade-approaching"
+    );
+    assertEquals(approaching.length, 1);
+    assertEquals(approaching[0].details.blocksRemaining, 5);
+  } finally {
+    globalThis.fetch = originalFetch;
+    unsubscribe();
+    infoStub.restore();
+  }
+});
+
+Deno.test("CosmosMonitor should not write the state file in dry-run mode", async () => {
+  const stateDir = await Deno.makeTempDir();
+  const monitor = new CosmosMonitor(
+    createMockChainConfig({ pollIntervalMs: 10, stateDir, dryRun: true }),
+  );
+  const controller = new AbortController();
+  const originalFetch = globalThis.fetch;
+  const logStubs = [stub(logger, "info"), stub(logger, "warn")];
+
+  globalThis.fetch = (input: string | URL | Request) => {
+    const url = String(input);
+    const respond = (body: unknown) =>
+      Promise.resolve(new Response(JSON.stringify(body), { status: 200 }));
+
+    if (url.endsWith("/node_info")) {
+      return respond({
+        default_node_info: { network: "test-1", moniker: "validator" },
+      });
+    }
+    if (url.endsWith("/blocks/latest")) {
+      return respond({ block: { header: { height: "100" } } });
+    }
+    return respond({ plan: { name: "v2", height: "100" } });
+  };
+
+  try {
+    const monitoringPromise = monitor.startMonitoring(controller.signal);
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    controller.abort();
+    await monitoringPromise;
+
+    assertEquals(await Array.fromAsync(Deno.readDir(stateDir)), []);
+  } finally {
+    globalThis.fetch = originalFetch;
+    logStubs.forEach((logStub) => logStub.restore());
+    await Deno.remove(stateDir, { recursive: true });
+  }
+});
+
+// Post-upgrade verification tests
+async function runUpgrade(
+  upgradeApplied: boolean,
+  overrides: Partial<ChainConfig> = {},
+  versionChanges: boolean = true,
+): Promise<MonitorEvent[]> {
+  const monitor = new CosmosMonitor(
+    createMockChainConfig({
+      pollIntervalMs: 10,
+      postUpgradeVerifyTimeoutMs: 50,
+      ...overrides,
+    }),
+  );
+  const controller = new AbortController();
+  const originalFetch = globalThis.fetch;
+  const logStubs = [
+    stub(logger, "info"),
+    stub(logger, "warn"),
+    stub(logger, "error"),
+    stub(logger, "critical"),
+  ];
+  const events: MonitorEvent[] = [];
+  const unsubscribe = onMonitorEvent((event) => {
+    events.push(event);
+    if (event.type === "upgrade-verified") {
+      controller.abort();
+    }
+  });
+  let triggered = false;
+
+  globalThis.fetch = (input: string | URL | Request) => {
+    const url = String(input);
+    const upgraded = triggered && upgradeApplied;
+    const respond = (body: unknown) =>
+      Promise.resolve(new Response(JSON.stringify(body), { status: 200 }));
+
+    if (url.endsWith("/node_info")) {
+      return respond({
+        default_node_info: {
+          network: "test-1",
+          moniker: "validator",
+          version: "0.38.12",
+        },
+        application_version: {
+          version: upgraded && versionChanges ? "v2.0.0" : "v1.0.0",
+        },
+      });
+    }
+    if (url.endsWith("/blocks/latest")) {
+      return respond({
+        block: { header: { height: upgraded ? "101" : "100" } },
+      });
+    }
+    if (url.endsWith("/current_plan")) {
+      return respond({
+        plan: triggered ? null : { name: "v2", height: "100" },
+      });
+    }
+    if (url.endsWith("/applied_plan/v2")) {
+      return respond({ height: upgraded ? "100" : "0" });
+    }
+    if (url.endsWith("/trigger/pipeline")) {
+      const id = triggered ? 2 : 1;
+      triggered = true;
+      return respond({ id, status: "pending", web_url: `https://ci/${id}` });
+    }
+    if (url.includes("/bridges")) {
+      return respond([]);
+    }
+    return respond({ status: "success" });
+  };
+
+  try {
+    const monitoringPromise = monitor.startMonitoring(controller.signal);
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    controller.abort();
+    await monitoringPromise;
+    return events;
+  } finally {
+    globalThis.fetch = originalFetch;
+    unsubscribe();
+    logStubs.forEach((logStub) => logStub.restore());
+  }
+}
+
+Deno.test("CosmosMonitor should verify a successful upgrade", async () => {
+  const events = await runUpgrade(true);
+  const verified = events.find((event) => event.type === "upgrade-verified");
+
+  assertEquals(
+    events.map((event) => event.type),
+    [
+      "plan-detected",
+      "pipeline-triggered",
+      "pipeline-succeeded",
+      "upgrade-verified",
+    ],
+  );
+  assertEquals(verified?.details.previousVersion, "v1.0.0");
+  assertEquals(verified?.details.currentVersion, "v2.0.0");
+  assertEquals(verified?.details.appliedHeight, 100);
+});
+
+Deno.test("CosmosMonitor should report a failed upgrade verification after the timeout", async () => {
+  const events = await runUpgrade(false);
+  const failed = events.find((event) =>
+    event.type === "upgrade-verification-failed"
+  );
+
+  assertEquals(failed?.severity, "critical");
+  assertEquals((failed?.details.failedChecks as string[]).length, 3);
+});
+
+Deno.test("CosmosMonitor should roll back when the upgrade was not applied", async () => {
+  const events = await runUpgrade(false, { rollbackEnabled: true });
+
+  assertEquals(
+    events.some((event) =>
+      event.type === "pipeline-triggered" && event.details.phase === "rollback"
+    ),
+    true,
+  );
+});
+
+Deno.test("CosmosMonitor should not roll back when only the version did not change", async () => {
+  const events = await runUpgrade(true, { rollbackEnabled: true }, false);
+  const failed = events.find((event) =>
+    event.type === "upgrade-verification-failed"
+  );
+
+  assertEquals(failed?.details.failedChecks, [
+    "node version did not change from v1.0.0",
+  ]);
+  assertEquals(
+    events.some((event) => event.details.phase === "rollback"),
+    false,
+  );
+});
+
+// Admin action tests
+Deno.test("CosmosMonitor should reject plan actions without a pending plan", async () => {
+  const monitor = new CosmosMonitor(createMockChainConfig());
+  const warnStub = stub(logger, "warn");
+
+  try {
+    assertEquals((await monitor.runAdminAction("skip-plan")).ok, false);
+    assertEquals((await monitor.runAdminAction("force-trigger")).ok, false);
+    assertEquals((await monitor.runAdminAction("pause")).ok, true);
+    assertEquals((await monitor.runAdminAction("resume")).ok, true);
+  } finally {
+    warnStub.restore();
+  }
+});
+
+Deno.test("CosmosMonitor should force-trigger the upgrade pipeline before the upgrade height", async () => {
+  const monitor = new CosmosMonitor(
+    createMockChainConfig({ pollIntervalMs: 10 }),
+  );
+  const controller = new AbortController();
+  const originalFetch = globalThis.fetch;
+  const logStubs = [
+    stub(logger, "info"),
+    stub(logger, "warn"),
+    stub(logger, "error"),
+    stub(logger, "critical"),
+  ];
+  const triggerBodies: URLSearchParams[] = [];
+
+  globalThis.fetch = (input: string | URL | Request, init?: RequestInit) => {
+    const url = String(input);
+    const respond = (body: unknown) =>
+      Promise.resolve(new Response(JSON.stringify(body), { status: 200 }));
+
+    if (url.endsWith("/node_info")) {
+      return respond({
+        default_node_info: { network: "test-1", moniker: "validator" },
+      });
+    }
+    if (url.endsWith("/blocks/latest")) {
+      return respond({ block: { header: { height: "50" } } });
+    }
+    if (url.endsWith("/current_plan")) {
+      return respond({ plan: { name: "v2", height: "100" } });
+    }
+    if (url.endsWith("/trigger/pipeline")) {
+      triggerBodies.push(init!.body as URLSearchParams);
+      controller.abort();
+      return respond({ id: 1, status: "pending", web_url: "https://ci/1" });
+    }
+    if (url.includes("/bridges")) {
+      return respond([]);
+    }
+    return respond({ status: "success" });
+  };
+
+  try {
+    const monitoringPromise = monitor.startMonitoring(controller.signal);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    assertEquals(triggerBodies.length, 0);
+
+    assertEquals((await monitor.runAdminAction("force-trigger")).ok, true);
+    await monitoringPromise;
+
+    assertEquals(triggerBodies.length, 1);
+    assertEquals(triggerBodies[0].get("variables[UPGRADE_PHASE]"), "execute");
+  } finally {
+    globalThis.fetch = originalFetch;
+    logStubs.forEach((logStub) => logStub.restore());
+  }
+});
+
+Deno.test("CosmosMonitor should give up the upgrade after the last failed attempt", async () => {
+  const monitor = new CosmosMonitor(
+    createMockChainConfig({
+      pollIntervalMs: 10,
+      pipelineMaxAttempts: 2,
+      pipelineRetryBackoffMs: 10,
+    }),
+  );
+  const controller = new AbortController();
+  const originalFetch = globalThis.fetch;
+  const logStubs = [
+    stub(logger, "info"),
+    stub(logger, "warn"),
+    stub(logger, "error"),
+    stub(logger, "critical"),
+  ];
+  const events: MonitorEvent[] = [];
+  const unsubscribe = onMonitorEvent((event) => {
+    events.push(event);
+    if (event.type === "upgrade-gave-up") {
+      controller.abort();
+    }
+  });
+  let triggerCount = 0;
+
+  globalThis.fetch = (input: string | URL | Request) => {
+    const url = String(input);
+    const respond = (body: unknown) =>
+      Promise.resolve(new Response(JSON.stringify(body), { status: 200 }));
+
+    if (url.endsWith("/node_info")) {
+      return respond({
+        default_node_info: { network: "test-1", moniker: "validator" },
+      });
+    }
+    if (url.endsWith("/blocks/latest")) {
+      return respond({ block: { header: { height: "100" } } });
+    }
+    if (url.endsWith("/current_plan")) {
+      return respond({ plan: { name: "v2", height: "100" } });
+    }
+    if (url.endsWith("/trigger/pipeline")) {
+      triggerCount++;
+      return respond({
+        id: triggerCount,
+        status: "pending",
+        web_url: `https://ci/${triggerCount}`,
+      });
+    }
+    if (url.includes("/bridges") || url.includes("/jobs")) {
+      return respond([]);
+    }
+    return respond({ status: "failed" });
+  };
+
+  try {
+    const monitoringPromise = monitor.startMonitoring(controller.signal);
+    await new Promise((resolve) => setTimeout(resolve, 500));
+    controller.abort();
+    await monitoringPromise;
+
+    const failures = events.filter((event) => event.type === "pipeline-failed");
+    assertEquals(triggerCount, 2);
+    assertEquals(failures.map((event) => event.details.attempt), [1, 2]);
+    assertEquals(failures.map((event) => event.details.retryInMs), [10, null]);
+    assertEquals(events.at(-1)?.type, "upgrade-gave-up");
+    assertEquals(events.at(-1)?.severity, "critical");
+  } finally {
+    globalThis.fetch = originalFetch;
+    unsubscribe();
+    logStubs.forEach((logStub) => logStub.restore());
+  }
+});
+
+Deno.test("CosmosMonitor should report the retry-wait phase before retrying", async () => {
+  const monitor = new CosmosMonitor(
+    createMockChainConfig({
+      pollIntervalMs: 10,
+      pipelineMaxAttempts: 2,
+      pipelineRetryBackoffMs: 60_000,
+    }),
+  );
+  const controller = new AbortController();
+  const originalFetch = globalThis.fetch;
+  const logStubs = [
+    stub(logger, "info"),
+    stub(logger, "warn"),
+    stub(logger, "error"),
+    stub(logger, "critical"),
+  ];
+
+  globalThis.fetch = (input: string | URL | Request) => {
+    const url = String(input);
+    const respond = (body: unknown) =>
+      Promise.resolve(new Response(JSON.stringify(body), { status: 200 }));
+
+    if (url.endsWith("/node_info")) {
+      return respond({
+        default_node_info: { network: "test-1", moniker: "validator" },
+      });
+    }
+    if (url.endsWith("/blocks/latest")) {
+      return respond({ block: { header: { height: "100" } } });
+    }
+    if (url.endsWith("/current_plan")) {
+      return respond({ plan: { name: "v2", height: "100" } });
+    }
+    if (url.endsWith("/trigger/pipeline")) {
+      return respond({ id: 1, status: "pending", web_url: "https://ci/1" });
+    }
+    if (url.includes("/bridges") || url.includes("/jobs")) {
+      return respond([]);
+    }
+    return respond({ status: "failed" });
+  };
+
+  try {
+    const monitoringPromise = monitor.startMonitoring(controller.signal);
+    await new Promise((resolve) => setTimeout(resolve, 300));
+    const result = await monitor.runAdminAction("skip-plan");
+    controller.abort();
+    await monitoringPromise;
+
+    assertEquals(result, {
+      ok: false,
+      message: "Monitor is busy (retry-wait)",
+    });
+  } finally {
+    globalThis.fetch = originalFetch;
+    logStubs.forEach((logStub) => logStub.restore());
+  }
+});
+
+Deno.test("CosmosMonitor should give up at once on a non-retryable status", async () => {
+  const monitor = new CosmosMonitor(
+    createMockChainConfig({ pollIntervalMs: 10 }),
+  );
+  const controller = new AbortController();
+  const originalFetch = globalThis.fetch;
+  const logStubs = [
+    stub(logger, "info"),
+    stub(logger, "warn"),
+    stub(logger, "error"),
+    stub(logger, "critical"),
+  ];
+  const events: MonitorEvent[] = [];
+  const unsubscribe = onMonitorEvent((event) => {
+    events.push(event);
+    if (event.type === "upgrade-gave-up") {
+      controller.abort();
+    }
+  });
+
+  globalThis.fetch = (input: string | URL | Request) => {
+    const url = String(input);
+    const respond = (body: unknown) =>
+      Promise.resolve(new Response(JSON.stringify(body), { status: 200 }));
+
+    if (url.endsWith("/node_info")) {
+      return respond({
+        default_node_info: { network: "test-1", moniker: "validator" },
+      });
+    }
+    if (url.endsWith("/blocks/latest")) {
+      return respond({ block: { header: { height: "100" } } });
+    }
+    if (url.endsWith("/current_plan")) {
+      return respond({ plan: { name: "v2", height: "100" } });
+    }
+    if (url.endsWith("/trigger/pipeline")) {
+      return respond({ id: 1, status: "pending", web_url: "https://ci/1" });
+    }
+    if (url.includes("/bridges") || url.includes("/jobs")) {
+      return respond([]);
+    }
+    return respond({ status: "canceled" });
+  };
+
+  try {
+    const monitoringPromise = monitor.startMonitoring(controller.signal);
+    await new Promise((resolve) => setTimeout(resolve, 500));
+    controller.abort();
+    await monitoringPromise;
+
+    assertEquals(
+      events.at(-1)?.details.reason,
+      "pipeline status canceled is not retryable",
+    );
+  } finally {
+    globalThis.fetch = originalFetch;
+    unsubscribe();
+    logStubs.forEach((logStub) => logStub.restore());
+  }
+});
+
+async function runWithTimedOutPipelines(
+  overrides: Partial<ChainConfig>,
+): Promise<{ triggerCount: number; events: MonitorEvent[] }> {
+  const monitor = new CosmosMonitor(
+    createMockChainConfig({
+      pollIntervalMs: 10,
+      pipelineTimeoutMs: 1,
+      pipelineMaxAttempts: 2,
+      pipelineRetryBackoffMs: 10,
+      ...overrides,
+    }),
+  );
+  const controller = new AbortController();
+  const originalFetch = globalThis.fetch;
+  const logStubs = [
+    stub(logger, "info"),
+    stub(logger, "warn"),
+    stub(logger, "error"),
+    stub(logger, "critical"),
+  ];
+  const events: MonitorEvent[] = [];
+  const unsubscribe = onMonitorEvent((event) => {
+    events.push(event);
+  });
+  let triggerCount = 0;
+
+  globalThis.fetch = (input: string | URL | Request) => {
+    const url = String(input);
+    const respond = (body: unknown) =>
+      Promise.resolve(new Response(JSON.stringify(body), { status: 200 }));
+
+    if (url.endsWith("/node_info")) {
+      return respond({
+        default_node_info: { network: "test-1", moniker: "validator" },
+      });
+    }
+    if (url.endsWith("/blocks/latest")) {
+      return respond({ block: { header: { height: "100" } } });
+    }
+    if (url.endsWith("/current_plan")) {
+      return respond({ plan: { name: "v2", height: "100" } });
+    }
+    if (url.endsWith("/trigger/pipeline")) {
+      triggerCount++;
+      return respond({
+        id: triggerCount,
+        status: "pending",
+        web_url: `https://ci/${triggerCount}`,
+      });
+    }
+    if (url.includes("/bridges") || url.includes("/jobs")) {
+      return respond([]);
+    }
+    return respond({ status: "running" });
+  };
+
+  try {
+    const monitoringPromise = monitor.startMonitoring(controller.signal);
+    await new Promise((resolve) => setTimeout(resolve, 500));
+    controller.abort();
+    await monitoringPromise;
+    return { triggerCount, events };
+  } finally {
+    globalThis.fetch = originalFetch;
+    unsubscribe();
+    logStubs.forEach((logStub) => logStub.restore());
+  }
+}
+
+Deno.test("CosmosMonitor should not retry a timed out pipeline that was not cancelled", async () => {
+  const { triggerCount, events } = await runWithTimedOutPipelines({
+    cancelPipelineOnAbort: false,
+  });
+
+  assertEquals(triggerCount, 1);
+  assertEquals(
+    events.at(-1)?.details.reason,
+    "the pipeline was not cancelled and may still be running",
+  );
+});
+
+Deno.test("CosmosMonitor should retry a timed out pipeline after cancelling it", async () => {
+  const { triggerCount, events } = await runWithTimedOutPipelines({
+    cancelPipelineOnAbort: true,
+  });
+  const failures = events.filter((event) => event.type === "pipeline-failed");
+
+  assertEquals(triggerCount, 2);
+  assertEquals(failures.map((event) => event.details.status), [
+    "timeout",
+    "timeout",
+  ]);
+  assertEquals(failures.map((event) => event.details.cancelled), [true, true]);
+  assertEquals(events.at(-1)?.details.reason, "all 2 attempts failed");
+});
+
+Deno.test("CosmosMonitor should not roll back while the upgrade pipeline may still be running", async () => {
+  const { triggerCount, events } = await runWithTimedOutPipelines({
+    cancelPipelineOnAbort: false,
+    rollbackEnabled: true,
+  });
+
+  assertEquals(triggerCount, 1);
+  assertEquals(
+    events.filter((event) => event.details.phase === "rollback"),
+    [],
+  );
+  assertEquals(events.at(-1)?.type, "upgrade-gave-up");
+});
+
+Deno.test("CosmosMonitor should run the rollback pipeline after giving up", async () => {
+  const monitor = new CosmosMonitor(
+    createMockChainConfig({
+      pollIntervalMs: 10,
+      pipelineMaxAttempts: 1,
+      rollbackEnabled: true,
+      rollbackCicdUpdateBranch: "recovery",
+      rollbackCicdVariables: '{"RESTORE_SNAPSHOT": "true"}',
+    }),
+  );
+  const controller = new AbortController();
+  const originalFetch = globalThis.fetch;
+  const logStubs = [
+    stub(logger, "info"),
+    stub(logger, "warn"),
+    stub(logger, "error"),
+    stub(logger, "critical"),
+  ];
+  const events: MonitorEvent[] = [];
+  const unsubscribe = onMonitorEvent((event) => {
+    events.push(event);
+  });
+  const triggerBodies: URLSearchParams[] = [];
+
+  globalThis.fetch = (input: string | URL | Request, init?: RequestInit) => {
+    const url = String(input);
+    const respond = (body: unknown) =>
+      Promise.resolve(new Response(JSON.stringify(body), { status: 200 }));
+
+    if (url.endsWith("/node_info")) {
+      return respond({
+        default_node_info: { network: "test-1", moniker: "validator" },
+      });
+    }
+    if (url.endsWith("/blocks/latest")) {
+      return respond({ block: { header: { height: "100" } } });
+    }
+    if (url.endsWith("/current_plan")) {
+      return respond({ plan: { name: "v2", height: "100" } });
+    }
+    if (url.endsWith("/trigger/pipeline")) {
+      triggerBodies.push(init!.body as URLSearchParams);
+      const id = triggerBodies.length;
+      return respond({ id, status: "pending", web_url: `https://ci/${id}` });
+    }
+    if (url.includes("/bridges") || url.includes("/jobs")) {
+      return respond([]);
+    }
+    if (url.endsWith("/pipelines/2")) {
+      controller.abort();
+      return respond({ status: "success" });
+    }
+    return respond({ status: "failed" });
+  };
+
+  try {
+    const monitoringPromise = monitor.startMonitoring(controller.signal);
+    await new Promise((resolve) => setTimeout(resolve, 500));
+    controller.abort();
+    await monitoringPromise;
+
+    assertEquals(triggerBodies.length, 2);
+    assertEquals(triggerBodies[1].get("ref"), "recovery");
+    assertEquals(triggerBodies[1].get("variables[UPGRADE_PHASE]"), "rollback");
+    assertEquals(triggerBodies[1].get("variables[RESTORE_SNAPSHOT]"), "true");
+    assertEquals(
+      events.map((event) => [event.type, event.details.phase ?? null]),
+      [
+        ["plan-detected", null],
+        ["pipeline-triggered", "execute"],
+        ["pipeline-failed", "execute"],
+        ["upgrade-gave-up", null],
+        ["pipeline-triggered", "rollback"],
+        ["pipeline-succeeded", "rollback"],
+      ],
+    );
+  } finally {
+    globalThis.fetch = originalFetch;
+    unsubscribe();
+    logStubs.forEach((logStub) => logStub.restore());
+  }
+});
@@ -1,32 +1,239 @@
-import { type Config } from "config/config.ts";
+import { type ChainConfig } from "config/config.ts";
 import * as cosmos from "src/service/cosmos.ts";
-import * as gitlab from "src/service/gitlab.ts";
+import { publishMonitorEvent } from "src/service/events.ts";
+import { createExecutor, waitForRun } from "src/service/executor.ts";
+import { publishChainStatus } from "src/service/health.ts";
+import {
+  registerChainEndpoints,
+  updateChainGauges,
+} from "src/service/metrics.ts";
+import { NodePool } from "src/service/node-pool.ts";
+import { StateStore } from "src/service/state-store.ts";
+import {
+  AdminAction,
+  AdminActionResult,
+  AdminTarget,
+} from "src/types/admin.ts";
 import { ChainIdentity } from "src/types/chain-identity.ts";
-import { logger } from "src/utils/logger.ts";
+import { MonitorEventSeverity, MonitorEventType } from "src/types/events.ts";
+import {
+  FailedJob,
+  PipelineExecutor,
+  PipelineRun,
+  PipelineTriggerOptions,
+  PipelineWaitOptions,
+  PipelineWaitResult,
+  UpgradeContext,
+} from "src/types/executor.ts";
+import { PipelinePhase, PlanRecordStatus } from "src/types/state.ts";
+import {
+  ChainStatus,
+  LONG_RUNNING_PHASES,
+  MonitorPhase,
+} from "src/types/status.ts";
+import { UpgradePlan, UpgradeVerification } from "src/types/upgrade-plan.ts";
+import { calculateBackoffMs } from "src/utils/backoff.ts";
+import { BlockTimeEstimator } from "src/utils/block-time.ts";
+import { signalAwareDelay } from "src/utils/delay.ts";
+import { runWithRequestChain } from "src/utils/http.ts";
+import { type ChainLogger, createChainLogger } from "src/utils/logger.ts";
+import { createUpgradeTemplateValues } from "src/utils/template.ts";
+import {
+  createPlanVariables,
+  parseVariables,
+} from "src/utils/variable-parser.ts";
 
 const LONG_POLL_INTERVAL_MS = 10_000;
-const POST_UPGRADE_WAIT_MS = 600_000;
 const ERROR_RETRY_INTERVAL_MS = 5_000;
+const PREPARE_RETRY_INTERVAL_MS = 60_000;
+/** Consecutive checks without a plan before a plan counts as cancelled */
+const PLAN_CANCEL_CONFIRMATIONS = 3;
+
+/**
+ * Status recorded for pipelines that did not finish within the pipeline
+ * timeout.
+ */
+const PIPELINE_TIMEOUT_STATUS = "timeout";
+
+/**
+ * Status recorded for pipelines whose status could not be fetched anymore.
+ */
+const PIPELINE_UNKNOWN_STATUS = "unknown";
+
+/**
+ * Plans with these statuses are not picked up again when still scheduled.
+ */
+const FINISHED_PLAN_STATUSES: ReadonlyArray<PlanRecordStatus> = [
+  "completed",
+  "skipped",
+  "gave-up",
+];
+
+/**
+ * Returns the status to record for a finished pipeline wait. Pipelines that
+ * did not finish within the pipeline timeout are recorded as "timeout",
+ * pipelines that could not be polled anymore as "unknown".
+ *
+ * @param result - The result of a wait that was not interrupted by shutdown.
+ * @returns The pipeline status to record.
+ */
+function getWaitStatus(result: PipelineWaitResult): string {
+  switch (result.reason) {
+    case "timeout":
+      return PIPELINE_TIMEOUT_STATUS;
+    case "error":
+      return PIPELINE_UNKNOWN_STATUS;
+    default:
+      return result.status;
+  }
+}
+
+/**
+ * Checks whether a waited-for pipeline is known to have stopped, either
+ * because it reported a terminal status or because it was cancelled after
+ * the wait ended early.
+ *
+ * @param result - The result of the wait.
+ */
+function isRunStopped(result: PipelineWaitResult): boolean {
+  return result.reason === "finished" || result.cancelled;
+}
+
+/**
+ * Lists the post-upgrade checks that did not pass, in this order: the plan
+ * is reported as applied, the node reports a version that differs from the
+ * one before the upgrade, and the block height advanced past the upgrade
+ * height. A missing version or height fails its check.
+ *
+ * @param verification - The collected verification results.
+ * @returns Human-readable descriptions of the failed checks.
+ */
+function getFailedVerificationChecks(
+  verification: Omit<UpgradeVerification, "failedChecks">,
+): string[] {
+  const failedChecks: string[] = [];
+
+  if (verification.appliedHeight === null) {
+    failedChecks.push(
+      `plan "${verification.planName}" not reported as applied`,
+    );
+  }
+  if (
+    verification.currentVersion === null ||
+    verification.currentVersion === verification.previousVersion
+  ) {
+    failedChecks.push(
+      `node version did not change from ${
+        verification.previousVersion ?? "unknown"
+      }`,
+    );
+  }
+  if (
+    verification.currentHeight === null ||
+    verification.currentHeight <= verification.planHeight
+  ) {
+    failedChecks.push(
+      `block height did not advance past ${verification.planHeight}`,
+    );
+  }
+
+  return failedChecks;
+}
+
+/**
+ * Checks whether the upgrade failed for certain: the plan was not applied or
+ * the chain did not produce blocks past the upgrade height. An unchanged
+ * version alone is not conclusive, e.g. when the release keeps its version
+ * string, so it is reported but does not trigger a rollback.
+ *
+ * @param verification - The collected verification results.
+ */
+function hasHardVerificationFailure(
+  verification: UpgradeVerification,
+): boolean {
+  return verification.appliedHeight === null ||
+    verification.currentHeight === null ||
+    verification.currentHeight <= verification.planHeight;
+}
 
 /**
  * Class-based Cosmos blockchain monitor that encapsulates all monitoring state and behavior.
  */
-export class CosmosMonitor {
-  private upgradePlanBlockHeight: number | null = null;
+export class CosmosMonitor implements AdminTarget {
+  private upgradePlan: UpgradePlan | null = null;
   private chainIdentity: ChainIdentity | null = null;
   private isCosmosNodeDown: boolean = false;
+  private isStateRestored: boolean = false;
+  private preparePipelinePromise: Promise<string> | null = null;
+  private prepareFollower: AbortController | null = null;
+  private prepareRetryAt: number = 0;
+  private cyclesSincePlanCheck: number = 0;
+  private missingPlanChecks: number = 0;
+  private phase: MonitorPhase = "idle";
+  private lastHeight: number | null = null;
+  private activePipeline: ChainStatus["activePipeline"] = null;
+  private lastFailedPipeline: ChainStatus["lastFailedPipeline"] = null;
+  private lastError: ChainStatus["lastError"] = null;
+  private nodeDownSince: string | null = null;
+  private lastCycleAt: string = new Date().toISOString();
+  private isPaused: boolean = false;
+  private isForceTriggerRequested: boolean = false;
+  private hasGivenUp: boolean = false;
+  private approachingNotifiedPlan: UpgradePlan | null = null;
+  private readonly blockTime = new BlockTimeEstimator();
+  private readonly log: ChainLogger;
+  private readonly nodePool: NodePool;
+  private readonly stateStore: StateStore;
+  private readonly executor: PipelineExecutor;
 
   constructor(
-    private readonly config: Config,
-  ) {}
+    private readonly config: ChainConfig,
+  ) {
+    this.log = createChainLogger(config.name);
+    this.nodePool = new NodePool(
+      config.cosmosNodeRestUrls,
+      config.nodeLagThresholdBlocks,
+      this.log,
+    );
+    // Dry runs keep their state in memory, so simulated pipelines never
+    // complete a plan for the real deployment
+    this.stateStore = new StateStore(
+      config.stateDir && !config.dryRun
+        ? `${config.stateDir}/${config.name}.json`
+        : null,
+    );
+    this.executor = createExecutor(config);
+    registerChainEndpoints(config.name, [
+      ...config.cosmosNodeRestUrls,
+      this.executor.apiUrl,
+    ]);
+  }
 
   /**
    * Resets all internal state to initial values for memory cleanup.
    */
   reset(): void {
-    this.upgradePlanBlockHeight = null;
+    this.upgradePlan = null;
     this.chainIdentity = null;
     this.isCosmosNodeDown = false;
+    this.isStateRestored = false;
+    this.stopPrepareFollower();
+    this.prepareRetryAt = 0;
+    this.cyclesSincePlanCheck = 0;
+    this.missingPlanChecks = 0;
+    this.phase = "idle";
+    this.lastHeight = null;
+    this.activePipeline = null;
+    this.lastFailedPipeline = null;
+    this.lastError = null;
+    this.nodeDownSince = null;
+    this.lastCycleAt = new Date().toISOString();
+    this.isPaused = false;
+    this.isForceTriggerRequested = false;
+    this.hasGivenUp = false;
+    this.approachingNotifiedPlan = null;
+    this.blockTime.reset();
+    this.nodePool.reset();
   }
 
   /**
@@ -34,51 +241,168 @@ export class CosmosMonitor {
    *
    * @param signal - Optional AbortSignal for graceful shutdown
    */
-  async startMonitoring(signal?: AbortSignal): Promise<void> {
+  startMonitoring(signal?: AbortSignal): Promise<void> {
+    return runWithRequestChain(
+      this.config.name,
+      () => this.runMonitorLoop(signal),
+    );
+  }
+
+  /**
+   * Runs monitoring cycles until the signal is aborted.
+   *
+   * @param signal - Optional AbortSignal for graceful shutdown.
+   */
+  private async runMonitorLoop(signal?: AbortSignal): Promise<void> {
+    this.completeCycle();
+
     while (!signal?.aborted) {
       try {
         const delay = await this.monitorChain(signal);
+        this.completeCycle();
         if (delay !== null) {
-          await this.createSignalAwareDelay(delay, signal);
+          await signalAwareDelay(delay, signal);
         }
       } catch (err) {
-        logger.error(`Monitor loop error: ${err}`);
-        await this.createSignalAwareDelay(ERROR_RETRY_INTERVAL_MS, signal);
+        this.log.error(`Monitor loop error: ${err}`);
+        this.recordError(`Monitor loop error: ${err}`);
+        this.completeCycle();
+        await signalAwareDelay(ERROR_RETRY_INTERVAL_MS, signal);
       }
     }
   }
 
   /**
-   * Creates a signal-aware delay that can be interrupted by AbortSignal.
+   * Marks a monitoring cycle as completed for the liveness watchdog.
+   */
+  private completeCycle(): void {
+    this.lastCycleAt = new Date().toISOString();
+    this.publishStatus();
+  }
+
+  /**
+   * Publishes a lifecycle event of this chain to the event listeners.
    *
-   * @param ms - Delay duration in milliseconds
-   * @param signal - Optional AbortSignal for early termination
-   * @returns Promise that resolves after delay or immediately if aborted
+   * @param type - The event type.
+   * @param severity - The event severity.
+   * @param message - Human-readable description of the event.
+   * @param details - Event specific details.
    */
-  private createSignalAwareDelay(
-    ms: number,
-    signal?: AbortSignal,
-  ): Promise<void> {
-    if (signal?.aborted) return Promise.resolve();
+  private emitEvent(
+    type: MonitorEventType,
+    severity: MonitorEventSeverity,
+    message: string,
+    details: Record<string, unknown> = {},
+  ): void {
+    publishMonitorEvent({
+      type,
+      severity,
+      chain: this.config.name,
+      identity: this.chainIdentity,
+      message,
+      timestamp: new Date().toISOString(),
+      details,
+    });
+  }
 
-    return new Promise<void>((resolve) => {
-      const timeoutId = setTimeout(() => {
-        cleanup();
-        resolve();
-      }, ms);
+  /**
+   * Publishes the status snapshot and gauge metrics of this chain.
+   */
+  private publishStatus(): void {
+    const plan = this.upgradePlan;
+    const nodeReachable = this.phase !== "node-down";
+    const msUntilUpgrade = plan !== null && this.lastHeight !== null
+      ? this.blockTime.estimateMsUntil(this.lastHeight, plan.height)
+      : null;
+    const secondsUntilUpgrade = msUntilUpgrade === null
+      ? null
+      : Math.round(msUntilUpgrade / 1000);
 
-      const abortHandler = () => {
-        cleanup();
-        resolve();
-      };
+    publishChainStatus({
+      chain: this.config.name,
+      phase: this.phase,
+      paused: this.isPaused,
+      identity: this.chainIdentity,
+      activeNode: this.nodePool.activeNode,
+      lastHeight: this.lastHeight,
+      upgradePlan: plan,
+      secondsUntilUpgrade,
+      activePipeline: this.activePipeline,
+      lastFailedPipeline: this.lastFailedPipeline,
+      lastError: this.lastError,
+      nodeDownSince: this.nodeDownSince,
+      lastCycleAt: this.lastCycleAt,
+      updatedAt: new Date().toISOString(),
+    });
+    updateChainGauges(this.config.name, {
+      identity: this.chainIdentity,
+      nodeReachable,
+      blockHeight: nodeReachable ? this.lastHeight : null,
+      planHeight: plan?.height ?? null,
+      secondsUntilUpgrade,
+    });
+  }
 
-      const cleanup = () => {
-        clearTimeout(timeoutId);
-        signal?.removeEventListener("abort", abortHandler);
-      };
+  /**
+   * Switches to the given phase and publishes the status.
+   *
+   * @param phase - The new monitor phase.
+   */
+  private setPhase(phase: MonitorPhase): void {
+    if (phase !== "node-down" && this.nodeDownSince !== null) {
+      this.emitEvent(
+        "node-recovered",
+        "info",
+        `Node is back online after being down since ${this.nodeDownSince}`,
+        { nodeDownSince: this.nodeDownSince },
+      );
+      this.nodeDownSince = null;
+    } else if (phase === "node-down" && this.nodeDownSince === null) {
+      this.nodeDownSince = new Date().toISOString();
+      this.emitEvent("node-down", "warning", "Node is unreachable", {
+        activeNode: this.nodePool.activeNode,
+      });
+    }
+    this.phase = phase;
+    this.publishStatus();
+  }
 
-      signal?.addEventListener("abort", abortHandler);
-    });
+  /**
+   * Returns the URL and timing of a recorded pipeline for its events.
+   *
+   * @param planHeight - The upgrade height of the plan.
+   * @param pipelineId - The ID of the pipeline.
+   * @returns The pipeline URL, trigger and finish time and duration, or no
+   * details if the pipeline was not recorded.
+   */
+  private getPipelineTiming(
+    planHeight: number,
+    pipelineId: number,
+  ): Record<string, unknown> {
+    const record = this.stateStore.getPlan(planHeight)?.pipelines.find((
+      pipeline,
+    ) => pipeline.id === pipelineId);
+    if (!record) {
+      return {};
+    }
+
+    return {
+      webUrl: record.webUrl,
+      triggeredAt: record.triggeredAt,
+      finishedAt: record.finishedAt,
+      durationMs: record.finishedAt === null
+        ? null
+        : Date.parse(record.finishedAt) - Date.parse(record.triggeredAt),
+    };
+  }
+
+  /**
+   * Remembers an error for the status snapshot.
+   *
+   * @param message - The error message.
+   */
+  private recordError(message: string): void {
+    this.lastError = { message, timestamp: new Date().toISOString() };
   }
 
   /**
@@ -87,12 +411,13 @@ export class CosmosMonitor {
    * @param identity - The chain identity object containing node details.
    */
   private logChainIdentity(identity: ChainIdentity): void {
-    logger.info(`Node ID: ${identity.nodeId}`);
-    logger.info(`Listen Address: ${identity.listenAddr}`);
-    logger.info(`Network: ${identity.network}`);
-    logger.info(`Moniker: ${identity.moniker}`);
-    logger.info(`Version: ${identity.version}`);
-    logger.info(`RPC Address: ${identity.rpcAddress}`);
+    this.log.info(`Node ID: ${identity.nodeId}`);
+    this.log.info(`Listen Address: ${identity.listenAddr}`);
+    this.log.info(`Network: ${identity.network}`);
+    this.log.info(`Moniker: ${identity.moniker}`);
+    this.log.info(`Version: ${identity.version}`);
+    this.log.info(`RPC Address: ${identity.rpcAddress}`);
+    this.log.info(`Active REST endpoint: ${this.nodePool.activeNode}`);
   }
 
   /**
@@ -106,12 +431,12 @@ export class CosmosMonitor {
       return this.chainIdentity;
     }
 
-    this.chainIdentity = await cosmos.getChainIdentity(
-      this.config.cosmosNodeRestUrl,
-    );
+    this.chainIdentity = await this.nodePool.query(cosmos.getChainIdentity);
     if (this.chainIdentity === null) {
-      logger.warn(
-        `Node ${this.config.cosmosNodeRestUrl} is not reachable or not ready to accept requests`,
+      this.log.warn(
+        `No node of ${
+          this.config.cosmosNodeRestUrls.join(", ")
+        } is reachable or ready to accept requests`,
       );
       return null;
     }
@@ -129,22 +454,20 @@ export class CosmosMonitor {
   private async checkNodeLiveness(): Promise<
     { currentHeight: number | null; shouldWait: boolean }
   > {
-    const currentHeight = await cosmos.getBlockHeight(
-      this.config.cosmosNodeRestUrl,
-    );
+    const currentHeight = await this.nodePool.refreshHeights();
 
     if (!currentHeight) {
       if (!this.isCosmosNodeDown) {
         this.isCosmosNodeDown = true;
       }
-      logger.warn(
+      this.log.warn(
         `Waiting for node with identity ${this.chainIdentity!.moniker}`,
       );
       return { currentHeight: null, shouldWait: true };
     }
 
     if (this.isCosmosNodeDown) {
-      logger.info(
+      this.log.info(
         `Node with identity ${this.chainIdentity!.moniker} is back online`,
       );
       this.logChainIdentity(this.chainIdentity!);
@@ -154,31 +477,807 @@ export class CosmosMonitor {
     return { currentHeight, shouldWait: false };
   }
 
+  /**
+   * Restores a pending upgrade plan from the persisted state once per
+   * monitoring session, so a restart resumes where the monitor left off.
+   *
+   * @param signal - Optional AbortSignal for graceful shutdown.
+   */
+  private async restoreState(signal?: AbortSignal): Promise<void> {
+    if (this.isStateRestored) {
+      return;
+    }
+    this.isStateRestored = true;
+
+    await this.stateStore.load();
+    const pendingPlan = this.stateStore.getPendingPlan();
+    if (pendingPlan === null) {
+      return;
+    }
+
+    this.upgradePlan = pendingPlan.plan;
+    this.log.info(
+      `Resuming pending upgrade plan "${pendingPlan.plan.name}" at height ${pendingPlan.plan.height} from persisted state`,
+    );
+
+    const inFlightPipeline = this.stateStore.getInFlightPipeline(
+      pendingPlan.plan.height,
+    );
+    if (inFlightPipeline !== null) {
+      this.log.info(
+        `Pipeline ${inFlightPipeline.id} (${inFlightPipeline.webUrl}) is still in flight and will be re-attached`,
+      );
+    }
+
+    const inFlightPreparePipeline = this.stateStore.getInFlightPipeline(
+      pendingPlan.plan.height,
+      "prepare",
+    );
+    if (inFlightPreparePipeline !== null) {
+      this.log.info(
+        `Re-attaching to in-flight prepare pipeline ${inFlightPreparePipeline.id}`,
+      );
+      this.followPreparePipeline(
+        pendingPlan.plan.height,
+        inFlightPreparePipeline,
+        signal,
+      );
+    }
+  }
+
+  /**
+   * Logs upgrade plan details.
+   *
+   * @param plan - The detected upgrade plan.
+   */
+  private logUpgradePlan(plan: UpgradePlan): void {
+    this.log.info(
+      `Upgrade plan detected for ${this.chainIdentity!.moniker} (${
+        this.chainIdentity!.network
+      }): Height ${plan.height}`,
+    );
+    this.log.info(`Plan Name: ${plan.name}`);
+    if (plan.time) {
+      this.log.info(`Plan Time: ${plan.time}`);
+    }
+    this.log.info(`Plan Info: ${plan.info || "(none)"}`);
+    for (const [platform, binary] of Object.entries(plan.binaries)) {
+      this.log.info(
+        `Binary ${platform}: ${binary.url} (checksum: ${
+          binary.checksum ?? "none"
+        })`,
+      );
+    }
+  }
+
   /**
    * Detects and caches upgrade plan information.
    * Logs upgrade detection when plan is first discovered.
+   * Plans that were already completed or skipped are ignored.
+   * A known plan is re-validated every `planRevalidateCycles` cycles until
+   * its upgrade height is reached.
+   *
+   * @param currentHeight - The current blockchain height.
    */
-  private async detectUpgradePlan(): Promise<void> {
-    if (this.upgradePlanBlockHeight !== null) {
+  private async detectUpgradePlan(currentHeight: number): Promise<void> {
+    if (this.upgradePlan !== null) {
+      this.cyclesSincePlanCheck++;
+      if (
+        currentHeight >= this.upgradePlan.height ||
+        this.cyclesSincePlanCheck < this.config.planRevalidateCycles
+      ) {
+        return;
+      }
+    }
+    this.cyclesSincePlanCheck = 0;
+
+    const result = await this.nodePool.query(cosmos.getUpgradePlan);
+    if (result === null) {
       return;
     }
 
-    this.upgradePlanBlockHeight = await cosmos.getUpgradePlanBlockHeight(
-      this.config.cosmosNodeRestUrl,
+    if (this.upgradePlan !== null) {
+      await this.revalidateUpgradePlan(this.upgradePlan, result.plan);
+      return;
+    }
+
+    const plan = result.plan;
+    const knownStatus = plan && this.stateStore.getPlan(plan.height)?.status;
+    if (
+      plan === null ||
+      (knownStatus && FINISHED_PLAN_STATUSES.includes(knownStatus))
+    ) {
+      return;
+    }
+
+    this.upgradePlan = plan;
+    this.hasGivenUp = false;
+    await this.stateStore.recordPlanDetected(
+      plan,
+      this.chainIdentity?.version || null,
+    );
+    this.logUpgradePlan(plan);
+    this.emitEvent(
+      "plan-detected",
+      "info",
+      `Upgrade plan "${plan.name}" detected at height ${plan.height}`,
+      { planName: plan.name, planHeight: plan.height, planTime: plan.time },
     );
+  }
 
-    if (this.upgradePlanBlockHeight !== null) {
-      logger.info(
-        `Upgrade plan detected for ${this.chainIdentity!.moniker} (${
-          this.chainIdentity!.network
-        }): Height ${this.upgradePlanBlockHeight}`,
+  /**
+   * Compares the known plan with the plan currently scheduled on chain.
+   * A plan that is missing on several consecutive checks was cancelled and
+   * its pending trigger is aborted; a single empty response, e.g. of a
+   * lagging node, is re-checked on the next cycle. A plan with a different
+   * height or name was rescheduled and the pending trigger is retargeted to
+   * the new plan.
+   *
+   * @param knownPlan - The plan the monitor is waiting for.
+   * @param currentPlan - The plan currently scheduled on chain, if any.
+   */
+  private async revalidateUpgradePlan(
+    knownPlan: UpgradePlan,
+    currentPlan: UpgradePlan | null,
+  ): Promise<void> {
+    if (currentPlan === null) {
+      this.missingPlanChecks++;
+      if (this.missingPlanChecks < PLAN_CANCEL_CONFIRMATIONS) {
+        this.log.warn(
+          `Upgrade plan "${knownPlan.name}" not reported by the node (${this.missingPlanChecks}/${PLAN_CANCEL_CONFIRMATIONS}), checking again`,
+        );
+        this.cyclesSincePlanCheck = this.config.planRevalidateCycles - 1;
+        return;
+      }
+
+      this.missingPlanChecks = 0;
+      this.log.warn(
+        `Upgrade plan cancelled: "${knownPlan.name}" at height ${knownPlan.height} is no longer scheduled. Pending trigger aborted.`,
+      );
+      await this.stateStore.updatePlanStatus(knownPlan.height, "cancelled");
+      this.clearPendingTrigger();
+      this.emitEvent(
+        "plan-cancelled",
+        "warning",
+        `Upgrade plan "${knownPlan.name}" at height ${knownPlan.height} was cancelled`,
+        { planName: knownPlan.name, planHeight: knownPlan.height },
+      );
+      return;
+    }
+    this.missingPlanChecks = 0;
+
+    if (
+      currentPlan.height === knownPlan.height &&
+      currentPlan.name === knownPlan.name
+    ) {
+      return;
+    }
+
+    this.log.warn(
+      `Upgrade plan height changed: "${knownPlan.name}" at height ${knownPlan.height} is now "${currentPlan.name}" at height ${currentPlan.height}. Pending trigger retargeted.`,
+    );
+    await this.stateStore.updatePlanStatus(knownPlan.height, "rescheduled");
+    this.clearPendingTrigger();
+
+    this.upgradePlan = currentPlan;
+    await this.stateStore.recordPlanDetected(
+      currentPlan,
+      this.chainIdentity?.version || null,
+    );
+    this.logUpgradePlan(currentPlan);
+    this.emitEvent(
+      "plan-rescheduled",
+      "warning",
+      `Upgrade plan "${knownPlan.name}" moved from height ${knownPlan.height} to "${currentPlan.name}" at height ${currentPlan.height}`,
+      {
+        planName: currentPlan.name,
+        planHeight: currentPlan.height,
+        previousPlanName: knownPlan.name,
+        previousPlanHeight: knownPlan.height,
+      },
+    );
+  }
+
+  /**
+   * Notifies once per plan when the upgrade is within
+   * `notifyBlocksRemaining` blocks.
+   *
+   * @param currentHeight - The current blockchain height.
+   */
+  private notifyUpgradeApproaching(currentHeight: number): void {
+    const plan = this.upgradePlan;
+    const threshold = this.config.notifyBlocksRemaining;
+    if (
+      plan === null ||
+      threshold <= 0 ||
+      this.approachingNotifiedPlan === plan ||
+      currentHeight >= plan.height
+    ) {
+      return;
+    }
+
+    const blocksRemaining = plan.height - currentHeight;
+    if (blocksRemaining > threshold) {
+      return;
+    }
+
+    this.approachingNotifiedPlan = plan;
+    const msUntilUpgrade = this.blockTime.estimateMsUntil(
+      currentHeight,
+      plan.height,
+    );
+    this.emitEvent(
+      "upgrade-approaching",
+      "info",
+      `Upgrade "${plan.name}" is ${blocksRemaining} blocks away (height ${plan.height})`,
+      {
+        planName: plan.name,
+        planHeight: plan.height,
+        currentHeight,
+        blocksRemaining,
+        secondsUntilUpgrade: msUntilUpgrade === null
+          ? null
+          : Math.round(msUntilUpgrade / 1000),
+      },
+    );
+  }
+
+  /**
+   * Drops the pending plan together with its prepare pipeline tracking.
+   * A prepare pipeline that is still running is no longer awaited.
+   */
+  private clearPendingTrigger(): void {
+    this.upgradePlan = null;
+    this.stopPrepareFollower();
+    this.prepareRetryAt = 0;
+  }
+
+  /**
+   * Stops following the prepare pipeline. The follower ends its wait like on
+   * a shutdown and no longer records the outcome, so it cannot overwrite
+   * state that was reset or retargeted in the meantime.
+   */
+  private stopPrepareFollower(): void {
+    this.prepareFollower?.abort();
+    this.prepareFollower = null;
+    this.preparePipelinePromise = null;
+  }
+
+  /**
+   * Checks whether the upgrade is close enough to trigger the prepare
+   * pipeline, either by the configured block offset or by the lead time
+   * estimated from the observed block time.
+   *
+   * @param currentHeight - The current blockchain height.
+   * @param planHeight - The upgrade height of the plan.
+   */
+  private isWithinPrepareWindow(
+    currentHeight: number,
+    planHeight: number,
+  ): boolean {
+    const { prepareTriggerBlocks, prepareTriggerLeadTimeMs } = this.config;
+
+    if (
+      prepareTriggerBlocks > 0 &&
+      planHeight - currentHeight <= prepareTriggerBlocks
+    ) {
+      return true;
+    }
+
+    const msUntilUpgrade = this.blockTime.estimateMsUntil(
+      currentHeight,
+      planHeight,
+    );
+    return prepareTriggerLeadTimeMs > 0 && msUntilUpgrade !== null &&
+      msUntilUpgrade <= prepareTriggerLeadTimeMs;
+  }
+
+  /**
+   * Follows a prepare pipeline in the background and records its outcome.
+   * The execute phase waits for this pipeline before it is triggered.
+   * Errors while recording the outcome are logged and count as a failed
+   * prepare pipeline.
+   *
+   * @param planHeight - The upgrade height of the plan.
+   * @param pipeline - The prepare pipeline run.
+   * @param signal - Optional AbortSignal for graceful shutdown.
+   */
+  private followPreparePipeline(
+    planHeight: number,
+    pipeline: PipelineRun,
+    signal?: AbortSignal,
+  ): void {
+    const pipelineId = pipeline.id;
+    this.activePipeline = {
+      id: pipelineId,
+      phase: "prepare",
+      webUrl: this.executor.getUrl(pipeline),
+    };
+    const follower = new AbortController();
+    this.prepareFollower = follower;
+    this.preparePipelinePromise = waitForRun(
+      this.executor,
+      pipeline,
+      this.createWaitOptions(
+        signal ? AbortSignal.any([signal, follower.signal]) : follower.signal,
+      ),
+    ).then(async (result) => {
+      if (follower.signal.aborted) {
+        this.log.info(
+          `Stopped following prepare pipeline ${pipelineId} after a reset`,
+        );
+        return result.status;
+      }
+
+      if (result.reason === "shutdown") {
+        await this.recordPipelineInterrupted(planHeight, result, pipelineId);
+        return result.status;
+      }
+
+      const status = getWaitStatus(result);
+      await this.stateStore.recordPipelineFinished(
+        planHeight,
+        pipelineId,
+        status,
+      );
+      if (this.activePipeline?.id === pipelineId) {
+        this.activePipeline = null;
+      }
+      if (status === "success") {
+        this.log.info(`Prepare pipeline with id ${pipelineId} succeeded.`);
+        this.emitEvent(
+          "pipeline-succeeded",
+          "info",
+          `Prepare pipeline ${pipelineId} succeeded`,
+          {
+            phase: "prepare",
+            pipelineId,
+            planHeight,
+            status,
+            ...this.getPipelineTiming(planHeight, pipelineId),
+          },
+        );
+      } else {
+        this.log.error(
+          `Prepare pipeline with id ${pipelineId} finished with status: ${status}`,
+        );
+        const failedJobs = await this.reportFailedPipeline(
+          pipeline,
+          "prepare",
+          result,
+        );
+        this.recordError(
+          `Prepare pipeline ${pipelineId} finished with status ${status}`,
+        );
+        this.emitEvent(
+          "pipeline-failed",
+          "warning",
+          `Prepare pipeline ${pipelineId} finished with status ${status}`,
+          {
+            phase: "prepare",
+            pipelineId,
+            planHeight,
+            status,
+            failedJobs,
+            ...this.getPipelineTiming(planHeight, pipelineId),
+          },
+        );
+      }
+      return status;
+    }).catch((err) => {
+      this.log.error(`Failed to follow prepare pipeline ${pipelineId}:`, err);
+      this.recordError(
+        `Failed to follow prepare pipeline ${pipelineId}: ${err}`,
+      );
+      return "failed";
+    });
+  }
+
+  /**
+   * Triggers the prepare pipeline once per plan when the upgrade height is
+   * within the configured pre-upgrade window.
+   *
+   * @param currentHeight - The current blockchain height.
+   * @param signal - Optional AbortSignal for graceful shutdown.
+   */
+  private async handlePrepareTrigger(
+    currentHeight: number,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    const plan = this.upgradePlan;
+    const { prepareTriggerBlocks, prepareTriggerLeadTimeMs } = this.config;
+
+    if (plan === null || this.isPaused) {
+      return;
+    }
+
+    const planHeight = plan.height;
+    if (
+      currentHeight >= planHeight ||
+      (prepareTriggerBlocks === 0 && prepareTriggerLeadTimeMs === 0) ||
+      Date.now() < this.prepareRetryAt ||
+      this.stateStore.hasPipeline(planHeight, "prepare") ||
+      !this.isWithinPrepareWindow(currentHeight, planHeight)
+    ) {
+      return;
+    }
+
+    this.log.info(
+      `Upgrade at height ${planHeight} is ${
+        planHeight - currentHeight
+      } blocks away. Triggering prepare pipeline.`,
+    );
+
+    const upgrade = this.createUpgradeContext(plan, "prepare");
+    const started = await this.findOrTriggerPipeline({
+      ref: this.config.prepareCicdUpdateBranch,
+      variables: {
+        ...createPlanVariables(plan),
+        ...parseVariables(
+          this.config.prepareCicdVariables,
+          "PREPARE_CICD_VARIABLES",
+          createUpgradeTemplateValues(upgrade),
+        ),
+        UPGRADE_PHASE: "prepare",
+      },
+      upgrade,
+      signal,
+    });
+
+    if (started === null) {
+      this.log.error(
+        `Failed to trigger prepare pipeline! Retrying in ${
+          PREPARE_RETRY_INTERVAL_MS / 1000
+        } seconds.`,
+      );
+      this.recordError("Failed to trigger prepare pipeline");
+      this.prepareRetryAt = Date.now() + PREPARE_RETRY_INTERVAL_MS;
+      return;
+    }
+
+    const { pipeline, attached } = started;
+    await this.stateStore.recordPipelineTriggered(
+      planHeight,
+      pipeline,
+      "prepare",
+    );
+    this.emitEvent(
+      "pipeline-triggered",
+      "info",
+      `Prepare pipeline ${pipeline.id} ${
+        attached ? "attached" : "triggered"
+      } for upgrade "${plan.name}"`,
+      {
+        phase: "prepare",
+        pipelineId: pipeline.id,
+        webUrl: this.executor.getUrl(pipeline),
+        planName: plan.name,
+        planHeight,
+        attached,
+      },
+    );
+    this.followPreparePipeline(planHeight, pipeline, signal);
+  }
+
+  /**
+   * Triggers a pipeline, unless the executor finds one that was already
+   * started for the same upgrade phase, e.g. by hand or by another instance.
+   * Pipelines recorded as finished for the plan and phase are never attached
+   * to again.
+   *
+   * @param options - The trigger options.
+   * @returns The pipeline and whether it existed before, or null if
+   * triggering failed.
+   */
+  private async findOrTriggerPipeline(
+    options: PipelineTriggerOptions,
+  ): Promise<{ pipeline: PipelineRun; attached: boolean } | null> {
+    const finishedIds = options.upgrade
+      ? this.stateStore.getFinishedPipelineIds(
+        options.upgrade.plan.height,
+        options.upgrade.phase,
+      )
+      : [];
+    const existing = await this.executor.findRun?.(options, finishedIds) ??
+      null;
+    if (existing !== null) {
+      this.log.info(
+        `Attaching to existing pipeline ${existing.id} instead of triggering a new one`,
+      );
+      return { pipeline: existing, attached: true };
+    }
+
+    const pipeline = await this.executor.trigger(options);
+    return pipeline === null ? null : { pipeline, attached: false };
+  }
+
+  /**
+   * Describes the upgrade a pipeline is triggered for.
+   *
+   * @param plan - The upgrade plan.
+   * @param phase - The phase the pipeline is triggered for.
+   * @returns The upgrade context passed to the executor.
+   */
+  private createUpgradeContext(
+    plan: UpgradePlan,
+    phase: PipelinePhase,
+  ): UpgradeContext {
+    return {
+      chainId: this.chainIdentity?.network ?? "",
+      moniker: this.chainIdentity?.moniker ?? "",
+      version: this.chainIdentity?.version ?? "",
+      plan,
+      phase,
+    };
+  }
+
+  /**
+   * Creates the options for waiting for a pipeline of this chain.
+   *
+   * @param signal - Optional AbortSignal for graceful shutdown.
+   * @returns The configured timeout and cancellation behaviour.
+   */
+  private createWaitOptions(signal?: AbortSignal): PipelineWaitOptions {
+    return {
+      signal,
+      timeoutMs: this.config.pipelineTimeoutMs,
+      cancelOnAbort: this.config.cancelPipelineOnAbort,
+    };
+  }
+
+  /**
+   * Handles a pipeline wait interrupted by a shutdown. A cancelled pipeline
+   * is recorded as canceled, otherwise it stays in flight and is re-attached
+   * after the restart.
+   *
+   * @param planHeight - The upgrade height of the plan.
+   * @param result - The interrupted wait.
+   * @param pipelineId - The ID of the pipeline.
+   */
+  private async recordPipelineInterrupted(
+    planHeight: number,
+    result: PipelineWaitResult,
+    pipelineId: number,
+  ): Promise<void> {
+    if (result.cancelled) {
+      await this.stateStore.recordPipelineFinished(
+        planHeight,
+        pipelineId,
+        "canceled",
+      );
+    }
+    if (this.activePipeline?.id === pipelineId) {
+      this.activePipeline = null;
+    }
+    this.log.warn(
+      `Shutdown while waiting for pipeline ${pipelineId}: ${
+        result.cancelled
+          ? "pipeline cancelled"
+          : "pipeline left running and re-attached after restart"
+      }`,
+    );
+  }
+
+  /**
+   * Logs the failed jobs of a pipeline that did not succeed and remembers
+   * them for the status snapshot. Jobs are only listed for finished
+   * pipelines, not for pipelines that exceeded the timeout.
+   *
+   * @param pipeline - The pipeline run.
+   * @param phase - The phase the pipeline ran for.
+   * @param result - The outcome of waiting for the pipeline.
+   * @returns The failed jobs of the pipeline.
+   */
+  private async reportFailedPipeline(
+    pipeline: PipelineRun,
+    phase: PipelinePhase,
+    result: PipelineWaitResult,
+  ): Promise<FailedJob[]> {
+    const failedJobs = result.reason === "finished"
+      ? await this.executor.getFailedJobs?.(pipeline) ?? []
+      : [];
+
+    for (const job of failedJobs) {
+      this.log.error(
+        `Job "${job.name}" (stage ${job.stage}) failed: ${job.webUrl}${
+          job.logExcerpt ? `\n${job.logExcerpt}` : ""
+        }`,
+      );
+    }
+
+    this.lastFailedPipeline = {
+      id: pipeline.id,
+      phase,
+      status: getWaitStatus(result),
+      webUrl: this.executor.getUrl(pipeline),
+      failedJobs,
+    };
+    return failedJobs;
+  }
+
+  /**
+   * Waits for a running prepare pipeline before the execute phase starts.
+   */
+  private async awaitPreparePipeline(): Promise<void> {
+    if (this.preparePipelinePromise === null) {
+      return;
+    }
+
+    this.log.info("Waiting for prepare pipeline to finish before upgrading");
+    const status = await this.preparePipelinePromise;
+    this.preparePipelinePromise = null;
+
+    if (status !== "success") {
+      this.log.warn(
+        `Prepare pipeline finished with status ${status}. Continuing with the upgrade pipeline.`,
       );
     }
   }
 
+  /**
+   * Triggers the update pipeline for the plan at the given height, or returns
+   * the pipeline already in flight for it after a restart.
+   *
+   * @param plan - The upgrade plan.
+   * @param signal - Optional AbortSignal for graceful shutdown.
+   * @returns The pipeline run, or null if triggering failed or a shutdown
+   * interrupted the wait for the prepare pipeline.
+   */
+  private async startOrResumePipeline(
+    plan: UpgradePlan,
+    signal?: AbortSignal,
+  ): Promise<PipelineRun | null> {
+    const inFlightPipeline = this.stateStore.getInFlightPipeline(plan.height);
+    if (inFlightPipeline !== null) {
+      this.log.info(
+        `Re-attaching to in-flight pipeline ${inFlightPipeline.id}`,
+      );
+      this.activePipeline = {
+        id: inFlightPipeline.id,
+        phase: "execute",
+        webUrl: this.executor.getUrl(inFlightPipeline),
+      };
+      return inFlightPipeline;
+    }
+
+    await this.awaitPreparePipeline();
+    if (signal?.aborted) {
+      return null;
+    }
+
+    const started = await this.findOrTriggerPipeline({
+      variables: { ...createPlanVariables(plan), UPGRADE_PHASE: "execute" },
+      upgrade: this.createUpgradeContext(plan, "execute"),
+      signal,
+    });
+    if (started === null) {
+      return null;
+    }
+
+    const { pipeline, attached } = started;
+    await this.stateStore.recordPipelineTriggered(plan.height, pipeline);
+    this.activePipeline = {
+      id: pipeline.id,
+      phase: "execute",
+      webUrl: this.executor.getUrl(pipeline),
+    };
+    this.emitEvent(
+      "pipeline-triggered",
+      "info",
+      `Upgrade pipeline ${pipeline.id} ${
+        attached ? "attached" : "triggered"
+      } for upgrade "${plan.name}"`,
+      {
+        phase: "execute",
+        pipelineId: pipeline.id,
+        webUrl: this.executor.getUrl(pipeline),
+        planName: plan.name,
+        planHeight: plan.height,
+        attached,
+      },
+    );
+    return pipeline;
+  }
+
+  /**
+   * Verifies an upgrade after its pipeline succeeded. Polls until the plan is
+   * reported as applied, the node reports a new version and the block height
+   * advances past the upgrade height, or until the verification timeout.
+   *
+   * @param plan - The upgrade plan.
+   * @param previousVersion - The node version before the upgrade, if known.
+   * @param signal - Optional AbortSignal for graceful shutdown.
+   * @returns The verification results.
+   */
+  private async verifyUpgrade(
+    plan: UpgradePlan,
+    previousVersion: string | null,
+    signal?: AbortSignal,
+  ): Promise<UpgradeVerification> {
+    const deadline = Date.now() + this.config.postUpgradeVerifyTimeoutMs;
+    const verification: UpgradeVerification = {
+      planName: plan.name,
+      planHeight: plan.height,
+      appliedHeight: null,
+      previousVersion,
+      currentVersion: null,
+      currentHeight: null,
+      failedChecks: [],
+    };
+
+    this.log.info(
+      `Verifying upgrade "${plan.name}" for up to ${
+        this.config.postUpgradeVerifyTimeoutMs / 60000
+      } minutes.`,
+    );
+
+    while (!signal?.aborted) {
+      const appliedHeight = await this.nodePool.query((url) =>
+        cosmos.getAppliedPlanHeight(url, plan.name)
+      );
+      if (appliedHeight) {
+        verification.appliedHeight = appliedHeight;
+      }
+
+      const identity = await this.nodePool.query(cosmos.getChainIdentity);
+      if (identity !== null) {
+        this.chainIdentity = identity;
+        verification.currentVersion = identity.version;
+      }
+
+      const currentHeight = await this.nodePool.refreshHeights();
+      if (currentHeight !== null) {
+        verification.currentHeight = currentHeight;
+        this.lastHeight = currentHeight;
+      }
+      this.publishStatus();
+
+      verification.failedChecks = getFailedVerificationChecks(verification);
+      if (verification.failedChecks.length === 0 || Date.now() >= deadline) {
+        break;
+      }
+
+      await signalAwareDelay(this.config.pollIntervalMs, signal);
+    }
+
+    return verification;
+  }
+
+  /**
+   * Logs and publishes the outcome of the post-upgrade verification.
+   *
+   * @param verification - The verification results.
+   */
+  private reportVerification(verification: UpgradeVerification): void {
+    const { planName, failedChecks } = verification;
+
+    if (failedChecks.length === 0) {
+      const message =
+        `Upgrade "${planName}" verified: applied at height ${verification.appliedHeight}, version ${
+          verification.previousVersion ?? "unknown"
+        } -> ${verification.currentVersion}, height ${verification.currentHeight}`;
+      this.log.info(message);
+      this.emitEvent("upgrade-verified", "info", message, verification);
+      return;
+    }
+
+    const message = `Upgrade "${planName}" verification failed: ${
+      failedChecks.join(", ")
+    }`;
+    this.log.critical(message);
+    this.recordError(message);
+    this.emitEvent(
+      "upgrade-verification-failed",
+      "critical",
+      message,
+      verification,
+    );
+  }
+
   /**
    * Handles upgrade execution when current height reaches upgrade height.
-   * Manages post-upgrade cleanup and waiting periods.
+   * Verifies the upgrade after a successful pipeline and waits before
+   * re-attempting a failed one.
    *
    * @param currentHeight - The current blockchain height.
    * @param signal - Optional AbortSignal for graceful shutdown.
@@ -188,43 +1287,429 @@ export class CosmosMonitor {
     currentHeight: number,
     signal?: AbortSignal,
   ): Promise<{ executed: boolean; shouldContinue: boolean }> {
+    const plan = this.upgradePlan;
     if (
-      !this.upgradePlanBlockHeight ||
-      currentHeight < this.upgradePlanBlockHeight
+      plan === null || this.isPaused ||
+      (currentHeight < plan.height &&
+        this.stateStore.getInFlightPipeline(plan.height) === null &&
+        !this.isForceTriggerRequested)
     ) {
       return { executed: false, shouldContinue: true };
     }
+    this.isForceTriggerRequested = false;
 
-    const pipelineFinishedSuccessful = await gitlab.triggerGitlabUpdatePipeline(
-      this.config,
-    );
+    const planHeight = plan.height;
+    const previousVersion = this.stateStore.getPlan(planHeight)
+      ?.previousVersion ?? null;
+    this.setPhase("triggering");
+    const pipeline = await this.startOrResumePipeline(plan, signal);
+    const pipelineId = pipeline?.id ?? null;
+    let waitResult: PipelineWaitResult | null = null;
+    let finalStatus: string | null = null;
+
+    if (pipeline === null && signal?.aborted) {
+      return { executed: false, shouldContinue: false };
+    }
 
-    if (pipelineFinishedSuccessful) {
-      logger.info(
-        `Pipeline finished successfully. Pause monitoring for ${
-          POST_UPGRADE_WAIT_MS / 60000
-        } minutes.`,
+    if (pipeline !== null) {
+      this.setPhase("awaiting-pipeline");
+      waitResult = await waitForRun(
+        this.executor,
+        pipeline,
+        this.createWaitOptions(signal),
       );
-      this.upgradePlanBlockHeight = null;
-      await this.createSignalAwareDelay(POST_UPGRADE_WAIT_MS, signal);
-      logger.info(
+      if (waitResult.reason === "shutdown") {
+        await this.recordPipelineInterrupted(
+          planHeight,
+          waitResult,
+          pipeline.id,
+        );
+        return { executed: true, shouldContinue: false };
+      }
+
+      finalStatus = getWaitStatus(waitResult);
+      await this.stateStore.recordPipelineFinished(
+        planHeight,
+        pipeline.id,
+        finalStatus,
+      );
+      this.activePipeline = null;
+    }
+
+    if (finalStatus === "success") {
+      this.log.info(`Pipeline with id ${pipelineId} succeeded.`);
+      this.emitEvent(
+        "pipeline-succeeded",
+        "info",
+        `Upgrade pipeline ${pipelineId} succeeded`,
+        {
+          phase: "execute",
+          pipelineId,
+          planName: plan.name,
+          planHeight,
+          status: finalStatus,
+          ...this.getPipelineTiming(planHeight, pipelineId!),
+        },
+      );
+      await this.stateStore.updatePlanStatus(planHeight, "completed");
+      this.upgradePlan = null;
+      this.setPhase("post-upgrade-wait");
+
+      const verification = await this.verifyUpgrade(
+        plan,
+        previousVersion,
+        signal,
+      );
+      if (signal?.aborted) {
+        return { executed: true, shouldContinue: false };
+      }
+      this.reportVerification(verification);
+      if (hasHardVerificationFailure(verification)) {
+        await this.runRollbackPipeline(
+          plan,
+          "upgrade verification failed",
+          signal,
+        );
+      }
+
+      this.log.info(
         `Upgrade completed for ${this.chainIdentity!.moniker} (${
           this.chainIdentity!.network
         }). Monitoring resumed.`,
       );
-      this.chainIdentity = await cosmos.getChainIdentity(
-        this.config.cosmosNodeRestUrl,
-      );
       return { executed: true, shouldContinue: true };
     } else {
-      logger.critical(
-        `Failed to trigger pipeline! Upgrade will be re-attempted next cycle.`,
+      let failedJobs: FailedJob[] = [];
+      if (pipeline !== null && waitResult !== null) {
+        this.log.error(
+          `Pipeline with id ${pipelineId} finished with status: ${finalStatus}`,
+        );
+        failedJobs = await this.reportFailedPipeline(
+          pipeline,
+          "execute",
+          waitResult,
+        );
+      }
+      const message = finalStatus === null
+        ? `Failed to trigger upgrade pipeline for "${plan.name}"`
+        : `Upgrade pipeline ${pipelineId} finished with status ${finalStatus}`;
+      this.recordError(message);
+      const isStopped = waitResult === null || isRunStopped(waitResult);
+      const attempt = await this.stateStore.recordFailedAttempt(planHeight);
+      const giveUpReason = this.getGiveUpReason(
+        finalStatus,
+        attempt,
+        isStopped,
       );
-      await this.createSignalAwareDelay(POST_UPGRADE_WAIT_MS, signal);
+      const retryInMs = giveUpReason === null
+        ? calculateBackoffMs(
+          attempt,
+          this.config.pipelineRetryBackoffMs,
+          this.config.pipelineRetryMaxBackoffMs,
+        )
+        : null;
+      this.emitEvent("pipeline-failed", "critical", message, {
+        phase: "execute",
+        pipelineId,
+        planName: plan.name,
+        planHeight,
+        status: finalStatus,
+        ...(pipelineId === null
+          ? {}
+          : this.getPipelineTiming(planHeight, pipelineId)),
+        cancelled: waitResult?.cancelled ?? false,
+        failedJobs,
+        attempt,
+        maxAttempts: this.config.pipelineMaxAttempts,
+        retryInMs,
+      });
+
+      if (giveUpReason !== null) {
+        await this.giveUpUpgrade(plan, giveUpReason, isStopped, signal);
+        return { executed: true, shouldContinue: true };
+      }
+
+      this.log.critical(
+        `Upgrade attempt ${attempt} failed! Retrying in ${
+          retryInMs! / 1000
+        } seconds.`,
+      );
+      this.setPhase("retry-wait");
+      await signalAwareDelay(retryInMs!, signal);
       return { executed: true, shouldContinue: true };
     }
   }
 
+  /**
+   * Decides whether a failed upgrade is retried. Trigger failures are always
+   * retryable, finished pipelines only with a retryable status. A pipeline
+   * that timed out or could not be polled is only retried once it was
+   * cancelled, so two upgrade pipelines never run at the same time.
+   *
+   * @param status - The final pipeline status, or null if triggering failed.
+   * @param attempt - The number of failed attempts so far.
+   * @param isStopped - Whether the pipeline is known to have stopped.
+   * @returns Why the upgrade is given up, or null to retry it.
+   */
+  private getGiveUpReason(
+    status: string | null,
+    attempt: number,
+    isStopped: boolean,
+  ): string | null {
+    const { pipelineMaxAttempts, pipelineRetryableStatuses } = this.config;
+
+    if (!isStopped) {
+      return "the pipeline was not cancelled and may still be running";
+    }
+    if (status !== null && !pipelineRetryableStatuses.includes(status)) {
+      return `pipeline status ${status} is not retryable`;
+    }
+    if (pipelineMaxAttempts > 0 && attempt >= pipelineMaxAttempts) {
+      return `all ${pipelineMaxAttempts} attempts failed`;
+    }
+    return null;
+  }
+
+  /**
+   * Stops triggering upgrade pipelines for a plan whose upgrade failed for
+   * good, raises an alert and runs the rollback pipeline. The plan is not
+   * picked up again, even after a restart. The rollback is skipped while the
+   * upgrade pipeline may still be running, as both would act on the node at
+   * the same time.
+   *
+   * @param plan - The upgrade plan.
+   * @param reason - Why the upgrade is given up.
+   * @param isStopped - Whether the upgrade pipeline is known to have stopped.
+   * @param signal - Optional AbortSignal for graceful shutdown.
+   */
+  private async giveUpUpgrade(
+    plan: UpgradePlan,
+    reason: string,
+    isStopped: boolean,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    this.log.critical(
+      `Giving up upgrade "${plan.name}" at height ${plan.height}: ${reason}. No further upgrade pipelines will be triggered.`,
+    );
+    await this.stateStore.updatePlanStatus(plan.height, "gave-up");
+    this.clearPendingTrigger();
+    this.hasGivenUp = true;
+    this.emitEvent(
+      "upgrade-gave-up",
+      "critical",
+      `Gave up upgrade "${plan.name}" at height ${plan.height}: ${reason}`,
+      { planName: plan.name, planHeight: plan.height, reason },
+    );
+
+    if (isStopped) {
+      await this.runRollbackPipeline(plan, reason, signal);
+    } else if (this.config.rollbackEnabled) {
+      this.log.warn(
+        `Skipping rollback pipeline for upgrade "${plan.name}": the upgrade pipeline may still be running`,
+      );
+    }
+    this.setPhase("gave-up");
+  }
+
+  /**
+   * Triggers the rollback pipeline once per plan, if enabled, and waits for
+   * it like for the upgrade pipeline. A failed rollback is reported but not
+   * retried.
+   *
+   * @param plan - The upgrade plan.
+   * @param reason - Why the upgrade failed.
+   * @param signal - Optional AbortSignal for graceful shutdown.
+   */
+  private async runRollbackPipeline(
+    plan: UpgradePlan,
+    reason: string,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    const planHeight = plan.height;
+    if (
+      !this.config.rollbackEnabled || signal?.aborted ||
+      this.stateStore.hasPipeline(planHeight, "rollback")
+    ) {
+      return;
+    }
+
+    this.log.warn(
+      `Triggering rollback pipeline for upgrade "${plan.name}": ${reason}`,
+    );
+    this.setPhase("triggering");
+    const upgrade = this.createUpgradeContext(plan, "rollback");
+    const started = await this.findOrTriggerPipeline({
+      ref: this.config.rollbackCicdUpdateBranch,
+      variables: {
+        ...createPlanVariables(plan),
+        ...parseVariables(
+          this.config.rollbackCicdVariables,
+          "ROLLBACK_CICD_VARIABLES",
+          createUpgradeTemplateValues(upgrade),
+        ),
+        UPGRADE_PHASE: "rollback",
+      },
+      upgrade,
+      signal,
+    });
+
+    if (started === null) {
+      const message =
+        `Failed to trigger rollback pipeline for upgrade "${plan.name}"`;
+      this.log.critical(message);
+      this.recordError(message);
+      this.emitEvent("pipeline-failed", "critical", message, {
+        phase: "rollback",
+        pipelineId: null,
+        planHeight,
+        status: null,
+      });
+      return;
+    }
+
+    const { pipeline, attached } = started;
+    const pipelineId = pipeline.id;
+    await this.stateStore.recordPipelineTriggered(
+      planHeight,
+      pipeline,
+      "rollback",
+    );
+    this.activePipeline = {
+      id: pipelineId,
+      phase: "rollback",
+      webUrl: this.executor.getUrl(pipeline),
+    };
+    this.emitEvent(
+      "pipeline-triggered",
+      "warning",
+      `Rollback pipeline ${pipelineId} ${
+        attached ? "attached" : "triggered"
+      } for upgrade "${plan.name}"`,
+      {
+        phase: "rollback",
+        pipelineId,
+        webUrl: this.executor.getUrl(pipeline),
+        planName: plan.name,
+        planHeight,
+        attached,
+        reason,
+      },
+    );
+
+    this.setPhase("awaiting-pipeline");
+    const result = await waitForRun(
+      this.executor,
+      pipeline,
+      this.createWaitOptions(signal),
+    );
+    if (result.reason === "shutdown") {
+      await this.recordPipelineInterrupted(planHeight, result, pipelineId);
+      return;
+    }
+
+    const status = getWaitStatus(result);
+    await this.stateStore.recordPipelineFinished(
+      planHeight,
+      pipelineId,
+      status,
+    );
+    if (this.activePipeline?.id === pipelineId) {
+      this.activePipeline = null;
+    }
+
+    if (status === "success") {
+      this.log.info(`Rollback pipeline with id ${pipelineId} succeeded.`);
+      this.emitEvent(
+        "pipeline-succeeded",
+        "info",
+        `Rollback pipeline ${pipelineId} succeeded`,
+        {
+          phase: "rollback",
+          pipelineId,
+          planHeight,
+          status,
+          ...this.getPipelineTiming(planHeight, pipelineId),
+        },
+      );
+      return;
+    }
+
+    this.log.critical(
+      `Rollback pipeline with id ${pipelineId} finished with status: ${status}`,
+    );
+    const failedJobs = await this.reportFailedPipeline(
+      pipeline,
+      "rollback",
+      result,
+    );
+    const message =
+      `Rollback pipeline ${pipelineId} finished with status ${status}`;
+    this.recordError(message);
+    this.emitEvent("pipeline-failed", "critical", message, {
+      phase: "rollback",
+      pipelineId,
+      planHeight,
+      status,
+      cancelled: result.cancelled,
+      failedJobs,
+      ...this.getPipelineTiming(planHeight, pipelineId),
+    });
+  }
+
+  /**
+   * Runs an admin action. Actions take effect in the next monitoring cycle.
+   * Actions other than pause and resume are rejected while a pipeline is
+   * triggered or awaited, or the upgrade is verified.
+   *
+   * @param action - The admin action.
+   * @returns The outcome of the action.
+   */
+  async runAdminAction(action: AdminAction): Promise<AdminActionResult> {
+    const plan = this.upgradePlan;
+    const isBusy = LONG_RUNNING_PHASES.includes(this.phase);
+    let result: AdminActionResult;
+
+    if (action === "pause") {
+      this.isPaused = true;
+      result = { ok: true, message: "Pipeline triggers paused" };
+    } else if (action === "resume") {
+      this.isPaused = false;
+      result = { ok: true, message: "Pipeline triggers resumed" };
+    } else if (isBusy) {
+      result = { ok: false, message: `Monitor is busy (${this.phase})` };
+    } else if (action === "reset") {
+      this.reset();
+      result = {
+        ok: true,
+        message: "Monitor state reset, persisted state is reloaded",
+      };
+    } else if (plan === null) {
+      result = { ok: false, message: "No pending upgrade plan" };
+    } else if (action === "skip-plan") {
+      await this.stateStore.updatePlanStatus(plan.height, "skipped");
+      this.clearPendingTrigger();
+      result = {
+        ok: true,
+        message: `Upgrade plan "${plan.name}" at height ${plan.height} skipped`,
+      };
+    } else if (this.isPaused) {
+      result = { ok: false, message: "Pipeline triggers are paused" };
+    } else {
+      this.isForceTriggerRequested = true;
+      result = {
+        ok: true,
+        message:
+          `Upgrade pipeline for "${plan.name}" will be triggered in the next cycle`,
+      };
+    }
+
+    if (result.ok) {
+      this.log.warn(`Admin action ${action}: ${result.message}`);
+      this.publishStatus();
+    }
+    return result;
+  }
+
   /**
    * Executes a single monitoring cycle and returns the delay for the next cycle.
    *
@@ -234,19 +1719,34 @@ export class CosmosMonitor {
   private async monitorChain(signal?: AbortSignal): Promise<number | null> {
     if (signal?.aborted) return null;
 
+    await this.restoreState(signal);
+
     const chainIdentity = await this.ensureChainIdentity();
     if (chainIdentity === null) {
+      this.setPhase("node-down");
       return LONG_POLL_INTERVAL_MS;
     }
 
     const { currentHeight, shouldWait } = await this.checkNodeLiveness();
     if (shouldWait) {
+      this.setPhase("node-down");
       return LONG_POLL_INTERVAL_MS;
     }
+    this.lastHeight = currentHeight;
+    this.blockTime.record(currentHeight!);
 
-    await this.detectUpgradePlan();
+    await this.detectUpgradePlan(currentHeight!);
+    this.notifyUpgradeApproaching(currentHeight!);
+    await this.handlePrepareTrigger(currentHeight!, signal);
+    this.setPhase(
+      this.upgradePlan !== null
+        ? "plan-detected"
+        : this.hasGivenUp
+        ? "gave-up"
+        : "idle",
+    );
 
-    if (!this.upgradePlanBlockHeight) {
+    if (this.upgradePlan === null) {
       return this.config.pollIntervalMs;
     }
 
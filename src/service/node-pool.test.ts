@@ -0,0 +1,147 @@
+import { NodePool } from "src/service/node-pool.ts";
+import { createChainLogger, logger } from "src/utils/logger.ts";
+import { assertEquals, assertThrows } from "test-assert";
+import { stub } from "test-mock";
+
+const NODE_A = "http://node-a:1317";
+const NODE_B = "http://node-b:1317";
+
+/**
+ * Replaces fetch with a handler returning block heights per node URL.
+ * A null height makes the request for that node fail.
+ */
+async function withNodeHeights<T>(
+  heights: Record<string, number | null>,
+  testFn: () => Promise<T>,
+): Promise<T> {
+  const originalFetch = globalThis.fetch;
+  const errorStub = stub(logger, "error");
+  const warnStub = stub(logger, "warn");
+  const infoStub = stub(logger, "info");
+  try {
+    globalThis.fetch = (input: string | URL | Request) => {
+      const url = String(input);
+      const node = Object.keys(heights).find((base) => url.startsWith(base));
+      const height = node ? heights[node] : null;
+      if (height === null || height === undefined) {
+        return Promise.reject(new Error("connection refused"));
+      }
+      return Promise.resolve(
+        new Response(
+          JSON.stringify({ block: { header: { height: String(height) } } }),
+          { status: 200 },
+        ),
+      );
+    };
+    return await testFn();
+  } finally {
+    globalThis.fetch = originalFetch;
+    errorStub.restore();
+    warnStub.restore();
+    infoStub.restore();
+  }
+}
+
+function createPool(lagThresholdBlocks: number = 10): NodePool {
+  return new NodePool(
+    [NODE_A, NODE_B],
+    lagThresholdBlocks,
+    createChainLogger("test-chain"),
+  );
+}
+
+Deno.test("NodePool should require at least one endpoint", () => {
+  assertThrows(
+    () => new NodePool([], 10, createChainLogger("test-chain")),
+    Error,
+    "at least one endpoint",
+  );
+});
+
+Deno.test("NodePool should prefer the first endpoint when all are healthy", async () => {
+  const pool = createPool();
+
+  const height = await withNodeHeights(
+    { [NODE_A]: 100, [NODE_B]: 100 },
+    () => pool.refreshHeights(),
+  );
+
+  assertEquals(height, 100);
+  assertEquals(pool.activeNode, NODE_A);
+});
+
+Deno.test("NodePool should fail over when the active endpoint is unreachable", async () => {
+  const pool = createPool();
+
+  const height = await withNodeHeights(
+    { [NODE_A]: null, [NODE_B]: 120 },
+    () => pool.refreshHeights(),
+  );
+
+  assertEquals(height, 120);
+  assertEquals(pool.activeNode, NODE_B);
+  assertEquals(pool.getNodes()[0].consecutiveFailures, 1);
+});
+
+Deno.test("NodePool should demote an endpoint lagging behind its peers", async () => {
+  const pool = createPool(5);
+
+  const height = await withNodeHeights(
+    { [NODE_A]: 100, [NODE_B]: 200 },
+    () => pool.refreshHeights(),
+  );
+
+  assertEquals(height, 200);
+  assertEquals(pool.activeNode, NODE_B);
+  assertEquals(pool.getNodes()[0].lagging, true);
+});
+
+Deno.test("NodePool should return to the preferred endpoint once it recovers", async () => {
+  const pool = createPool();
+
+  await withNodeHeights(
+    { [NODE_A]: null, [NODE_B]: 100 },
+    () => pool.refreshHeights(),
+  );
+  assertEquals(pool.activeNode, NODE_B);
+
+  await withNodeHeights(
+    { [NODE_A]: 101, [NODE_B]: 101 },
+    () => pool.refreshHeights(),
+  );
+  await withNodeHeights(
+    { [NODE_A]: 102, [NODE_B]: 102 },
+    () => pool.refreshHeights(),
+  );
+  await withNodeHeights(
+    { [NODE_A]: 103, [NODE_B]: 103 },
+    () => pool.refreshHeights(),
+  );
+
+  assertEquals(pool.activeNode, NODE_A);
+});
+
+Deno.test("NodePool should return null when no endpoint responds", async () => {
+  const pool = createPool();
+
+  const height = await withNodeHeights(
+    { [NODE_A]: null, [NODE_B]: null },
+    () => pool.refreshHeights(),
+  );
+
+  assertEquals(height, null);
+});
+
+Deno.test("NodePool.query should fail over to the next endpoint", async () => {
+  const pool = createPool();
+  const queried: string[] = [];
+
+  const result = await pool.query((url) => {
+    queried.push(url);
+    return Promise.resolve(url === NODE_B ? "identity" : null);
+  });
+
+  assertEquals(result, "identity");
+  assertEquals(queried, [NODE_A, NODE_B]);
+  assertEquals(pool.activeNode, NODE_B);
+});
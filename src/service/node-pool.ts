@@ -0,0 +1,175 @@
+import * as cosmos from "src/service/cosmos.ts";
+import { NodeStatus } from "src/types/node-pool.ts";
+import { type ChainLogger } from "src/utils/logger.ts";
+
+const MAX_SCORE = 100;
+const SUCCESS_REWARD = 10;
+const FAILURE_PENALTY = 25;
+
+/**
+ * Pool of Cosmos REST endpoints for one chain with health-scored failover.
+ *
+ * Every endpoint starts with the maximum score. Failed requests lower the
+ * score, successful ones restore it. Endpoints whose last request failed or
+ * whose block height falls more than the configured threshold behind their
+ * peers are only used when no healthy endpoint is left.
+ */
+export class NodePool {
+  private readonly nodes: NodeStatus[];
+  private activeUrl: string;
+
+  constructor(
+    urls: string[],
+    private readonly lagThresholdBlocks: number,
+    private readonly log: ChainLogger,
+  ) {
+    if (urls.length === 0) {
+      throw new Error("NodePool requires at least one endpoint");
+    }
+
+    this.nodes = urls.map((url) => ({
+      url,
+      score: MAX_SCORE,
+      lastHeight: null,
+      lagging: false,
+      consecutiveFailures: 0,
+    }));
+    this.activeUrl = urls[0];
+  }
+
+  /**
+   * The endpoint currently preferred for queries.
+   */
+  get activeNode(): string {
+    return this.activeUrl;
+  }
+
+  /**
+   * Returns a copy of the health information of all endpoints.
+   */
+  getNodes(): NodeStatus[] {
+    return this.nodes.map((node) => ({ ...node }));
+  }
+
+  /**
+   * Resets all endpoints to their initial health.
+   */
+  reset(): void {
+    for (const node of this.nodes) {
+      node.score = MAX_SCORE;
+      node.lastHeight = null;
+      node.lagging = false;
+      node.consecutiveFailures = 0;
+    }
+    this.activeUrl = this.nodes[0].url;
+  }
+
+  /**
+   * Runs a query against the healthiest endpoint and fails over to the next
+   * one while the query returns null.
+   *
+   * @param fn - The query to run, receiving the endpoint URL.
+   * @returns The first non-null result, or null if every endpoint failed.
+   */
+  async query<T>(fn: (url: string) => Promise<T | null>): Promise<T | null> {
+    for (const node of this.rankedNodes()) {
+      const result = await fn(node.url);
+      if (result !== null) {
+        this.recordSuccess(node);
+        this.selectActive();
+        return result;
+      }
+      this.recordFailure(node);
+    }
+
+    this.selectActive();
+    return null;
+  }
+
+  /**
+   * Fetches the latest block height from every endpoint, demotes endpoints
+   * lagging behind their peers and returns the height reported by the
+   * healthiest endpoint.
+   *
+   * @returns The current block height, or null if no endpoint responded.
+   */
+  async refreshHeights(): Promise<number | null> {
+    const heights = await Promise.all(
+      this.nodes.map((node) => cosmos.getBlockHeight(node.url)),
+    );
+
+    this.nodes.forEach((node, index) => {
+      const height = heights[index];
+      if (height === null) {
+        this.recordFailure(node);
+      } else {
+        node.lastHeight = height;
+        this.recordSuccess(node);
+      }
+    });
+
+    const reachable = this.nodes.filter((_node, index) =>
+      heights[index] !== null
+    );
+    if (reachable.length === 0) {
+      this.selectActive();
+      return null;
+    }
+
+    const maxHeight = Math.max(...reachable.map((node) => node.lastHeight!));
+    for (const node of reachable) {
+      const lagging = maxHeight - node.lastHeight! > this.lagThresholdBlocks;
+      if (lagging && !node.lagging) {
+        this.log.warn(
+          `Node ${node.url} is lagging at height ${node.lastHeight} (peers at ${maxHeight})`,
+        );
+      } else if (!lagging && node.lagging) {
+        this.log.info(`Node ${node.url} caught up at height ${maxHeight}`);
+      }
+      node.lagging = lagging;
+    }
+
+    this.selectActive();
+    return this.nodes.find((node) => node.url === this.activeUrl)!.lastHeight;
+  }
+
+  /**
+   * Orders endpoints by preference: reachable before failing, non-lagging
+   * before lagging, then by score, then by configured order.
+   */
+  private rankedNodes(): NodeStatus[] {
+    return this.nodes
+      .map((node, index) => ({ node, index }))
+      .sort((a, b) =>
+        Number(a.node.consecutiveFailures > 0) -
+          Number(b.node.consecutiveFailures > 0) ||
+        Number(a.node.lagging) - Number(b.node.lagging) ||
+        b.node.score - a.node.score ||
+        a.index - b.index
+      )
+      .map(({ node }) => node);
+  }
+
+  /**
+   * Updates the active endpoint and logs when it changes.
+   */
+  private selectActive(): void {
+    const best = this.rankedNodes()[0];
+    if (best.url !== this.activeUrl) {
+      this.log.warn(
+        `Switching active node from ${this.activeUrl} to ${best.url}`,
+      );
+      this.activeUrl = best.url;
+    }
+  }
+
+  private recordSuccess(node: NodeStatus): void {
+    node.score = Math.min(MAX_SCORE, node.score + SUCCESS_REWARD);
+    node.consecutiveFailures = 0;
+  }
+
+  private recordFailure(node: NodeStatus): void {
+    node.score = Math.max(0, node.score - FAILURE_PENALTY);
+    node.consecutiveFailures++;
+  }
+}
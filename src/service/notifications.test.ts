@@ -0,0 +1,186 @@
+import { publishMonitorEvent } from "src/service/events.ts";
+import {
+  applyMessageTemplate,
+  formatEmailMessage,
+  formatSlackMessage,
+  formatTeamsMessage,
+  sendNotification,
+  startNotifications,
+} from "src/service/notifications.ts";
+import { MonitorEvent } from "src/types/events.ts";
+import { NotificationChannel } from "src/types/notifications.ts";
+import { logger } from "src/utils/logger.ts";
+import { assertEquals, assertStringIncludes } from "test-assert";
+import { stub } from "test-mock";
+
+const SLACK_CHANNEL: NotificationChannel = {
+  type: "slack",
+  webhookUrl: "https://hooks.slack.com/services/T000/B000/XXX",
+  events: ["pipeline-triggered", "pipeline-failed"],
+};
+
+const TEAMS_CHANNEL: NotificationChannel = {
+  type: "teams",
+  webhookUrl: "https://example.webhook.office.com/webhookb2/abc",
+  events: ["pipeline-failed"],
+};
+
+function createMockEvent(overrides: Partial<MonitorEvent> = {}): MonitorEvent {
+  return {
+    type: "pipeline-triggered",
+    severity: "info",
+    chain: "test-chain",
+    identity: null,
+    message: "Upgrade pipeline 456 triggered",
+    timestamp: new Date(0).toISOString(),
+    details: { pipelineId: 456, webUrl: "https://ci.example.com/runs/456" },
+    ...overrides,
+  };
+}
+
+Deno.test("formatSlackMessage should include the chain, message and pipeline link", () => {
+  const message = formatSlackMessage(createMockEvent());
+  const blocks = message.blocks as Array<{ text?: { text: string } }>;
+
+  assertEquals(
+    message.text,
+    ":information_source: [test-chain] Upgrade pipeline 456 triggered",
+  );
+  assertStringIncludes(
+    blocks[0].text!.text,
+    "<https://ci.example.com/runs/456|View pipeline>",
+  );
+});
+
+Deno.test("formatSlackMessage should escape mrkdwn control characters", () => {
+  const message = formatSlackMessage(createMockEvent({
+    chain: "R&D <test>",
+    message: 'Upgrade plan "<!channel>" at height 100 was cancelled',
+  }));
+  const blocks = message.blocks as Array<{ text?: { text: string } }>;
+
+  assertEquals(
+    message.text,
+    ':information_source: [R&amp;D &lt;test&gt;] Upgrade plan "&lt;!channel&gt;" at height 100 was cancelled',
+  );
+  assertStringIncludes(blocks[0].text!.text, "&lt;!channel&gt;");
+  assertStringIncludes(
+    blocks[0].text!.text,
+    "<https://ci.example.com/runs/456|View pipeline>",
+  );
+});
+
+Deno.test("applyMessageTemplate should render the notification template", () => {
+  const event = createMockEvent();
+
+  assertEquals(applyMessageTemplate(event, ""), event);
+  assertEquals(
+    applyMessageTemplate(event, "{{chain.name}}: {{pipeline.url}}").message,
+    "test-chain: https://ci.example.com/runs/456",
+  );
+});
+
+Deno.test("formatTeamsMessage should build an adaptive card", () => {
+  const message = formatTeamsMessage(
+    createMockEvent({ severity: "critical", details: {} }),
+  );
+  const [attachment] = message.attachments as Array<{
+    contentType: string;
+    content: { body: Array<{ color?: string }>; actions: unknown[] };
+  }>;
+
+  assertEquals(
+    attachment.contentType,
+    "application/vnd.microsoft.card.adaptive",
+  );
+  assertEquals(attachment.content.body[0].color, "Attention");
+  assertEquals(attachment.content.actions, []);
+});
+
+Deno.test("formatEmailMessage should summarise the node, plan and pipeline", () => {
+  const message = formatEmailMessage(
+    createMockEvent({
+      type: "pipeline-succeeded",
+      message: "Upgrade pipeline 456 succeeded",
+      identity: {
+        nodeId: "abc123",
+        listenAddr: "tcp://0.0.0.0:26656",
+        network: "test-1",
+        moniker: "validator",
+        version: "v1.0.0",
+        rpcAddress: "tcp://0.0.0.0:26657",
+      },
+      details: {
+        phase: "execute",
+        pipelineId: 456,
+        planName: "v2",
+        planHeight: 100,
+        status: "success",
+        webUrl: "https://ci.example.com/runs/456",
+        triggeredAt: "2026-01-01T00:00:00.000Z",
+        finishedAt: "2026-01-01T01:02:03.000Z",
+        durationMs: 3_723_000,
+      },
+    }),
+    "cosmotrigger@example.com",
+    ["audit@example.com"],
+  );
+
+  assertEquals(
+    message.subject,
+    "[CosmoTrigger] INFO test-chain: Upgrade pipeline 456 succeeded",
+  );
+  assertEquals(message.to, ["audit@example.com"]);
+  assertStringIncludes(message.text, "  Moniker:    validator\n");
+  assertStringIncludes(message.text, "Upgrade plan\n  Name:       v2\n");
+  assertStringIncludes(
+    message.text,
+    "  URL:        https://ci.example.com/runs/456\n",
+  );
+  assertStringIncludes(message.text, "  Duration:   1h 2m 3s\n");
+});
+
+Deno.test("sendNotification should log failed deliveries without throwing", async () => {
+  const warnStub = stub(logger, "warn");
+  const fetchStub = stub(
+    globalThis,
+    "fetch",
+    () => Promise.resolve(new Response("invalid_token", { status: 403 })),
+  );
+
+  try {
+    await sendNotification(SLACK_CHANNEL, createMockEvent());
+
+    assertEquals(warnStub.calls.length, 1);
+    assertStringIncludes(String(warnStub.calls[0].args[0]), "HTTP 403");
+  } finally {
+    warnStub.restore();
+    fetchStub.restore();
+  }
+});
+
+Deno.test("startNotifications should only notify channels subscribed to the event", async () => {
+  const requests: string[] = [];
+  let delivered: () => void = () => {};
+  const done = new Promise<void>((resolve) => delivered = resolve);
+  const fetchStub = stub(
+    globalThis,
+    "fetch",
+    (input: string | URL | Request) => {
+      requests.push(String(input));
+      delivered();
+      return Promise.resolve(new Response("ok"));
+    },
+  );
+  const stop = startNotifications([SLACK_CHANNEL, TEAMS_CHANNEL]);
+
+  try {
+    publishMonitorEvent(createMockEvent());
+    await done;
+
+    assertEquals(requests, [SLACK_CHANNEL.webhookUrl]);
+  } finally {
+    stop();
+    fetchStub.restore();
+  }
+});
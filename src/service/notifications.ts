@@ -0,0 +1,383 @@
+import { type ChainConfig } from "config/config.ts";
+import { onMonitorEvent } from "src/service/events.ts";
+import { MonitorEvent, MonitorEventSeverity } from "src/types/events.ts";
+import {
+  EmailMessage,
+  NotificationChannel,
+  NotificationChannelType,
+  SmtpConfig,
+} from "src/types/notifications.ts";
+import { logger } from "src/utils/logger.ts";
+import { sendMail } from "src/utils/smtp.ts";
+import {
+  createEventTemplateValues,
+  renderTemplate,
+} from "src/utils/template.ts";
+
+const NOTIFICATION_TIMEOUT_MS = 10_000;
+
+const SEVERITY_EMOJI: Record<MonitorEventSeverity, string> = {
+  info: ":information_source:",
+  warning: ":warning:",
+  critical: ":rotating_light:",
+};
+
+const SEVERITY_COLOR: Record<MonitorEventSeverity, string> = {
+  info: "Accent",
+  warning: "Warning",
+  critical: "Attention",
+};
+
+/**
+ * Returns the pipeline URL of an event, if it has one.
+ *
+ * @param event - The monitor event.
+ */
+function getEventUrl(event: MonitorEvent): string | null {
+  const url = event.details.webUrl;
+  return typeof url === "string" && url !== "" ? url : null;
+}
+
+/**
+ * Escapes the characters Slack treats as control characters in mrkdwn, so
+ * chain names, plan names and messages cannot form links or mentions.
+ *
+ * @param text - The plain text.
+ * @returns The text safe to embed in a Slack message.
+ */
+function escapeSlackText(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+/**
+ * Builds the Slack incoming-webhook payload for a monitor event.
+ *
+ * @param event - The monitor event.
+ * @returns The Slack message with a plain text fallback and blocks.
+ */
+export function formatSlackMessage(
+  event: MonitorEvent,
+): Record<string, unknown> {
+  const url = getEventUrl(event);
+  const text = `${SEVERITY_EMOJI[event.severity]} ${
+    escapeSlackText(`[${event.chain}] ${event.message}`)
+  }`;
+
+  return {
+    text,
+    blocks: [
+      {
+        type: "section",
+        text: {
+          type: "mrkdwn",
+          text: url ? `${text}\n<${url}|View pipeline>` : text,
+        },
+      },
+      {
+        type: "context",
+        elements: [{
+          type: "mrkdwn",
+          text: `${event.type} | ${event.severity} | ${event.timestamp}`,
+        }],
+      },
+    ],
+  };
+}
+
+/**
+ * Builds the Teams incoming-webhook payload for a monitor event as an
+ * Adaptive Card.
+ *
+ * @param event - The monitor event.
+ * @returns The Teams message with a single Adaptive Card attachment.
+ */
+export function formatTeamsMessage(
+  event: MonitorEvent,
+): Record<string, unknown> {
+  const url = getEventUrl(event);
+
+  return {
+    type: "message",
+    attachments: [{
+      contentType: "application/vnd.microsoft.card.adaptive",
+      content: {
+        $schema: "http://adaptivecards.io/schemas/adaptive-card.json",
+        type: "AdaptiveCard",
+        version: "1.4",
+        body: [
+          {
+            type: "TextBlock",
+            text: `[${event.chain}] ${event.type}`,
+            weight: "Bolder",
+            color: SEVERITY_COLOR[event.severity],
+          },
+          { type: "TextBlock", text: event.message, wrap: true },
+          {
+            type: "TextBlock",
+            text: `${event.severity} | ${event.timestamp}`,
+            isSubtle: true,
+            size: "Small",
+          },
+        ],
+        actions: url
+          ? [{ type: "Action.OpenUrl", title: "View pipeline", url }]
+          : [],
+      },
+    }],
+  };
+}
+
+/**
+ * Replaces the message of an event with the rendered notification template.
+ *
+ * @param event - The monitor event.
+ * @param template - The notification template, empty to keep the message.
+ * @returns The event with the rendered message.
+ */
+export function applyMessageTemplate(
+  event: MonitorEvent,
+  template: string,
+): MonitorEvent {
+  if (!template) {
+    return event;
+  }
+
+  return {
+    ...event,
+    message: renderTemplate(template, createEventTemplateValues(event)),
+  };
+}
+
+const FORMATTERS: Record<
+  NotificationChannelType,
+  (event: MonitorEvent) => Record<string, unknown>
+> = {
+  slack: formatSlackMessage,
+  teams: formatTeamsMessage,
+};
+
+/**
+ * Posts a monitor event to a notification channel. Failures are logged and
+ * never interrupt the monitor.
+ *
+ * @param channel - The channel to notify.
+ * @param event - The monitor event.
+ */
+export async function sendNotification(
+  channel: NotificationChannel,
+  event: MonitorEvent,
+): Promise<void> {
+  try {
+    const response = await fetch(channel.webhookUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(FORMATTERS[channel.type](event)),
+      signal: AbortSignal.timeout(NOTIFICATION_TIMEOUT_MS),
+    });
+    await response.body?.cancel();
+
+    if (!response.ok) {
+      logger.warn(
+        `${channel.type} notification for ${event.type} failed with HTTP ${response.status}`,
+      );
+    }
+  } catch (err) {
+    logger.warn(
+      `${channel.type} notification for ${event.type} failed: ${err}`,
+    );
+  }
+}
+
+/**
+ * Forwards monitor events to the notification channels subscribed to their
+ * event type.
+ *
+ * @param channels - The configured notification channels.
+ * @param template - The notification template, empty for the event message.
+ * @returns A function stopping the notifications.
+ */
+export function startNotifications(
+  channels: NotificationChannel[],
+  template: string = "",
+): () => void {
+  if (channels.length === 0) {
+    return () => {};
+  }
+
+  return onMonitorEvent((event) => {
+    const notification = applyMessageTemplate(event, template);
+    return Promise.all(
+      channels
+        .filter((channel) => channel.events.includes(event.type))
+        .map((channel) => sendNotification(channel, notification)),
+    ).then(() => {});
+  });
+}
+
+/**
+ * Formats a duration in milliseconds as hours, minutes and seconds.
+ *
+ * @param ms - The duration in milliseconds.
+ */
+function formatDuration(ms: number): string {
+  const totalSeconds = Math.round(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return [
+    hours > 0 ? `${hours}h` : "",
+    hours > 0 || minutes > 0 ? `${minutes}m` : "",
+    `${seconds}s`,
+  ].filter((part) => part !== "").join(" ");
+}
+
+/**
+ * Formats a titled block of label-value rows, leaving out empty values.
+ *
+ * @param title - The section title.
+ * @param rows - The labels and values of the section.
+ * @returns The section, or null if all values are empty.
+ */
+function formatSection(
+  title: string,
+  rows: Array<[string, unknown]>,
+): string | null {
+  const filled = rows.filter(([, value]) =>
+    value !== null && value !== undefined && value !== ""
+  );
+  if (filled.length === 0) {
+    return null;
+  }
+
+  return [
+    title,
+    ...filled.map(([label, value]) => `  ${`${label}:`.padEnd(12)}${value}`),
+  ].join("\n");
+}
+
+/**
+ * Builds the email for a monitor event, summarising the node identity, the
+ * upgrade plan and the pipeline with its URL, timing and final status.
+ *
+ * @param event - The monitor event.
+ * @param from - The sender address.
+ * @param to - The recipient addresses.
+ * @returns The email message.
+ */
+export function formatEmailMessage(
+  event: MonitorEvent,
+  from: string,
+  to: string[],
+): EmailMessage {
+  const { details, identity } = event;
+  const durationMs = details.durationMs;
+
+  const sections = [
+    event.message,
+    formatSection("Event", [
+      ["Type", event.type],
+      ["Severity", event.severity],
+      ["Chain", event.chain],
+      ["Time", event.timestamp],
+    ]),
+    formatSection("Node", [
+      ["Network", identity?.network],
+      ["Moniker", identity?.moniker],
+      ["Version", identity?.version],
+      ["Node ID", identity?.nodeId],
+    ]),
+    formatSection("Upgrade plan", [
+      ["Name", details.planName],
+      ["Height", details.planHeight],
+    ]),
+    formatSection("Pipeline", [
+      ["ID", details.pipelineId],
+      ["Phase", details.phase],
+      ["URL", details.webUrl],
+      ["Status", details.status],
+      ["Triggered", details.triggeredAt],
+      ["Finished", details.finishedAt],
+      [
+        "Duration",
+        typeof durationMs === "number" ? formatDuration(durationMs) : null,
+      ],
+    ]),
+  ];
+
+  return {
+    from,
+    to,
+    subject:
+      `[CosmoTrigger] ${event.severity.toUpperCase()} ${event.chain}: ${event.message}`,
+    text: `${sections.filter((section) => section !== null).join("\n\n")}\n`,
+  };
+}
+
+/**
+ * Returns the email recipients of a chain for an event severity.
+ *
+ * @param chain - The chain configuration.
+ * @param severity - The event severity.
+ */
+function getEmailRecipients(
+  chain: ChainConfig,
+  severity: MonitorEventSeverity,
+): string[] {
+  switch (severity) {
+    case "info":
+      return chain.emailInfoRecipients;
+    case "warning":
+      return chain.emailWarningRecipients;
+    case "critical":
+      return chain.emailCriticalRecipients;
+  }
+}
+
+/**
+ * Emails monitor events to the recipients configured for their chain and
+ * severity. Failures are logged and never interrupt the monitor.
+ *
+ * @param smtp - The SMTP configuration, or null if email is disabled.
+ * @param chains - The monitored chains with their recipients.
+ * @param template - The notification template, empty for the event message.
+ * @returns A function stopping the email notifications.
+ */
+export function startEmailNotifications(
+  smtp: SmtpConfig | null,
+  chains: ChainConfig[],
+  template: string = "",
+): () => void {
+  if (smtp === null) {
+    return () => {};
+  }
+
+  const chainsByName = new Map(chains.map((chain) => [chain.name, chain]));
+
+  return onMonitorEvent(async (event) => {
+    const chain = chainsByName.get(event.chain);
+    if (!chain || !smtp.events.includes(event.type)) {
+      return;
+    }
+
+    const recipients = getEmailRecipients(chain, event.severity);
+    if (recipients.length === 0) {
+      return;
+    }
+
+    try {
+      await sendMail(
+        smtp,
+        formatEmailMessage(
+          applyMessageTemplate(event, template),
+          smtp.from,
+          recipients,
+        ),
+      );
+    } catch (err) {
+      logger.warn(`Email notification for ${event.type} failed: ${err}`);
+    }
+  });
+}
@@ -0,0 +1,193 @@
+import { StateStore } from "src/service/state-store.ts";
+import { PipelineRun } from "src/types/executor.ts";
+import { UpgradePlan } from "src/types/upgrade-plan.ts";
+import { assertEquals } from "test-assert";
+
+function createMockPipeline(id: number): PipelineRun {
+  return {
+    id,
+    status: "pending",
+    webUrl: `https://gitlab.example.com/project/-/pipelines/${id}`,
+  };
+}
+
+function createMockPlan(height: number): UpgradePlan {
+  return { name: "v2", height, time: null, info: "", binaries: {} };
+}
+
+async function withTempStatePath<T>(
+  testFn: (path: string) => Promise<T>,
+): Promise<T> {
+  const dir = await Deno.makeTempDir();
+  try {
+    return await testFn(`${dir}/nested/test-chain.json`);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+}
+
+Deno.test("StateStore should start empty when no state file exists", async () => {
+  await withTempStatePath(async (path) => {
+    const store = new StateStore(path);
+    const state = await store.load();
+
+    assertEquals(state.plans, []);
+    assertEquals(store.getPendingPlan(), null);
+  });
+});
+
+Deno.test("StateStore should persist detected plans and pipelines across instances", async () => {
+  await withTempStatePath(async (path) => {
+    const store = new StateStore(path);
+    await store.load();
+    await store.recordPlanDetected(createMockPlan(1000), "v1.0.0");
+    await store.recordPipelineTriggered(1000, createMockPipeline(42));
+
+    const restarted = new StateStore(path);
+    await restarted.load();
+
+    assertEquals(restarted.getPendingPlan()?.plan.height, 1000);
+    assertEquals(restarted.getPendingPlan()?.previousVersion, "v1.0.0");
+    assertEquals(restarted.getInFlightPipeline(1000)?.id, 42);
+  });
+});
+
+Deno.test("StateStore should record pipeline outcomes and completed plans", async () => {
+  await withTempStatePath(async (path) => {
+    const store = new StateStore(path);
+    await store.load();
+    await store.recordPlanDetected(createMockPlan(1000));
+    await store.recordPipelineTriggered(1000, createMockPipeline(42));
+    await store.recordPipelineFinished(1000, 42, "success");
+    await store.updatePlanStatus(1000, "completed");
+
+    const restarted = new StateStore(path);
+    await restarted.load();
+
+    assertEquals(restarted.getInFlightPipeline(1000), null);
+    assertEquals(restarted.getPendingPlan(), null);
+    assertEquals(restarted.getPlan(1000)?.status, "completed");
+    assertEquals(restarted.getPlan(1000)?.pipelines[0].status, "success");
+  });
+});
+
+Deno.test("StateStore should not duplicate known plans", async () => {
+  await withTempStatePath(async (path) => {
+    const store = new StateStore(path);
+    await store.load();
+    await store.recordPlanDetected(createMockPlan(1000));
+    await store.recordPlanDetected(createMockPlan(1000));
+
+    const state = await new StateStore(path).load();
+    assertEquals(state.plans.length, 1);
+  });
+});
+
+Deno.test("StateStore without a path should keep state in memory", async () => {
+  const store = new StateStore(null);
+  await store.load();
+  await store.recordPlanDetected(createMockPlan(1000));
+  await store.recordPipelineTriggered(1000, createMockPipeline(7));
+
+  assertEquals(store.getInFlightPipeline(1000)?.id, 7);
+});
+
+Deno.test("StateStore should track prepare and execute pipelines separately", async () => {
+  const store = new StateStore(null);
+  await store.load();
+  await store.recordPlanDetected(createMockPlan(1000));
+  await store.recordPipelineTriggered(1000, createMockPipeline(1), "prepare");
+
+  assertEquals(store.hasPipeline(1000, "prepare"), true);
+  assertEquals(store.hasPipeline(1000, "execute"), false);
+  assertEquals(store.getInFlightPipeline(1000), null);
+  assertEquals(store.getInFlightPipeline(1000, "prepare")?.id, 1);
+});
+
+Deno.test("StateStore should list the finished pipelines of a plan and phase", async () => {
+  const store = new StateStore(null);
+  await store.load();
+  await store.recordPlanDetected(createMockPlan(1000));
+  await store.recordPipelineTriggered(1000, createMockPipeline(1), "prepare");
+  await store.recordPipelineTriggered(1000, createMockPipeline(2));
+  await store.recordPipelineTriggered(1000, createMockPipeline(3));
+  await store.recordPipelineFinished(1000, 1, "success");
+  await store.recordPipelineFinished(1000, 2, "canceled");
+
+  assertEquals(store.getFinishedPipelineIds(1000, "execute"), [2]);
+  assertEquals(store.getFinishedPipelineIds(1000, "prepare"), [1]);
+  assertEquals(store.getFinishedPipelineIds(2000, "execute"), []);
+});
+
+Deno.test("StateStore should reopen cancelled plans when they are scheduled again", async () => {
+  const store = new StateStore(null);
+  await store.load();
+  await store.recordPlanDetected(createMockPlan(1000));
+  await store.recordPipelineTriggered(1000, createMockPipeline(1), "prepare");
+  await store.updatePlanStatus(1000, "cancelled");
+
+  assertEquals(store.getPendingPlan(), null);
+
+  await store.recordPlanDetected({ ...createMockPlan(1000), name: "v3" });
+
+  assertEquals(store.getPendingPlan()?.plan.name, "v3");
+  assertEquals(store.hasPipeline(1000, "prepare"), false);
+});
+
+Deno.test("StateStore should persist failed upgrade attempts", async () => {
+  await withTempStatePath(async (path) => {
+    const store = new StateStore(path);
+    await store.load();
+    await store.recordPlanDetected(createMockPlan(100));
+
+    assertEquals(await store.recordFailedAttempt(100), 1);
+    assertEquals(await store.recordFailedAttempt(100), 2);
+
+    const restored = new StateStore(path);
+    await restored.load();
+    assertEquals(restored.getPlan(100)?.failedAttempts, 2);
+    assertEquals(await restored.recordFailedAttempt(100), 3);
+  });
+});
+
+Deno.test("StateStore should serialize concurrent writes", async () => {
+  await withTempStatePath(async (path) => {
+    const store = new StateStore(path);
+    await store.load();
+
+    await Promise.all([
+      store.recordPlanDetected(createMockPlan(100)),
+      store.recordPipelineTriggered(100, createMockPipeline(1)),
+      store.recordFailedAttempt(100),
+    ]);
+
+    const restored = new StateStore(path);
+    await restored.load();
+    assertEquals(restored.getPlan(100)?.failedAttempts, 1);
+    assertEquals(restored.getInFlightPipeline(100)?.id, 1);
+  });
+});
+
+Deno.test("StateStore should keep one record for a pipeline attached again after a restart", async () => {
+  await withTempStatePath(async (path) => {
+    const store = new StateStore(path);
+    await store.load();
+    await store.recordPlanDetected(createMockPlan(100));
+    await store.recordPipelineTriggered(100, createMockPipeline(42));
+    await store.recordPipelineFinished(100, 42, "failed");
+
+    const restarted = new StateStore(path);
+    await restarted.load();
+    await restarted.recordPipelineTriggered(100, {
+      ...createMockPipeline(42),
+      status: "running",
+    });
+
+    assertEquals(restarted.getPlan(100)?.pipelines.length, 1);
+    assertEquals(restarted.getInFlightPipeline(100)?.status, "running");
+
+    await restarted.recordPipelineFinished(100, 42, "success");
+    assertEquals(restarted.getInFlightPipeline(100), null);
+    assertEquals(restarted.getPlan(100)?.pipelines[0].status, "success");
+  });
+});
@@ -0,0 +1,283 @@
+import { PipelineRun } from "src/types/executor.ts";
+import {
+  MonitorState,
+  PipelinePhase,
+  PipelineRecord,
+  PlanRecord,
+  PlanRecordStatus,
+} from "src/types/state.ts";
+import { UpgradePlan } from "src/types/upgrade-plan.ts";
+import { logError } from "src/utils/logger.ts";
+
+const STATE_VERSION = 1;
+const MAX_PLAN_RECORDS = 20;
+const REOPENABLE_STATUSES: ReadonlyArray<PlanRecordStatus> = [
+  "cancelled",
+  "rescheduled",
+];
+
+/**
+ * Creates an empty monitor state.
+ */
+function createEmptyState(): MonitorState {
+  return { version: STATE_VERSION, plans: [] };
+}
+
+/**
+ * JSON file backed store for the state of a single chain monitor.
+ *
+ * Records detected upgrade plans, the pipelines triggered for them and their
+ * outcomes, so a restarted monitor neither forgets a plan nor triggers a
+ * second pipeline for it. A store created without a path keeps the state in
+ * memory only.
+ */
+export class StateStore {
+  private state: MonitorState = createEmptyState();
+  private pendingSave: Promise<void> = Promise.resolve();
+
+  constructor(private readonly path: string | null) {}
+
+  /**
+   * Loads the persisted state from disk. A missing or unreadable file
+   * results in an empty state.
+   *
+   * @returns The loaded monitor state.
+   */
+  async load(): Promise<MonitorState> {
+    this.state = createEmptyState();
+    if (!this.path) return this.state;
+
+    try {
+      const parsed = JSON.parse(await Deno.readTextFile(this.path));
+      if (parsed?.version === STATE_VERSION && Array.isArray(parsed.plans)) {
+        this.state = parsed as MonitorState;
+      }
+    } catch (err) {
+      if (!(err instanceof Deno.errors.NotFound)) {
+        logError(`Failed to read state file ${this.path}`, err);
+      }
+    }
+
+    return this.state;
+  }
+
+  /**
+   * Returns the most recent plan that has not been completed yet.
+   */
+  getPendingPlan(): PlanRecord | null {
+    return this.state.plans.findLast((plan) => plan.status === "pending") ??
+      null;
+  }
+
+  /**
+   * Returns the record of the plan at the given height, if any.
+   *
+   * @param height - The upgrade height of the plan.
+   */
+  getPlan(height: number): PlanRecord | null {
+    return this.state.plans.find((record) => record.plan.height === height) ??
+      null;
+  }
+
+  /**
+   * Returns the pipeline of a plan that was triggered but has not finished.
+   *
+   * @param height - The upgrade height of the plan.
+   * @param phase - The phase the pipeline was triggered for.
+   */
+  getInFlightPipeline(
+    height: number,
+    phase: PipelinePhase = "execute",
+  ): PipelineRecord | null {
+    return this.getPlan(height)?.pipelines.find((pipeline) =>
+      pipeline.phase === phase && pipeline.finishedAt === null
+    ) ?? null;
+  }
+
+  /**
+   * Returns the IDs of the pipelines of a plan that finished or were
+   * cancelled.
+   *
+   * @param height - The upgrade height of the plan.
+   * @param phase - The phase the pipelines were triggered for.
+   */
+  getFinishedPipelineIds(height: number, phase: PipelinePhase): number[] {
+    return this.getPlan(height)?.pipelines
+      .filter((pipeline) =>
+        pipeline.phase === phase && pipeline.finishedAt !== null
+      )
+      .map((pipeline) => pipeline.id) ?? [];
+  }
+
+  /**
+   * Checks whether a pipeline was ever triggered for a plan and phase.
+   *
+   * @param height - The upgrade height of the plan.
+   * @param phase - The phase the pipeline was triggered for.
+   */
+  hasPipeline(height: number, phase: PipelinePhase): boolean {
+    return this.getPlan(height)?.pipelines.some((pipeline) =>
+      pipeline.phase === phase
+    ) ?? false;
+  }
+
+  /**
+   * Records a newly detected upgrade plan. Known plans are left untouched,
+   * unless they were cancelled or rescheduled and are now scheduled again.
+   *
+   * @param plan - The detected upgrade plan.
+   * @param previousVersion - The application version before the upgrade.
+   */
+  async recordPlanDetected(
+    plan: UpgradePlan,
+    previousVersion: string | null = null,
+  ): Promise<void> {
+    const existing = this.getPlan(plan.height);
+    if (existing && !REOPENABLE_STATUSES.includes(existing.status)) return;
+
+    if (existing) {
+      existing.plan = plan;
+      existing.detectedAt = new Date().toISOString();
+      existing.status = "pending";
+      existing.pipelines = [];
+      existing.previousVersion = previousVersion;
+      existing.failedAttempts = 0;
+      await this.save();
+      return;
+    }
+
+    this.state.plans.push({
+      plan,
+      detectedAt: new Date().toISOString(),
+      status: "pending",
+      pipelines: [],
+      previousVersion,
+      failedAttempts: 0,
+    });
+    this.state.plans = this.state.plans.slice(-MAX_PLAN_RECORDS);
+    await this.save();
+  }
+
+  /**
+   * Records a pipeline triggered for the plan at the given height. A pipeline
+   * that is already recorded, e.g. because it was attached to again after a
+   * restart, is updated and marked as in flight instead of added twice.
+   *
+   * @param height - The upgrade height of the plan.
+   * @param pipeline - The triggered pipeline run.
+   * @param phase - The phase the pipeline was triggered for.
+   */
+  async recordPipelineTriggered(
+    height: number,
+    pipeline: PipelineRun,
+    phase: PipelinePhase = "execute",
+  ): Promise<void> {
+    const plan = this.getPlan(height);
+    if (!plan) return;
+
+    const existing = plan.pipelines.find((entry) => entry.id === pipeline.id);
+    if (existing) {
+      existing.phase = phase;
+      existing.webUrl = pipeline.webUrl;
+      existing.status = pipeline.status;
+      existing.statusUrl = pipeline.statusUrl;
+      existing.finishedAt = null;
+    } else {
+      plan.pipelines.push({
+        id: pipeline.id,
+        phase,
+        webUrl: pipeline.webUrl,
+        status: pipeline.status,
+        statusUrl: pipeline.statusUrl,
+        triggeredAt: new Date().toISOString(),
+        finishedAt: null,
+      });
+    }
+    await this.save();
+  }
+
+  /**
+   * Records the final status of a pipeline.
+   *
+   * @param height - The upgrade height of the plan.
+   * @param pipelineId - The ID of the finished pipeline.
+   * @param status - The final pipeline status.
+   */
+  async recordPipelineFinished(
+    height: number,
+    pipelineId: number,
+    status: string,
+  ): Promise<void> {
+    const pipeline = this.getPlan(height)?.pipelines.find((entry) =>
+      entry.id === pipelineId
+    );
+    if (!pipeline) return;
+
+    pipeline.status = status;
+    pipeline.finishedAt = new Date().toISOString();
+    await this.save();
+  }
+
+  /**
+   * Counts a failed upgrade attempt for the plan at the given height.
+   *
+   * @param height - The upgrade height of the plan.
+   * @returns The number of failed attempts including this one.
+   */
+  async recordFailedAttempt(height: number): Promise<number> {
+    const plan = this.getPlan(height);
+    if (!plan) return 1;
+
+    plan.failedAttempts++;
+    await this.save();
+    return plan.failedAttempts;
+  }
+
+  /**
+   * Updates the status of the plan at the given height.
+   *
+   * @param height - The upgrade height of the plan.
+   * @param status - The new plan status.
+   */
+  async updatePlanStatus(
+    height: number,
+    status: PlanRecordStatus,
+  ): Promise<void> {
+    const plan = this.getPlan(height);
+    if (!plan) return;
+
+    plan.status = status;
+    await this.save();
+  }
+
+  /**
+   * Queues a write of the current state. Writes run one after another, so
+   * concurrent callers such as the background prepare follower and the
+   * monitor loop never share the temporary file.
+   */
+  private save(): Promise<void> {
+    if (!this.path) return Promise.resolve();
+
+    this.pendingSave = this.pendingSave.then(() => this.writeFile());
+    return this.pendingSave;
+  }
+
+  /**
+   * Writes the state atomically by replacing the file with a fully written
+   * temporary file. Write errors are logged and do not stop the monitor.
+   */
+  private async writeFile(): Promise<void> {
+    const path = this.path!;
+    const tempPath = `${path}.tmp`;
+    try {
+      const dir = path.replace(/[\\/][^\\/]*$/, "");
+      if (dir !== path) {
+        await Deno.mkdir(dir, { recursive: true });
+      }
+      await Deno.writeTextFile(tempPath, JSON.stringify(this.state, null, 2));
+      await Deno.rename(tempPath, path);
+    } catch (err) {
+      logError(`Failed to write state file ${path}`, err);
+    }
+  }
+}
@@ -0,0 +1,206 @@
+import { type ChainConfig } from "config/config.ts";
+import {
+  DELIVERY_HEADER,
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  WebhookExecutor,
+} from "src/service/webhook.ts";
+import { createMockChainConfig } from "src/test-utils/config.ts";
+import {
+  PipelineStatusClassification,
+  PipelineTriggerOptions,
+} from "src/types/executor.ts";
+import { createHmacSignature } from "src/utils/hmac.ts";
+import { logger } from "src/utils/logger.ts";
+import { assertEquals } from "test-assert";
+import { stub } from "test-mock";
+import { FakeTime } from "test-time";
+
+const WEBHOOK_URL = "https://awx.example.com/hooks/upgrade";
+const DELIVERY_ID = "6f1c2a9e-3b7d-4e0f-9a51-8c2d4e6f7a90";
+
+function createMockConfig(overrides: Partial<ChainConfig> = {}): ChainConfig {
+  return createMockChainConfig({
+    executor: "webhook",
+    cicdVariables: '{"PROVIDER": "aws"}',
+    webhookUrl: WEBHOOK_URL,
+    webhookSecret: "webhook-secret",
+    ...overrides,
+  });
+}
+
+const TRIGGER_OPTIONS: PipelineTriggerOptions = {
+  variables: { UPGRADE_NAME: "v2" },
+  upgrade: {
+    chainId: "cosmoshub-4",
+    moniker: "validator-1",
+    version: "v1.0.0",
+    plan: {
+      name: "v2",
+      height: 1000,
+      time: null,
+      info: "{}",
+      binaries: {},
+    },
+    phase: "execute",
+  },
+};
+
+async function withMockedFetch<T>(
+  fetchImpl: typeof fetch,
+  testFn: () => Promise<T>,
+): Promise<T> {
+  const originalFetch = globalThis.fetch;
+  const infoStub = stub(logger, "info");
+  const errorStub = stub(logger, "error");
+  try {
+    globalThis.fetch = fetchImpl;
+    return await testFn();
+  } finally {
+    globalThis.fetch = originalFetch;
+    infoStub.restore();
+    errorStub.restore();
+  }
+}
+
+Deno.test(
+  "WebhookExecutor.trigger should post a signed upgrade payload",
+  async () => {
+    let request: { url: string; init?: RequestInit } | null = null;
+    const time = new FakeTime(new Date("2026-01-01T00:00:00.500Z"));
+    const uuidStub = stub(crypto, "randomUUID", () => DELIVERY_ID);
+
+    let run;
+    try {
+      run = await withMockedFetch(
+        (input: string | URL | Request, init?: RequestInit) => {
+          request = { url: String(input), init };
+          return Promise.resolve(Response.json({ id: 17, status: "success" }));
+        },
+        () => new WebhookExecutor(createMockConfig()).trigger(TRIGGER_OPTIONS),
+      );
+    } finally {
+      time.restore();
+      uuidStub.restore();
+    }
+
+    assertEquals(run, {
+      id: 17,
+      webUrl: WEBHOOK_URL,
+      status: "success",
+      statusUrl: undefined,
+    });
+    assertEquals(request!.url, WEBHOOK_URL);
+
+    const body = request!.init?.body as string;
+    assertEquals(JSON.parse(body), {
+      chain: "test-chain",
+      chainId: "cosmoshub-4",
+      moniker: "validator-1",
+      phase: "execute",
+      plan: { name: "v2", height: 1000, time: null, info: "{}" },
+      variables: { PROVIDER: "aws", UPGRADE_NAME: "v2" },
+    });
+    const headers = request!.init?.headers as Record<string, string>;
+    assertEquals(headers[TIMESTAMP_HEADER], "1767225600");
+    assertEquals(headers[DELIVERY_HEADER], DELIVERY_ID);
+    assertEquals(
+      headers[SIGNATURE_HEADER],
+      `sha256=${await createHmacSignature(
+        "webhook-secret",
+        `1767225600.${DELIVERY_ID}.${body}`,
+      )}`,
+    );
+  },
+);
+
+Deno.test(
+  "WebhookExecutor.trigger should derive the run ID from the delivery ID",
+  async () => {
+    const uuidStub = stub(crypto, "randomUUID", () => DELIVERY_ID);
+
+    try {
+      const run = await withMockedFetch(
+        () => Promise.resolve(new Response(null, { status: 204 })),
+        () => new WebhookExecutor(createMockConfig()).trigger(TRIGGER_OPTIONS),
+      );
+
+      assertEquals(run?.id, 0x6f1c2a9e3b7d);
+    } finally {
+      uuidStub.restore();
+    }
+  },
+);
+
+Deno.test(
+  "WebhookExecutor should report a synchronous result without polling",
+  async () => {
+    let fetchCallCount = 0;
+
+    const result = await withMockedFetch(() => {
+      fetchCallCount++;
+      return Promise.resolve(new Response(null, { status: 204 }));
+    }, async () => {
+      const executor = new WebhookExecutor(createMockConfig());
+      const run = await executor.trigger(TRIGGER_OPTIONS);
+      return await executor.getStatus(run!);
+    });
+
+    assertEquals(fetchCallCount, 1);
+    assertEquals(result, {
+      status: "success",
+      classification: PipelineStatusClassification.TERMINAL,
+    });
+  },
+);
+
+Deno.test(
+  "WebhookExecutor should poll the returned status URL",
+  async () => {
+    const requestedUrls: string[] = [];
+
+    const result = await withMockedFetch((input: string | URL | Request) => {
+      requestedUrls.push(String(input));
+      return Promise.resolve(
+        requestedUrls.length === 1
+          ? Response.json({ statusUrl: "/runs/7" }, { status: 202 })
+          : Response.json({ status: "failed" }),
+      );
+    }, async () => {
+      const executor = new WebhookExecutor(createMockConfig());
+      const run = await executor.trigger(TRIGGER_OPTIONS);
+      assertEquals(run?.status, "pending");
+      return await executor.getStatus(run!);
+    });
+
+    assertEquals(requestedUrls[1], "https://awx.example.com/runs/7");
+    assertEquals(result, {
+      status: "failed",
+      classification: PipelineStatusClassification.TERMINAL,
+    });
+  },
+);
+
+Deno.test(
+  "WebhookExecutor.trigger should fail for an untrackable pending run",
+  async () => {
+    const run = await withMockedFetch(
+      () => Promise.resolve(Response.json({ status: "running" })),
+      () => new WebhookExecutor(createMockConfig()).trigger(TRIGGER_OPTIONS),
+    );
+
+    assertEquals(run, null);
+  },
+);
+
+Deno.test(
+  "WebhookExecutor.trigger should return null when the receiver rejects the call",
+  async () => {
+    const run = await withMockedFetch(
+      () => Promise.resolve(new Response("Invalid signature", { status: 401 })),
+      () => new WebhookExecutor(createMockConfig()).trigger(TRIGGER_OPTIONS),
+    );
+
+    assertEquals(run, null);
+  },
+);
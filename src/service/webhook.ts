@@ -0,0 +1,271 @@
+import { type ChainConfig } from "config/config.ts";
+import {
+  PipelineExecutor,
+  PipelineRun,
+  PipelineRunStatus,
+  PipelineStatusClassification,
+  PipelineTriggerOptions,
+} from "src/types/executor.ts";
+import { isFailure } from "src/types/result.ts";
+import { WebhookPayload, WebhookResponse } from "src/types/webhook.ts";
+import {
+  simulatePipelineStatus,
+  simulatePipelineTrigger,
+} from "src/utils/dry-run.ts";
+import { createHmacSignature } from "src/utils/hmac.ts";
+import { fetchJson, safeGet } from "src/utils/http.ts";
+import { logger } from "src/utils/logger.ts";
+import { createUpgradeTemplateValues } from "src/utils/template.ts";
+import { parseVariables } from "src/utils/variable-parser.ts";
+
+/**
+ * Header carrying the HMAC-SHA256 signature of the timestamp, the delivery ID
+ * and the request body.
+ */
+export const SIGNATURE_HEADER = "X-CosmoTrigger-Signature-256";
+
+/**
+ * Header carrying the Unix time in seconds the request was signed at.
+ */
+export const TIMESTAMP_HEADER = "X-CosmoTrigger-Timestamp";
+
+/**
+ * Header carrying the unique ID of the webhook call.
+ */
+export const DELIVERY_HEADER = "X-CosmoTrigger-Delivery";
+
+/**
+ * Categories of webhook run statuses.
+ */
+const TERMINAL_STATUSES = ["success", "failed", "canceled", "skipped"] as const;
+const NON_TERMINAL_STATUSES = [
+  "pending",
+  "queued",
+  "running",
+  "created",
+] as const;
+
+/**
+ * Classifies a status reported by a webhook receiver.
+ *
+ * @param status - The reported status.
+ * @returns PipelineStatusClassification enum value.
+ */
+function classifyWebhookStatus(status: string): PipelineStatusClassification {
+  if (TERMINAL_STATUSES.includes(status as typeof TERMINAL_STATUSES[number])) {
+    return PipelineStatusClassification.TERMINAL;
+  }
+  if (
+    NON_TERMINAL_STATUSES.includes(
+      status as typeof NON_TERMINAL_STATUSES[number],
+    )
+  ) {
+    return PipelineStatusClassification.NON_TERMINAL;
+  }
+  return PipelineStatusClassification.UNKNOWN;
+}
+
+/**
+ * Derives a numeric run ID from a delivery ID, for receivers that do not
+ * return an ID of their own.
+ *
+ * @param deliveryId - The UUID of the webhook call.
+ * @returns The first 48 bits of the UUID as a number.
+ */
+function toRunId(deliveryId: string): number {
+  return parseInt(deliveryId.replaceAll("-", "").slice(0, 12), 16);
+}
+
+/**
+ * Parses the response of a webhook call. An empty body is a valid
+ * synchronous success.
+ *
+ * @param response - The HTTP response of the webhook receiver.
+ * @returns The parsed response, or null if the body is not a JSON object.
+ */
+async function parseWebhookResponse(
+  response: Response,
+): Promise<WebhookResponse | null> {
+  const text = await response.text();
+  if (text.trim() === "") return {};
+
+  try {
+    const body = JSON.parse(text);
+    return typeof body === "object" && body !== null && !Array.isArray(body)
+      ? body as WebhookResponse
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Runs upgrades by POSTing a signed JSON payload to a webhook, e.g. of
+ * Rundeck, Ansible AWX or an internal service.
+ *
+ * The receiver either answers synchronously with the final status, or
+ * returns a `statusUrl` that is polled until the run finishes.
+ */
+export class WebhookExecutor implements PipelineExecutor {
+  readonly apiUrl: string;
+
+  constructor(private readonly config: ChainConfig) {
+    this.apiUrl = config.webhookUrl;
+  }
+
+  /**
+   * Creates the payload describing the upgrade.
+   *
+   * @param options - The trigger options.
+   * @returns The webhook payload.
+   */
+  private createPayload(options: PipelineTriggerOptions): WebhookPayload {
+    const upgrade = options.upgrade;
+
+    return {
+      chain: this.config.name,
+      chainId: upgrade?.chainId ?? null,
+      moniker: upgrade?.moniker ?? null,
+      phase: upgrade?.phase ?? null,
+      plan: upgrade
+        ? {
+          name: upgrade.plan.name,
+          height: upgrade.plan.height,
+          time: upgrade.plan.time,
+          info: upgrade.plan.info,
+        }
+        : null,
+      variables: {
+        ...parseVariables(
+          this.config.cicdVariables,
+          "CICD_VARIABLES",
+          createUpgradeTemplateValues(options.upgrade),
+        ),
+        ...options.variables,
+      },
+    };
+  }
+
+  async trigger(
+    options: PipelineTriggerOptions = {},
+  ): Promise<PipelineRun | null> {
+    logger.info(`Calling upgrade webhook`);
+    const url = this.config.webhookUrl;
+
+    try {
+      const payload = this.createPayload(options);
+
+      if (this.config.dryRun) {
+        return simulatePipelineTrigger(this.config, {
+          method: "POST",
+          url,
+          token: this.config.webhookSecret,
+          variables: payload.variables,
+        });
+      }
+
+      const body = JSON.stringify(payload);
+      const timestamp = String(Math.floor(Date.now() / 1000));
+      const deliveryId = crypto.randomUUID();
+      const signature = await createHmacSignature(
+        this.config.webhookSecret,
+        `${timestamp}.${deliveryId}.${body}`,
+      );
+      const response = await fetch(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          [TIMESTAMP_HEADER]: timestamp,
+          [DELIVERY_HEADER]: deliveryId,
+          [SIGNATURE_HEADER]: `sha256=${signature}`,
+        },
+        body,
+      });
+
+      if (!response.ok) {
+        const errorBody = await response.text();
+        logger.error(
+          `Webhook error! status: ${response.status} - ${errorBody}`,
+        );
+        return null;
+      }
+
+      const result = await parseWebhookResponse(response);
+      if (!result) {
+        logger.error("Failed to parse webhook response as JSON object");
+        return null;
+      }
+
+      const statusUrl = result.statusUrl
+        ? new URL(result.statusUrl, url).toString()
+        : undefined;
+      const status = result.status ?? (statusUrl ? "pending" : "success");
+
+      if (
+        !statusUrl &&
+        classifyWebhookStatus(status) !== PipelineStatusClassification.TERMINAL
+      ) {
+        logger.error(
+          `Webhook reported status ${status} without a statusUrl to poll`,
+        );
+        return null;
+      }
+
+      const run: PipelineRun = {
+        id: typeof result.id === "number" ? result.id : toRunId(deliveryId),
+        webUrl: result.url ?? statusUrl ?? url,
+        status,
+        statusUrl,
+      };
+
+      logger.info(`Webhook Run Details:
+                                  - Run ID: ${run.id}
+                                  - Status: ${run.status}
+                                  - Status URL: ${statusUrl ?? "(synchronous)"}
+                                  - Run URL: ${run.webUrl}`);
+      return run;
+    } catch (err) {
+      logger.error(`Error calling upgrade webhook: ${url}`, err);
+      return null;
+    }
+  }
+
+  async getStatus(run: PipelineRun): Promise<PipelineRunStatus | null> {
+    if (this.config.dryRun) {
+      return simulatePipelineStatus(this.config, run);
+    }
+
+    if (!run.statusUrl) {
+      return {
+        status: run.status,
+        classification: classifyWebhookStatus(run.status),
+      };
+    }
+
+    const result = await fetchJson(run.statusUrl);
+    if (isFailure(result)) {
+      logger.error(
+        `Failed to fetch webhook run status: ${result.error.message}`,
+      );
+      return null;
+    }
+
+    const status = safeGet<string>(result.data.data, ["status"]);
+    if (!status) {
+      logger.error("Webhook run status not found in response");
+      return null;
+    }
+
+    logger.info(`Webhook run status: ${status}`);
+    return { status, classification: classifyWebhookStatus(status) };
+  }
+
+  cancel(run: PipelineRun): Promise<boolean> {
+    logger.warn(`Webhook run ${run.id} cannot be cancelled`);
+    return Promise.resolve(false);
+  }
+
+  getUrl(run: PipelineRun): string {
+    return run.webUrl;
+  }
+}
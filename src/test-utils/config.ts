@@ -0,0 +1,63 @@
+import { type ChainConfig } from "config/config.ts";
+
+/**
+ * Creates a GitLab chain configuration with the environment defaults for
+ * tests. Tests pass only the keys they depend on as overrides.
+ *
+ * @param overrides - The keys to override.
+ * @returns The chain configuration.
+ */
+export function createMockChainConfig(
+  overrides: Partial<ChainConfig> = {},
+): ChainConfig {
+  return {
+    cosmosNodeRestUrls: ["http://localhost:1317"],
+    nodeLagThresholdBlocks: 10,
+    executor: "gitlab",
+    pollIntervalMs: 2000,
+    name: "test-chain",
+    cicdTriggerToken: "test-trigger-token",
+    cicdPersonalAccessToken: "test-pat",
+    cicdUpdateBranch: "main",
+    cicdProjectApiUrl: "https://gitlab.example.com/api/v4/projects/1234",
+    cicdVariables: "",
+    manualJobAction: "wait",
+    manualJobTimeoutMs: 3600000,
+    githubApiUrl: "https://api.github.com",
+    githubRepository: "",
+    githubWorkflow: "",
+    githubToken: "",
+    webhookUrl: "",
+    webhookSecret: "",
+    localCommand: "",
+    localCommandArgs: [],
+    localCommandTimeoutMs: 3600000,
+    jenkinsUrl: "",
+    jenkinsJob: "",
+    jenkinsUser: "",
+    jenkinsApiToken: "",
+    stateDir: "",
+    prepareTriggerBlocks: 0,
+    prepareTriggerLeadTimeMs: 0,
+    prepareCicdUpdateBranch: "",
+    prepareCicdVariables: "",
+    rollbackEnabled: false,
+    rollbackCicdUpdateBranch: "",
+    rollbackCicdVariables: "",
+    planRevalidateCycles: 1,
+    notifyBlocksRemaining: 0,
+    emailInfoRecipients: [],
+    emailWarningRecipients: [],
+    emailCriticalRecipients: [],
+    postUpgradeVerifyTimeoutMs: 600000,
+    pipelineTimeoutMs: 7200000,
+    cancelPipelineOnAbort: false,
+    pipelineMaxAttempts: 3,
+    pipelineRetryBackoffMs: 600000,
+    pipelineRetryMaxBackoffMs: 3600000,
+    pipelineRetryableStatuses: ["failed", "timeout"],
+    dryRun: false,
+    dryRunPipelineStatus: "success",
+    ...overrides,
+  };
+}
@@ -0,0 +1,27 @@
+/**
+ * Actions the admin API can run against a chain monitor.
+ */
+export const ADMIN_ACTIONS = [
+  "pause",
+  "resume",
+  "skip-plan",
+  "force-trigger",
+  "reset",
+] as const;
+
+export type AdminAction = typeof ADMIN_ACTIONS[number];
+
+/**
+ * Outcome of an admin action. Rejected actions carry the reason.
+ */
+export type AdminActionResult = {
+  ok: boolean;
+  message: string;
+};
+
+/**
+ * A chain monitor controllable through the admin API.
+ */
+export interface AdminTarget {
+  runAdminAction(action: AdminAction): Promise<AdminActionResult>;
+}
@@ -9,6 +9,7 @@ export type ChainIdentity = {
   listenAddr: string;
   network: string;
   moniker: string;
+  /** Version of the chain application, not of CometBFT */
   version: string;
   rpcAddress: string;
 };
@@ -0,0 +1,49 @@
+import { ChainIdentity } from "src/types/chain-identity.ts";
+
+/**
+ * Lifecycle events published by the chain monitors.
+ */
+export const MONITOR_EVENT_TYPES = [
+  "plan-detected",
+  "plan-cancelled",
+  "plan-rescheduled",
+  "upgrade-approaching",
+  "pipeline-triggered",
+  "pipeline-succeeded",
+  "pipeline-failed",
+  "upgrade-verified",
+  "upgrade-verification-failed",
+  "upgrade-gave-up",
+  "node-down",
+  "node-recovered",
+] as const;
+
+export type MonitorEventType = typeof MONITOR_EVENT_TYPES[number];
+
+/**
+ * Severity of a monitor event, used to route notifications.
+ */
+export type MonitorEventSeverity = "info" | "warning" | "critical";
+
+/**
+ * Represents a lifecycle event of a single chain monitor.
+ */
+export type MonitorEvent = {
+  type: MonitorEventType;
+  severity: MonitorEventSeverity;
+  /** Name of the chain the event belongs to */
+  chain: string;
+  /** Identity of the chain's node, null until it was fetched */
+  identity: ChainIdentity | null;
+  message: string;
+  timestamp: string;
+  /** Event specific details such as plan height or pipeline ID */
+  details: Record<string, unknown>;
+};
+
+/**
+ * Callback receiving monitor events. Returned promises are not awaited.
+ */
+export type MonitorEventListener = (
+  event: MonitorEvent,
+) => void | Promise<void>;
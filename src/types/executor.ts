@@ -0,0 +1,172 @@
+import { PipelinePhase } from "src/types/state.ts";
+import { UpgradePlan } from "src/types/upgrade-plan.ts";
+
+/**
+ * Pipeline backends a chain can trigger its upgrade pipelines on.
+ */
+export const EXECUTOR_TYPES = [
+  "gitlab",
+  "github",
+  "webhook",
+  "command",
+  "jenkins",
+] as const;
+
+export type ExecutorType = typeof EXECUTOR_TYPES[number];
+
+/**
+ * Classification categories for pipeline statuses.
+ */
+export enum PipelineStatusClassification {
+  TERMINAL = "terminal",
+  NON_TERMINAL = "non-terminal",
+  UNKNOWN = "unknown",
+}
+
+/**
+ * Describes the upgrade a pipeline is triggered for.
+ */
+export interface UpgradeContext {
+  chainId: string;
+  moniker: string;
+  /** Node version before the upgrade */
+  version: string;
+  plan: UpgradePlan;
+  phase: PipelinePhase;
+}
+
+/**
+ * Overrides applied when triggering a pipeline.
+ */
+export interface PipelineTriggerOptions {
+  /** Branch or tag to run the pipeline on instead of the update branch */
+  ref?: string;
+  /** Plain variables added to (and overriding) the configured variables */
+  variables?: Record<string, string>;
+  /** The upgrade the pipeline runs for, for executors sending structured data */
+  upgrade?: UpgradeContext;
+  /** Stops waiting for the triggered run to start on shutdown */
+  signal?: AbortSignal;
+}
+
+/**
+ * A pipeline run started by an executor, independent of its backend.
+ */
+export interface PipelineRun {
+  id: number;
+  webUrl: string;
+  status: string;
+  /** URL to poll the run status at, for runs not addressable by ID */
+  statusUrl?: string;
+}
+
+/**
+ * The status of a pipeline run. Terminal statuses are normalized to
+ * success, failed, canceled or skipped.
+ */
+export interface PipelineRunStatus {
+  status: string;
+  classification: PipelineStatusClassification;
+}
+
+/**
+ * A failed job of a pipeline run with the end of its log.
+ */
+export interface FailedJob {
+  name: string;
+  stage: string;
+  webUrl: string;
+  /** The last lines of the job log */
+  logExcerpt: string;
+}
+
+/**
+ * Limits of waiting for a pipeline run.
+ */
+export interface PipelineWaitOptions {
+  /** Ends the wait early, e.g. on shutdown */
+  signal?: AbortSignal;
+  /** Maximum duration of the wait in milliseconds, 0 for no limit */
+  timeoutMs?: number;
+  /** Whether to cancel the run when the wait ends before it finished */
+  cancelOnAbort?: boolean;
+}
+
+/**
+ * Why waiting for a pipeline run ended. "error" means the status could not
+ * be fetched repeatedly, so the outcome of the run is unknown.
+ */
+export type PipelineWaitReason = "finished" | "timeout" | "shutdown" | "error";
+
+/**
+ * The outcome of waiting for a pipeline run.
+ */
+export interface PipelineWaitResult {
+  /** The final status, or the last known status if the wait ended early */
+  status: string;
+  reason: PipelineWaitReason;
+  /** Whether the backend accepted the cancellation of an unfinished run */
+  cancelled: boolean;
+}
+
+/**
+ * A backend that runs the upgrade pipelines of a chain.
+ */
+export interface PipelineExecutor {
+  /** Base URL of the backend API requests, used to attribute metrics */
+  readonly apiUrl: string;
+
+  /**
+   * Triggers a pipeline run without waiting for it to finish.
+   *
+   * @param options - Optional ref and variable overrides.
+   * @returns The started run, or null on error.
+   */
+  trigger(options?: PipelineTriggerOptions): Promise<PipelineRun | null>;
+
+  /**
+   * Fetches the current status of a run.
+   *
+   * @param run - The run to check.
+   * @returns The run status, or null on error.
+   */
+  getStatus(run: PipelineRun): Promise<PipelineRunStatus | null>;
+
+  /**
+   * Requests the cancellation of a run.
+   *
+   * @param run - The run to cancel.
+   * @returns True if the backend accepted the request.
+   */
+  cancel(run: PipelineRun): Promise<boolean>;
+
+  /**
+   * Returns the web URL of a run.
+   *
+   * @param run - The run.
+   */
+  getUrl(run: PipelineRun): string;
+
+  /**
+   * Lists the failed jobs of a finished run with the end of their logs.
+   * Only implemented by backends that expose job logs.
+   *
+   * @param run - The finished run.
+   * @returns The failed jobs, empty if none or on error.
+   */
+  getFailedJobs?(run: PipelineRun): Promise<FailedJob[]>;
+
+  /**
+   * Finds an unfailed run started earlier for the same upgrade, e.g. by hand
+   * or by another instance. Only implemented by backends whose runs can be
+   * searched by their variables.
+   *
+   * @param options - The options the run would be triggered with.
+   * @param excludedIds - IDs of runs known to have finished, never returned.
+   * @returns The existing run, or null if there is none or on error.
+   */
+  findRun?(
+    options: PipelineTriggerOptions,
+    excludedIds?: number[],
+  ): Promise<PipelineRun | null>;
+}
@@ -0,0 +1,13 @@
+/**
+ * Represents a GitHub Actions workflow run from the API.
+ */
+export interface GithubWorkflowRun {
+  id: number;
+  head_branch: string;
+  status: string;
+  conclusion: string | null;
+  created_at: string;
+  html_url: string;
+  /** The run name, rendered from the `run-name` of the workflow */
+  display_title: string;
+}
@@ -1,3 +1,10 @@
+/**
+ * How pipelines blocked by a manual job are handled.
+ */
+export const MANUAL_JOB_ACTIONS = ["play", "wait", "success"] as const;
+
+export type ManualJobAction = typeof MANUAL_JOB_ACTIONS[number];
+
 /**
  * Represents a GitLab pipeline response from the API.
  */
@@ -14,10 +21,45 @@ export interface GitlabPipeline {
 }
 
 /**
- * Classification categories for GitLab pipeline statuses.
+ * Represents a variable of a GitLab pipeline from the API.
+ */
+export interface GitlabPipelineVariable {
+  key: string;
+  value: string;
+}
+
+/**
+ * Represents a bridge job of a GitLab pipeline from the API, which triggers
+ * a child or multi-project downstream pipeline.
+ */
+export interface GitlabBridge {
+  id: number;
+  name: string;
+  status: string;
+  downstream_pipeline: {
+    id: number;
+    project_id: number;
+    status: string;
+    web_url: string;
+  } | null;
+}
+
+/**
+ * A downstream pipeline, addressed by the API URL of its project.
  */
-export enum PipelineStatusClassification {
-  TERMINAL = "terminal",
-  NON_TERMINAL = "non-terminal",
-  UNKNOWN = "unknown",
+export interface DownstreamPipeline {
+  projectApiUrl: string;
+  id: number;
+}
+
+/**
+ * Represents a job of a GitLab pipeline from the API.
+ */
+export interface GitlabJob {
+  id: number;
+  name: string;
+  stage: string;
+  status: string;
+  allow_failure: boolean;
+  web_url: string;
 }
@@ -1,3 +1,5 @@
+import { ChainStatus } from "src/types/status.ts";
+
 /**
  * Represents the handle of a health server, including the necessary methods
  * and state for controlling and interacting with the server.
@@ -12,8 +14,25 @@ export type HealthServerHandle = {
 
 /**
  * Represents the health state of the service.
- * This is used to track the current readiness state of the service.
+ * This is used to track the current readiness state of the service and the
+ * latest status published by every chain monitor.
  */
 export type HealthState = {
   ready: boolean;
+  chains: Record<string, ChainStatus>;
+  /** How long the nodes of a chain may be down before it turns not ready */
+  nodeDownThresholdMs: number;
+  /** How long a monitor may go without completing a cycle */
+  livenessTimeoutMs: number;
+};
+
+/**
+ * Thresholds applied by the `/ready` and `/live` endpoints and the admin
+ * API token.
+ */
+export type HealthServerOptions = {
+  nodeDownThresholdMs: number;
+  livenessTimeoutMs: number;
+  /** Bearer token of the admin API, empty to disable it */
+  adminApiToken: string;
 };
@@ -9,3 +9,18 @@ export interface HttpResponse<T> {
   /** The HTTP status code */
   status: number;
 }
+
+/**
+ * Receives the outcome of every completed fetchJson request.
+ *
+ * @param url - The requested URL.
+ * @param durationMs - The request duration in milliseconds.
+ * @param ok - Whether the request returned parsable JSON with a 2xx status.
+ * @param chain - The chain the request was sent for, if known.
+ */
+export type FetchObserver = (
+  url: string,
+  durationMs: number,
+  ok: boolean,
+  chain: string | null,
+) => void;
@@ -0,0 +1,13 @@
+/**
+ * Represents a Jenkins queue item from the API. `executable` is set once the
+ * item left the queue and a build started.
+ */
+export interface JenkinsQueueItem {
+  id: number;
+  cancelled?: boolean;
+  why?: string | null;
+  executable?: {
+    number: number;
+    url: string;
+  } | null;
+}
@@ -0,0 +1,24 @@
+import { ChainIdentity } from "src/types/chain-identity.ts";
+
+/**
+ * Gauge values a chain monitor publishes after every monitoring cycle.
+ * Null values are omitted from the metrics output.
+ */
+export type ChainGauges = {
+  identity: ChainIdentity | null;
+  nodeReachable: boolean;
+  blockHeight: number | null;
+  planHeight: number | null;
+  secondsUntilUpgrade: number | null;
+};
+
+/**
+ * Aggregated request statistics of one endpoint.
+ */
+export type HttpRequestStats = {
+  count: number;
+  errors: number;
+  durationSumSeconds: number;
+  /** Cumulative counts matching the histogram buckets */
+  bucketCounts: number[];
+};
@@ -0,0 +1,10 @@
+/**
+ * Represents the health information tracked for a single Cosmos REST endpoint.
+ */
+export type NodeStatus = {
+  url: string;
+  score: number;
+  lastHeight: number | null;
+  lagging: boolean;
+  consecutiveFailures: number;
+};
@@ -0,0 +1,52 @@
+import { MonitorEventType } from "src/types/events.ts";
+
+/**
+ * Chat services that can be notified through incoming webhooks.
+ */
+export const NOTIFICATION_CHANNEL_TYPES = ["slack", "teams"] as const;
+
+export type NotificationChannelType = typeof NOTIFICATION_CHANNEL_TYPES[number];
+
+/**
+ * A chat channel notified about monitor events.
+ */
+export type NotificationChannel = {
+  type: NotificationChannelType;
+  webhookUrl: string;
+  /** The event types sent to this channel */
+  events: MonitorEventType[];
+};
+
+/**
+ * How the connection to the SMTP server is secured. "tls" connects over
+ * implicit TLS, "starttls" upgrades a plain connection and "none" sends in
+ * plain text.
+ */
+export const SMTP_SECURITY_MODES = ["tls", "starttls", "none"] as const;
+
+export type SmtpSecurity = typeof SMTP_SECURITY_MODES[number];
+
+/**
+ * The SMTP server email notifications are sent through.
+ */
+export type SmtpConfig = {
+  host: string;
+  port: number;
+  security: SmtpSecurity;
+  /** Empty disables authentication */
+  username: string;
+  password: string;
+  from: string;
+  /** The event types sent by email */
+  events: MonitorEventType[];
+};
+
+/**
+ * A plain text email.
+ */
+export type EmailMessage = {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+};
@@ -0,0 +1,56 @@
+import { UpgradePlan } from "src/types/upgrade-plan.ts";
+
+/**
+ * Phase of the upgrade a pipeline was triggered for. "prepare" pipelines run
+ * ahead of the upgrade height, "execute" pipelines run at the upgrade height
+ * and "rollback" pipelines recover the node after the upgrade failed.
+ */
+export type PipelinePhase = "prepare" | "execute" | "rollback";
+
+/**
+ * Represents a pipeline triggered for an upgrade plan.
+ * `finishedAt` stays null while the pipeline is in flight.
+ */
+export type PipelineRecord = {
+  id: number;
+  phase: PipelinePhase;
+  webUrl: string;
+  status: string;
+  statusUrl?: string;
+  triggeredAt: string;
+  finishedAt: string | null;
+};
+
+/**
+ * Outcome of an upgrade plan as tracked by the monitor.
+ */
+export type PlanRecordStatus =
+  | "pending"
+  | "completed"
+  | "cancelled"
+  | "rescheduled"
+  | "skipped"
+  | "gave-up";
+
+/**
+ * Represents an upgrade plan detected by the monitor and the pipelines
+ * triggered for it.
+ */
+export type PlanRecord = {
+  plan: UpgradePlan;
+  detectedAt: string;
+  status: PlanRecordStatus;
+  pipelines: PipelineRecord[];
+  /** Application version of the node when the plan was detected */
+  previousVersion: string | null;
+  /** Number of failed upgrade attempts */
+  failedAttempts: number;
+};
+
+/**
+ * The monitor state persisted between restarts.
+ */
+export type MonitorState = {
+  version: number;
+  plans: PlanRecord[];
+};
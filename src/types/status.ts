@@ -0,0 +1,66 @@
+import { ChainIdentity } from "src/types/chain-identity.ts";
+import { FailedJob } from "src/types/executor.ts";
+import { PipelinePhase } from "src/types/state.ts";
+import { UpgradePlan } from "src/types/upgrade-plan.ts";
+
+/**
+ * What a chain monitor is currently doing.
+ */
+export type MonitorPhase =
+  | "idle"
+  | "plan-detected"
+  | "triggering"
+  | "awaiting-pipeline"
+  | "post-upgrade-wait"
+  | "retry-wait"
+  | "gave-up"
+  | "node-down";
+
+/**
+ * Phases in which a monitor blocks inside a single cycle while it triggers
+ * or waits for a pipeline, verifies the upgrade or waits before a retry.
+ */
+export const LONG_RUNNING_PHASES: ReadonlyArray<MonitorPhase> = [
+  "triggering",
+  "awaiting-pipeline",
+  "post-upgrade-wait",
+  "retry-wait",
+];
+
+/**
+ * Snapshot of a chain monitor, published to the health server after every
+ * monitoring cycle and on every phase change.
+ */
+export type ChainStatus = {
+  chain: string;
+  phase: MonitorPhase;
+  /** Whether pipeline triggers are paused through the admin API */
+  paused: boolean;
+  identity: ChainIdentity | null;
+  activeNode: string;
+  lastHeight: number | null;
+  upgradePlan: UpgradePlan | null;
+  secondsUntilUpgrade: number | null;
+  activePipeline: {
+    id: number;
+    phase: PipelinePhase;
+    webUrl: string;
+  } | null;
+  /** The latest pipeline that did not succeed, with its failed jobs */
+  lastFailedPipeline: {
+    id: number;
+    phase: PipelinePhase;
+    status: string;
+    webUrl: string;
+    failedJobs: FailedJob[];
+  } | null;
+  lastError: {
+    message: string;
+    timestamp: string;
+  } | null;
+  /** Since when no REST node has been reachable, null while reachable */
+  nodeDownSince: string | null;
+  /** When the monitor last completed a cycle (or started) */
+  lastCycleAt: string;
+  updatedAt: string;
+};
@@ -0,0 +1,37 @@
+/**
+ * Placeholders available in templates, written as `{{chain.network}}`.
+ */
+export const TEMPLATE_PLACEHOLDERS = [
+  "chain.name",
+  "chain.network",
+  "chain.moniker",
+  "node.version",
+  "plan.name",
+  "plan.height",
+  "pipeline.url",
+  "event.type",
+  "event.severity",
+  "event.message",
+] as const;
+
+export type TemplatePlaceholder = typeof TEMPLATE_PLACEHOLDERS[number];
+
+/**
+ * Placeholders available in pipeline variables. They describe the upgrade
+ * the pipeline is triggered for, so the pipeline URL and event values are
+ * not known yet.
+ */
+export const PIPELINE_VARIABLE_PLACEHOLDERS: ReadonlyArray<
+  TemplatePlaceholder
+> = [
+  "chain.network",
+  "chain.moniker",
+  "node.version",
+  "plan.name",
+  "plan.height",
+];
+
+/**
+ * The runtime values of a template. Missing values render as empty strings.
+ */
+export type TemplateValues = Partial<Record<TemplatePlaceholder, string>>;
@@ -0,0 +1,45 @@
+/**
+ * Represents a binary referenced by the `info` field of an upgrade plan.
+ * The checksum is taken from the cosmovisor-style `checksum` URL parameter.
+ */
+export type UpgradeBinary = {
+  url: string;
+  checksum: string | null;
+};
+
+/**
+ * Represents an upgrade plan scheduled by the Cosmos SDK upgrade module.
+ *
+ * `info` holds the raw plan info. When it contains cosmovisor-style JSON
+ * (`{"binaries": {"linux/amd64": "https://...?checksum=sha256:..."}}`),
+ * `binaries` maps each platform to its download URL and checksum.
+ */
+export type UpgradePlan = {
+  name: string;
+  height: number;
+  time: string | null;
+  info: string;
+  binaries: Record<string, UpgradeBinary>;
+};
+
+/**
+ * Represents a successful query of the current upgrade plan.
+ * `plan` is null when no upgrade is scheduled.
+ */
+export type CurrentPlanResult = {
+  plan: UpgradePlan | null;
+};
+
+/**
+ * Outcome of the checks run after an upgrade pipeline succeeded.
+ * `failedChecks` is empty when the upgrade was verified.
+ */
+export type UpgradeVerification = {
+  planName: string;
+  planHeight: number;
+  appliedHeight: number | null;
+  previousVersion: string | null;
+  currentVersion: string | null;
+  currentHeight: number | null;
+  failedChecks: string[];
+};
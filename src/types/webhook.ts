@@ -0,0 +1,33 @@
+import { PipelinePhase } from "src/types/state.ts";
+
+/**
+ * The JSON payload POSTed to the upgrade webhook.
+ */
+export interface WebhookPayload {
+  chain: string;
+  chainId: string | null;
+  moniker: string | null;
+  phase: PipelinePhase | null;
+  plan: {
+    name: string;
+    height: number;
+    time: string | null;
+    info: string;
+  } | null;
+  variables: Record<string, string>;
+}
+
+/**
+ * The response of a webhook receiver. Every field is optional; an empty
+ * response reports a synchronous success.
+ */
+export interface WebhookResponse {
+  /** Numeric ID of the run on the receiver */
+  id?: number;
+  /** Final status of a synchronous run, or current status of an async one */
+  status?: string;
+  /** URL to poll for the status of an asynchronous run */
+  statusUrl?: string;
+  /** Web URL of the run shown in logs and `/status` */
+  url?: string;
+}
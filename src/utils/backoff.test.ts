@@ -0,0 +1,17 @@
+import { calculateBackoffMs } from "src/utils/backoff.ts";
+import { assertEquals } from "test-assert";
+
+Deno.test("calculateBackoffMs should double the delay with every attempt", () => {
+  assertEquals(calculateBackoffMs(1, 1000, 60_000), 1000);
+  assertEquals(calculateBackoffMs(2, 1000, 60_000), 2000);
+  assertEquals(calculateBackoffMs(4, 1000, 60_000), 8000);
+});
+
+Deno.test("calculateBackoffMs should cap the delay at the maximum", () => {
+  assertEquals(calculateBackoffMs(10, 1000, 60_000), 60_000);
+  assertEquals(calculateBackoffMs(100, 1000, 60_000), 60_000);
+});
+
+Deno.test("calculateBackoffMs should treat attempt 0 like the first attempt", () => {
+  assertEquals(calculateBackoffMs(0, 1000, 60_000), 1000);
+});
@@ -0,0 +1,18 @@
+/**
+ * Calculates the exponential backoff before the next attempt. The delay
+ * doubles with every failed attempt, starting at the base delay, and is
+ * capped at the maximum delay.
+ *
+ * @param attempt - The number of failed attempts so far, starting at 1.
+ * @param baseMs - The delay after the first failed attempt.
+ * @param maxMs - The upper limit of the delay.
+ * @returns The delay in milliseconds.
+ */
+export function calculateBackoffMs(
+  attempt: number,
+  baseMs: number,
+  maxMs: number,
+): number {
+  const exponent = Math.max(attempt - 1, 0);
+  return Math.min(baseMs * 2 ** exponent, maxMs);
+}
@@ -0,0 +1,52 @@
+import { BlockTimeEstimator } from "src/utils/block-time.ts";
+import { assertEquals } from "test-assert";
+
+Deno.test("BlockTimeEstimator should return null before two blocks are observed", () => {
+  const estimator = new BlockTimeEstimator();
+
+  estimator.record(100, 0);
+
+  assertEquals(estimator.averageBlockTimeMs(), null);
+  assertEquals(estimator.estimateMsUntil(100, 200), null);
+});
+
+Deno.test("BlockTimeEstimator should average block time across observations", () => {
+  const estimator = new BlockTimeEstimator();
+
+  estimator.record(100, 0);
+  estimator.record(101, 5_000);
+  estimator.record(104, 24_000);
+
+  assertEquals(estimator.averageBlockTimeMs(), 6_000);
+});
+
+Deno.test("BlockTimeEstimator should ignore repeated or lower heights", () => {
+  const estimator = new BlockTimeEstimator();
+
+  estimator.record(100, 0);
+  estimator.record(100, 3_000);
+  estimator.record(99, 4_000);
+  estimator.record(102, 12_000);
+
+  assertEquals(estimator.averageBlockTimeMs(), 6_000);
+});
+
+Deno.test("BlockTimeEstimator should estimate the time until a target height", () => {
+  const estimator = new BlockTimeEstimator();
+
+  estimator.record(100, 0);
+  estimator.record(110, 60_000);
+
+  assertEquals(estimator.estimateMsUntil(110, 120), 60_000);
+  assertEquals(estimator.estimateMsUntil(130, 120), 0);
+});
+
+Deno.test("BlockTimeEstimator should forget observations on reset", () => {
+  const estimator = new BlockTimeEstimator();
+
+  estimator.record(100, 0);
+  estimator.record(110, 60_000);
+  estimator.reset();
+
+  assertEquals(estimator.averageBlockTimeMs(), null);
+});
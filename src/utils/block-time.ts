@@ -0,0 +1,67 @@
+const MAX_SAMPLES = 100;
+
+/**
+ * Estimates the average block time of a chain from observed block heights.
+ *
+ * Every observation of a new height is stored together with the time it was
+ * seen. The estimate spans the oldest and newest of the retained samples, so
+ * it smooths out the jitter introduced by the polling interval.
+ */
+export class BlockTimeEstimator {
+  private samples: { height: number; time: number }[] = [];
+
+  /**
+   * Records an observed block height. Heights that are not higher than the
+   * last observation are ignored.
+   *
+   * @param height - The observed block height.
+   * @param time - The observation time in milliseconds since the epoch.
+   */
+  record(height: number, time: number = Date.now()): void {
+    const last = this.samples.at(-1);
+    if (last && height <= last.height) {
+      return;
+    }
+
+    this.samples.push({ height, time });
+    if (this.samples.length > MAX_SAMPLES) {
+      this.samples.shift();
+    }
+  }
+
+  /**
+   * Returns the average time between two blocks in milliseconds, or null if
+   * not enough blocks have been observed yet.
+   */
+  averageBlockTimeMs(): number | null {
+    if (this.samples.length < 2) {
+      return null;
+    }
+
+    const first = this.samples[0];
+    const last = this.samples[this.samples.length - 1];
+    return (last.time - first.time) / (last.height - first.height);
+  }
+
+  /**
+   * Estimates the time until the given height is reached.
+   *
+   * @param currentHeight - The current block height.
+   * @param targetHeight - The block height to estimate the time for.
+   * @returns The estimated duration in milliseconds, or null if unknown.
+   */
+  estimateMsUntil(currentHeight: number, targetHeight: number): number | null {
+    const blockTimeMs = this.averageBlockTimeMs();
+    if (blockTimeMs === null) {
+      return null;
+    }
+    return Math.max(0, targetHeight - currentHeight) * blockTimeMs;
+  }
+
+  /**
+   * Discards all observations.
+   */
+  reset(): void {
+    this.samples = [];
+  }
+}
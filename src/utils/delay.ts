@@ -0,0 +1,32 @@
+/**
+ * Creates a signal-aware delay that can be interrupted by AbortSignal.
+ *
+ * @param ms - Delay duration in milliseconds
+ * @param signal - Optional AbortSignal for early termination
+ * @returns Promise that resolves after delay or immediately if aborted
+ */
+export function signalAwareDelay(
+  ms: number,
+  signal?: AbortSignal,
+): Promise<void> {
+  if (signal?.aborted) return Promise.resolve();
+
+  return new Promise<void>((resolve) => {
+    const timeoutId = setTimeout(() => {
+      cleanup();
+      resolve();
+    }, ms);
+
+    const abortHandler = () => {
+      cleanup();
+      resolve();
+    };
+
+    const cleanup = () => {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener("abort", abortHandler);
+    };
+
+    signal?.addEventListener("abort", abortHandler);
+  });
+}
@@ -0,0 +1,71 @@
+import { type ChainConfig } from "config/config.ts";
+import {
+  PipelineRun,
+  PipelineRunStatus,
+  PipelineStatusClassification,
+} from "src/types/executor.ts";
+import { logger } from "src/utils/logger.ts";
+import { redactSecret } from "src/utils/redact.ts";
+
+/**
+ * A trigger request that a dry run logs instead of sending.
+ */
+export interface DryRunRequest {
+  /** HTTP method, or RUN for local commands */
+  method: string;
+  /** Request URL, or the command line of local commands */
+  url: string;
+  ref?: string;
+  token?: string;
+  variables: Record<string, string>;
+}
+
+let dryRunPipelineCount = 0;
+
+/**
+ * Logs the trigger request a dry run would send and returns a simulated run
+ * instead of calling the pipeline backend.
+ *
+ * @param config - The chain configuration.
+ * @param request - The trigger request that would be sent.
+ * @returns The simulated run.
+ */
+export function simulatePipelineTrigger(
+  config: ChainConfig,
+  request: DryRunRequest,
+): PipelineRun {
+  const id = ++dryRunPipelineCount;
+
+  logger.info(`[DRY RUN] Would trigger pipeline for chain ${config.name}:
+                                  - Request: ${request.method} ${request.url}
+                                  - Ref: ${request.ref ?? "(none)"}
+                                  - Token: ${
+    request.token === undefined ? "(none)" : redactSecret(request.token)
+  }
+                                  - Variables: ${
+    JSON.stringify(request.variables)
+  }
+                                  - Simulated pipeline ID: ${id}`);
+
+  return { id, webUrl: `dry-run://pipelines/${id}`, status: "created" };
+}
+
+/**
+ * Returns the configured simulated status of a dry-run pipeline.
+ *
+ * @param config - The chain configuration.
+ * @param run - The simulated run.
+ * @returns The simulated terminal status.
+ */
+export function simulatePipelineStatus(
+  config: ChainConfig,
+  run: PipelineRun,
+): PipelineRunStatus {
+  logger.info(
+    `[DRY RUN] Simulating status ${config.dryRunPipelineStatus} for pipeline ${run.id}`,
+  );
+  return {
+    status: config.dryRunPipelineStatus,
+    classification: PipelineStatusClassification.TERMINAL,
+  };
+}
@@ -0,0 +1,12 @@
+import { createHmacSignature } from "src/utils/hmac.ts";
+import { assertEquals } from "test-assert";
+
+Deno.test("createHmacSignature should create a hex HMAC-SHA256 signature", async () => {
+  assertEquals(
+    await createHmacSignature(
+      "key",
+      "The quick brown fox jumps over the lazy dog",
+    ),
+    "f7bc83f430538424b13298e6aa6fb143ef4d59a14946175997479dbc2d1a3cd8",
+  );
+});
@@ -0,0 +1,30 @@
+const encoder = new TextEncoder();
+
+/**
+ * Signs a payload with HMAC-SHA256.
+ *
+ * @param secret - The shared secret.
+ * @param payload - The payload to sign.
+ * @returns The signature as lowercase hex string.
+ */
+export async function createHmacSignature(
+  secret: string,
+  payload: string,
+): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    encoder.encode(payload),
+  );
+
+  return Array.from(new Uint8Array(signature))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
@@ -1,5 +1,10 @@
 import { isFailure, isSuccess, NetworkError } from "src/types/result.ts";
-import { fetchJson, safeGet } from "src/utils/http.ts";
+import {
+  fetchJson,
+  runWithRequestChain,
+  safeGet,
+  setFetchObserver,
+} from "src/utils/http.ts";
 import { assertEquals } from "test-assert";
 
 async function withMockedFetch<T>(
@@ -248,6 +253,36 @@ Deno.test("fetchJson should handle response body consumption errors gracefully",
 
 // safeGet Tests - Success Cases
 
+Deno.test("fetchJson should notify the fetch observer", async () => {
+  const observed: { url: string; ok: boolean; chain: string | null }[] = [];
+  setFetchObserver((url, durationMs, ok, chain) => {
+    assertEquals(durationMs >= 0, true);
+    observed.push({ url, ok, chain });
+  });
+
+  try {
+    await withMockedFetch(
+      () => Promise.resolve(createMockJsonResponse({})),
+      () => fetchJson("https://api.example.com/ok"),
+    );
+    await withMockedFetch(
+      () => Promise.resolve(createMockErrorResponse("Not Found", 404)),
+      () =>
+        runWithRequestChain(
+          "cosmoshub",
+          () => fetchJson("https://api.example.com/missing"),
+        ),
+    );
+  } finally {
+    setFetchObserver(null);
+  }
+
+  assertEquals(observed, [
+    { url: "https://api.example.com/ok", ok: true, chain: null },
+    { url: "https://api.example.com/missing", ok: false, chain: "cosmoshub" },
+  ]);
+});
+
 Deno.test("safeGet should return value for valid path", () => {
   const testData = {
     user: {
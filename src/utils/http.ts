@@ -1,6 +1,34 @@
+import { AsyncLocalStorage } from "node:async_hooks";
 import { failure, NetworkError, Result, success } from "src/types/result.ts";
 import { logError } from "src/utils/logger.ts";
-import { HttpResponse } from "src/types/http.ts";
+import { FetchObserver, HttpResponse } from "src/types/http.ts";
+
+let fetchObserver: FetchObserver | null = null;
+const requestChain = new AsyncLocalStorage<string>();
+
+/**
+ * Sets the observer notified after every fetchJson request, e.g. to record
+ * request metrics. Pass null to remove it.
+ *
+ * @param observer - The observer, or null.
+ */
+export function setFetchObserver(observer: FetchObserver | null): void {
+  fetchObserver = observer;
+}
+
+/**
+ * Runs a function with every fetchJson request it makes, including those of
+ * tasks it starts, attributed to the given chain. Chains commonly share
+ * CI/CD APIs and public REST providers, so the URL alone does not tell
+ * which chain a request belongs to.
+ *
+ * @param chain - The chain name.
+ * @param fn - The function to run.
+ * @returns The result of the function.
+ */
+export function runWithRequestChain<T>(chain: string, fn: () => T): T {
+  return requestChain.run(chain, fn);
+}
 
 /**
  * Consumes response body completely to free resources and prevent memory leaks.
@@ -92,6 +120,8 @@ export async function fetchJson<T>(
   options?: RequestInit,
 ): Promise<Result<HttpResponse<T>, NetworkError>> {
   let response: Response | undefined;
+  let ok = false;
+  const startedAt = performance.now();
   try {
     response = await fetch(url, options);
 
@@ -105,6 +135,7 @@ export async function fetchJson<T>(
     const data = await response.json();
 
     const result = processSuccessResponse(response, data);
+    ok = true;
 
     return success(result);
   } catch (err) {
@@ -115,6 +146,12 @@ export async function fetchJson<T>(
     return failure(createNetworkError(err, url));
   } finally {
     response = undefined;
+    fetchObserver?.(
+      url,
+      performance.now() - startedAt,
+      ok,
+      requestChain.getStore() ?? null,
+    );
   }
 }
 
@@ -1,4 +1,4 @@
-import { logError, logger } from "src/utils/logger.ts";
+import { createChainLogger, logError, logger } from "src/utils/logger.ts";
 import { assertSpyCall, stub } from "test-mock";
 
 Deno.test("logError should correctly log an Error instance", () => {
@@ -43,3 +43,23 @@ Deno.test("logError should correctly log a non-Error value", () => {
     errorStub.restore();
   }
 });
+
+Deno.test("createChainLogger should prefix messages with the chain name", () => {
+  // Arrange: Stub the logger's info method.
+  const infoStub = stub(logger, "info");
+
+  try {
+    const chainLogger = createChainLogger("cosmoshub");
+
+    // Act: Log through the chain logger.
+    chainLogger.info("Upgrade plan detected", 42);
+
+    // Assert: The message is prefixed and extra arguments are passed through.
+    assertSpyCall(infoStub, 0, {
+      args: ["[cosmoshub] Upgrade plan detected", 42],
+    });
+  } finally {
+    // Teardown: Restore the original method.
+    infoStub.restore();
+  }
+});
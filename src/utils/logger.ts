@@ -78,6 +78,36 @@ export function logError(message: string, error: unknown): void {
   }
 }
 
+/**
+ * Minimal logging interface used by components that run once per chain.
+ */
+export interface ChainLogger {
+  debug(message: string, ...args: unknown[]): void;
+  info(message: string, ...args: unknown[]): void;
+  warn(message: string, ...args: unknown[]): void;
+  error(message: string, ...args: unknown[]): void;
+  critical(message: string, ...args: unknown[]): void;
+}
+
+/**
+ * Creates a logger that prefixes every message with the given chain name,
+ * so the output of concurrently running monitors stays distinguishable.
+ *
+ * @param chainName - The configured name of the chain.
+ * @returns A ChainLogger delegating to the application-wide logger.
+ */
+export function createChainLogger(chainName: string): ChainLogger {
+  const prefix = `[${chainName}]`;
+  return {
+    debug: (message, ...args) => logger.debug(`${prefix} ${message}`, ...args),
+    info: (message, ...args) => logger.info(`${prefix} ${message}`, ...args),
+    warn: (message, ...args) => logger.warn(`${prefix} ${message}`, ...args),
+    error: (message, ...args) => logger.error(`${prefix} ${message}`, ...args),
+    critical: (message, ...args) =>
+      logger.critical(`${prefix} ${message}`, ...args),
+  };
+}
+
 /**
  * Logger instance for application-wide logging.
  *
@@ -0,0 +1,11 @@
+import { redactSecret } from "src/utils/redact.ts";
+import { assertEquals } from "test-assert";
+
+Deno.test("redactSecret should keep a short prefix of long secrets", () => {
+  assertEquals(redactSecret("glptt-0123456789abcdef"), "glpt****");
+});
+
+Deno.test("redactSecret should fully mask short secrets", () => {
+  assertEquals(redactSecret("secret"), "****");
+  assertEquals(redactSecret(""), "");
+});
@@ -0,0 +1,15 @@
+const VISIBLE_PREFIX_LENGTH = 4;
+const MIN_PARTIAL_LENGTH = 12;
+
+/**
+ * Redacts a secret for logging. Long secrets keep a short prefix so the
+ * token type stays recognizable, short ones are masked completely.
+ *
+ * @param secret - The secret to redact.
+ * @returns The redacted secret, e.g. `glpt****`.
+ */
+export function redactSecret(secret: string): string {
+  if (!secret) return "";
+  if (secret.length < MIN_PARTIAL_LENGTH) return "****";
+  return `${secret.slice(0, VISIBLE_PREFIX_LENGTH)}****`;
+}
@@ -0,0 +1,177 @@
+import { SmtpConfig } from "src/types/notifications.ts";
+import { formatMimeMessage, sendMail } from "src/utils/smtp.ts";
+import { assertEquals, assertRejects, assertStringIncludes } from "test-assert";
+import { stub } from "test-mock";
+import { FakeTime } from "test-time";
+
+const MESSAGE = {
+  from: "cosmotrigger@example.com",
+  to: ["ops@example.com", "audit@example.com"],
+  subject: "Upgrade v2 succeeded",
+  text: "Upgrade pipeline 1 succeeded\n",
+};
+
+/**
+ * Runs a minimal SMTP server for a single session and records the commands
+ * it received.
+ */
+function startFakeServer(
+  replies: Record<string, string> = {},
+): { port: number; commands: string[]; done: Promise<void> } {
+  const listener = Deno.listen({ hostname: "127.0.0.1", port: 0 });
+  const commands: string[] = [];
+  const encoder = new TextEncoder();
+  const decoder = new TextDecoder();
+
+  const done = (async () => {
+    const conn = await listener.accept();
+    const send = (line: string) => conn.write(encoder.encode(`${line}\r\n`));
+    await send("220 smtp.example.com ready");
+
+    let buffer = "";
+    let inData = false;
+    const chunk = new Uint8Array(4096);
+    try {
+      while (true) {
+        const read = await conn.read(chunk);
+        if (read === null) break;
+        buffer += decoder.decode(chunk.subarray(0, read));
+
+        let end;
+        while ((end = buffer.indexOf("\r\n")) !== -1) {
+          const line = buffer.slice(0, end);
+          buffer = buffer.slice(end + 2);
+          if (inData) {
+            if (line === ".") {
+              inData = false;
+              await send("250 queued");
+            }
+            continue;
+          }
+
+          commands.push(line);
+          const verb = line.split(" ")[0];
+          if (verb === "EHLO") {
+            await send("250-smtp.example.com");
+            await send("250 AUTH PLAIN");
+          } else if (verb === "DATA") {
+            inData = true;
+            await send("354 go ahead");
+          } else if (verb === "QUIT") {
+            await send("221 bye");
+          } else {
+            await send(
+              replies[verb] ?? (verb === "AUTH" ? "235 ok" : "250 ok"),
+            );
+          }
+        }
+      }
+    } finally {
+      conn.close();
+      listener.close();
+    }
+  })();
+
+  return { port: (listener.addr as Deno.NetAddr).port, commands, done };
+}
+
+function createSmtpConfig(port: number): SmtpConfig {
+  return {
+    host: "127.0.0.1",
+    port,
+    security: "none",
+    username: "user",
+    password: "secret",
+    from: MESSAGE.from,
+    events: [],
+  };
+}
+
+Deno.test("formatMimeMessage should base64 encode the body and non-ASCII subjects", () => {
+  const mime = formatMimeMessage(
+    { ...MESSAGE, subject: "Upgrade für v2" },
+    new Date(0),
+  );
+
+  assertStringIncludes(mime, "To: ops@example.com, audit@example.com\r\n");
+  assertStringIncludes(mime, "Subject: =?UTF-8?B?VXBncmFkZSBmw7xyIHYy?=\r\n");
+  assertStringIncludes(mime, "Date: Thu, 01 Jan 1970 00:00:00 GMT\r\n");
+  assertEquals(
+    mime.split("\r\n\r\n")[1],
+    btoa("Upgrade pipeline 1 succeeded\r\n"),
+  );
+});
+
+Deno.test("formatMimeMessage should fold long subjects into short encoded words", () => {
+  const subject = "Größeres Upgrade für v2 auf dem Validator „cosmoshub“ — ✅";
+  const mime = formatMimeMessage({ ...MESSAGE, subject }, new Date(0));
+  const header = mime.slice(
+    mime.indexOf("Subject: "),
+    mime.indexOf("\r\nDate: "),
+  );
+  const words = header.slice("Subject: ".length).split("\r\n ");
+
+  assertEquals(words.length > 1, true);
+  assertEquals(words.every((word) => word.length <= 75), true);
+  const decoder = new TextDecoder();
+  assertEquals(
+    words.map((word) => {
+      const bytes = Uint8Array.from(
+        atob(word.slice("=?UTF-8?B?".length, -2)),
+        (c) => c.charCodeAt(0),
+      );
+      return decoder.decode(bytes);
+    }).join(""),
+    subject,
+  );
+});
+
+Deno.test("sendMail should authenticate and deliver to every recipient", async () => {
+  const server = startFakeServer();
+
+  await sendMail(createSmtpConfig(server.port), MESSAGE);
+  await server.done;
+
+  assertEquals(server.commands, [
+    "EHLO localhost",
+    `AUTH PLAIN ${btoa("\0user\0secret")}`,
+    "MAIL FROM:<cosmotrigger@example.com>",
+    "RCPT TO:<ops@example.com>",
+    "RCPT TO:<audit@example.com>",
+    "DATA",
+    "QUIT",
+  ]);
+});
+
+Deno.test("sendMail should fail when the server rejects a command", async () => {
+  const server = startFakeServer({ RCPT: "550 mailbox unavailable" });
+
+  await assertRejects(
+    () => sendMail(createSmtpConfig(server.port), MESSAGE),
+    Error,
+    "SMTP RCPT TO failed: 550 mailbox unavailable",
+  );
+  await server.done;
+});
+
+Deno.test("sendMail should time out when the server does not accept the connection", async () => {
+  const time = new FakeTime();
+  const connectStub = stub(
+    Deno,
+    "connect",
+    () => new Promise<Deno.TcpConn>(() => {}),
+  );
+
+  try {
+    const sending = assertRejects(
+      () => sendMail(createSmtpConfig(25), MESSAGE),
+      Error,
+      "SMTP connection timed out",
+    );
+    await time.tickAsync(30_000);
+    await sending;
+  } finally {
+    connectStub.restore();
+    time.restore();
+  }
+});
@@ -0,0 +1,272 @@
+import { EmailMessage, SmtpConfig } from "src/types/notifications.ts";
+
+const SMTP_TIMEOUT_MS = 30_000;
+const CLIENT_NAME = "localhost";
+const BASE64_LINE_LENGTH = 76;
+/** UTF-8 bytes per encoded word, keeping each word within 75 characters */
+const ENCODED_WORD_BYTES = 45;
+
+/**
+ * A reply of the SMTP server.
+ */
+type SmtpReply = {
+  code: number;
+  lines: string[];
+};
+
+/**
+ * Encodes text as UTF-8 base64.
+ *
+ * @param text - The text to encode.
+ */
+function toBase64(text: string): string {
+  let binary = "";
+  for (const byte of new TextEncoder().encode(text)) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+/**
+ * Encodes a header value as RFC 2047 encoded words if it is not plain
+ * ASCII. Each encoded word is at most 75 characters long and holds complete
+ * characters only; the words are folded onto continuation lines.
+ *
+ * @param value - The header value.
+ */
+function encodeHeader(value: string): string {
+  const singleLine = value.replace(/[\r\n]+/g, " ");
+  if (/^[\x20-\x7e]*$/.test(singleLine)) {
+    return singleLine;
+  }
+
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let chunk = "";
+  for (const char of singleLine) {
+    if (encoder.encode(chunk + char).length > ENCODED_WORD_BYTES) {
+      chunks.push(chunk);
+      chunk = "";
+    }
+    chunk += char;
+  }
+  chunks.push(chunk);
+
+  return chunks.map((text) => `=?UTF-8?B?${toBase64(text)}?=`).join("\r\n ");
+}
+
+/**
+ * Builds the MIME representation of a plain text email. The body is base64
+ * encoded, so it needs no dot-stuffing and survives servers without 8BITMIME.
+ *
+ * @param message - The email to format.
+ * @param date - The date of the email.
+ * @returns The email with CRLF line endings.
+ */
+export function formatMimeMessage(
+  message: EmailMessage,
+  date: Date = new Date(),
+): string {
+  const body = toBase64(message.text.replace(/\r?\n/g, "\r\n"));
+  const bodyLines: string[] = [];
+  for (let i = 0; i < body.length; i += BASE64_LINE_LENGTH) {
+    bodyLines.push(body.slice(i, i + BASE64_LINE_LENGTH));
+  }
+
+  return [
+    `From: ${message.from}`,
+    `To: ${message.to.join(", ")}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=UTF-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    ...bodyLines,
+  ].join("\r\n");
+}
+
+/**
+ * A line-based SMTP session on top of a TCP or TLS connection.
+ */
+class SmtpSession {
+  private buffer = "";
+  private readonly decoder = new TextDecoder();
+  private readonly encoder = new TextEncoder();
+
+  constructor(public conn: Deno.Conn) {}
+
+  /**
+   * Reads a complete, possibly multi-line, reply of the server.
+   */
+  async readReply(): Promise<SmtpReply> {
+    const lines: string[] = [];
+    const chunk = new Uint8Array(4096);
+
+    while (true) {
+      const end = this.buffer.indexOf("\r\n");
+      if (end === -1) {
+        const read = await this.conn.read(chunk);
+        if (read === null) {
+          throw new Error("SMTP server closed the connection");
+        }
+        this.buffer += this.decoder.decode(chunk.subarray(0, read), {
+          stream: true,
+        });
+        continue;
+      }
+
+      const line = this.buffer.slice(0, end);
+      this.buffer = this.buffer.slice(end + 2);
+      lines.push(line);
+      if (line.charAt(3) !== "-") {
+        return { code: parseInt(line.slice(0, 3), 10), lines };
+      }
+    }
+  }
+
+  /**
+   * Reads a reply and fails unless it has one of the expected codes.
+   *
+   * @param expected - The accepted reply codes.
+   * @param step - The protocol step, used in the error message.
+   */
+  async expect(expected: number[], step: string): Promise<SmtpReply> {
+    const reply = await this.readReply();
+    if (!expected.includes(reply.code)) {
+      throw new Error(
+        `SMTP ${step} failed: ${reply.lines.join(" ")}`,
+      );
+    }
+    return reply;
+  }
+
+  /**
+   * Sends a command and awaits a reply with one of the expected codes.
+   *
+   * @param line - The command without line ending.
+   * @param expected - The accepted reply codes.
+   * @param step - The protocol step, used in the error message.
+   */
+  async command(
+    line: string,
+    expected: number[],
+    step: string = line.split(" ")[0],
+  ): Promise<SmtpReply> {
+    await this.write(`${line}\r\n`);
+    return this.expect(expected, step);
+  }
+
+  /**
+   * Upgrades the connection to TLS after the server accepted STARTTLS.
+   * Data received before the handshake is discarded, so a man in the middle
+   * cannot inject replies that are read as if they were protected by TLS.
+   *
+   * @param hostname - The host name the server certificate must match.
+   */
+  async startTls(hostname: string): Promise<void> {
+    this.conn = await Deno.startTls(this.conn as Deno.TcpConn, { hostname });
+    this.buffer = "";
+  }
+
+  /**
+   * Writes raw data to the connection.
+   *
+   * @param data - The data to write.
+   */
+  async write(data: string): Promise<void> {
+    const bytes = this.encoder.encode(data);
+    let written = 0;
+    while (written < bytes.length) {
+      written += await this.conn.write(bytes.subarray(written));
+    }
+  }
+}
+
+/**
+ * Opens the connection to the SMTP server, using implicit TLS if configured.
+ * Connecting, including the TLS handshake, is aborted after the session
+ * timeout; a connection established later is closed right away.
+ *
+ * @param config - The SMTP configuration.
+ * @throws Error if the connection fails or times out.
+ */
+async function connect(config: SmtpConfig): Promise<Deno.Conn> {
+  const connecting = config.security === "tls"
+    ? Deno.connectTls({ hostname: config.host, port: config.port })
+    : Deno.connect({ hostname: config.host, port: config.port });
+
+  let timeoutId: number | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timeoutId = setTimeout(() => {
+      connecting.then((conn) => conn.close(), () => {});
+      reject(new Error("SMTP connection timed out"));
+    }, SMTP_TIMEOUT_MS);
+  });
+
+  try {
+    return await Promise.race([connecting, timeout]);
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Sends a plain text email through the configured SMTP server. The
+ * connection is upgraded with STARTTLS and authenticated with AUTH PLAIN as
+ * configured. The whole exchange is aborted after a fixed timeout.
+ *
+ * @param config - The SMTP configuration.
+ * @param message - The email to send.
+ * @throws Error if the connection fails or the server rejects a command.
+ */
+export async function sendMail(
+  config: SmtpConfig,
+  message: EmailMessage,
+): Promise<void> {
+  const session = new SmtpSession(await connect(config));
+  let timedOut = false;
+  const timeoutId = setTimeout(() => {
+    timedOut = true;
+    session.conn.close();
+  }, SMTP_TIMEOUT_MS);
+
+  try {
+    await session.expect([220], "greeting");
+    await session.command(`EHLO ${CLIENT_NAME}`, [250]);
+
+    if (config.security === "starttls") {
+      await session.command("STARTTLS", [220]);
+      await session.startTls(config.host);
+      await session.command(`EHLO ${CLIENT_NAME}`, [250]);
+    }
+
+    if (config.username) {
+      await session.command(
+        `AUTH PLAIN ${toBase64(`\0${config.username}\0${config.password}`)}`,
+        [235],
+        "AUTH",
+      );
+    }
+
+    await session.command(`MAIL FROM:<${config.from}>`, [250], "MAIL FROM");
+    for (const recipient of message.to) {
+      await session.command(`RCPT TO:<${recipient}>`, [250, 251], "RCPT TO");
+    }
+    await session.command("DATA", [354]);
+    await session.write(`${formatMimeMessage(message)}\r\n.\r\n`);
+    await session.expect([250], "DATA");
+    await session.command("QUIT", [221]);
+  } catch (err) {
+    throw timedOut ? new Error("SMTP session timed out") : err;
+  } finally {
+    clearTimeout(timeoutId);
+    if (!timedOut) {
+      try {
+        session.conn.close();
+      } catch {
+        // Ignore already closed connections
+      }
+    }
+  }
+}
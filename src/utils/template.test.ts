@@ -0,0 +1,82 @@
+import { MonitorEvent } from "src/types/events.ts";
+import { ValidationError } from "src/types/result.ts";
+import { PIPELINE_VARIABLE_PLACEHOLDERS } from "src/types/template.ts";
+import {
+  createEventTemplateValues,
+  createUpgradeTemplateValues,
+  findUnknownPlaceholders,
+  renderTemplate,
+} from "src/utils/template.ts";
+import { assertEquals, assertThrows } from "test-assert";
+
+Deno.test("findUnknownPlaceholders should list placeholders outside the allowed set", () => {
+  assertEquals(
+    findUnknownPlaceholders("{{plan.name}} {{ chain.moniker }} {{plan.nmae}}"),
+    ["plan.nmae"],
+  );
+  assertEquals(
+    findUnknownPlaceholders(
+      "{{pipeline.url}}",
+      PIPELINE_VARIABLE_PLACEHOLDERS,
+    ),
+    ["pipeline.url"],
+  );
+});
+
+Deno.test("renderTemplate should replace placeholders and leave missing values empty", () => {
+  assertEquals(
+    renderTemplate("{{plan.name}} on {{chain.network}}: {{pipeline.url}}", {
+      "plan.name": "v2",
+      "chain.network": "cosmoshub-4",
+    }),
+    "v2 on cosmoshub-4: ",
+  );
+});
+
+Deno.test("renderTemplate should fail on unknown placeholders", () => {
+  assertThrows(
+    () => renderTemplate("{{chain.id}}", {}),
+    ValidationError,
+    "Unknown template placeholder: {{chain.id}}",
+  );
+});
+
+Deno.test("createUpgradeTemplateValues should describe the upgrade", () => {
+  assertEquals(
+    createUpgradeTemplateValues({
+      chainId: "cosmoshub-4",
+      moniker: "validator-1",
+      version: "v1.0.0",
+      plan: { name: "v2", height: 1000, time: null, info: "", binaries: {} },
+      phase: "execute",
+    }),
+    {
+      "chain.network": "cosmoshub-4",
+      "chain.moniker": "validator-1",
+      "node.version": "v1.0.0",
+      "plan.name": "v2",
+      "plan.height": "1000",
+    },
+  );
+  assertEquals(createUpgradeTemplateValues(), {});
+});
+
+Deno.test("createEventTemplateValues should read the identity and details of an event", () => {
+  const event: MonitorEvent = {
+    type: "pipeline-failed",
+    severity: "critical",
+    chain: "test-chain",
+    identity: null,
+    message: "Upgrade pipeline 1 failed",
+    timestamp: new Date(0).toISOString(),
+    details: { planName: "v2", planHeight: 1000, webUrl: "https://ci/1" },
+  };
+
+  assertEquals(
+    renderTemplate(
+      "[{{event.severity}}] {{chain.name}} {{plan.name}}@{{plan.height}} {{chain.moniker}}{{pipeline.url}}",
+      createEventTemplateValues(event),
+    ),
+    "[critical] test-chain v2@1000 https://ci/1",
+  );
+});
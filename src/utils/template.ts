@@ -0,0 +1,95 @@
+import { MonitorEvent } from "src/types/events.ts";
+import { UpgradeContext } from "src/types/executor.ts";
+import {
+  TEMPLATE_PLACEHOLDERS,
+  TemplatePlaceholder,
+  TemplateValues,
+} from "src/types/template.ts";
+import { ValidationError } from "src/types/result.ts";
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([^{}]*?)\s*\}\}/g;
+
+/**
+ * Lists the placeholders of a template that are not in the allowed set.
+ *
+ * @param template - The template, e.g. `"{{plan.name}} on {{chain.network}}"`.
+ * @param allowed - The placeholders the template may use.
+ * @returns The unknown placeholder names in order of appearance.
+ */
+export function findUnknownPlaceholders(
+  template: string,
+  allowed: ReadonlyArray<TemplatePlaceholder> = TEMPLATE_PLACEHOLDERS,
+): string[] {
+  return [...template.matchAll(PLACEHOLDER_PATTERN)]
+    .map((match) => match[1])
+    .filter((name) => !allowed.includes(name as TemplatePlaceholder));
+}
+
+/**
+ * Replaces the placeholders of a template with their runtime values.
+ * Placeholders without a value render as empty strings.
+ *
+ * @param template - The template.
+ * @param values - The runtime values.
+ * @returns The rendered text.
+ * @throws ValidationError if the template uses an unknown placeholder.
+ */
+export function renderTemplate(
+  template: string,
+  values: TemplateValues,
+): string {
+  return template.replace(PLACEHOLDER_PATTERN, (_match, name: string) => {
+    if (!TEMPLATE_PLACEHOLDERS.includes(name as TemplatePlaceholder)) {
+      throw new ValidationError(`Unknown template placeholder: {{${name}}}`);
+    }
+    return values[name as TemplatePlaceholder] ?? "";
+  });
+}
+
+/**
+ * Creates the template values describing the upgrade a pipeline is
+ * triggered for.
+ *
+ * @param upgrade - The upgrade context, if any.
+ * @returns The chain, node and plan values.
+ */
+export function createUpgradeTemplateValues(
+  upgrade?: UpgradeContext,
+): TemplateValues {
+  if (!upgrade) return {};
+
+  return {
+    "chain.network": upgrade.chainId,
+    "chain.moniker": upgrade.moniker,
+    "node.version": upgrade.version,
+    "plan.name": upgrade.plan.name,
+    "plan.height": String(upgrade.plan.height),
+  };
+}
+
+/**
+ * Creates the template values of a monitor event.
+ *
+ * @param event - The monitor event.
+ * @returns The event, chain, node, plan and pipeline values known for it.
+ */
+export function createEventTemplateValues(
+  event: MonitorEvent,
+): TemplateValues {
+  const { details, identity } = event;
+  const optional = (value: unknown): string | undefined =>
+    value === null || value === undefined ? undefined : String(value);
+
+  return {
+    "chain.name": event.chain,
+    "chain.network": identity?.network,
+    "chain.moniker": identity?.moniker,
+    "node.version": identity?.version,
+    "plan.name": optional(details.planName),
+    "plan.height": optional(details.planHeight),
+    "pipeline.url": optional(details.webUrl),
+    "event.type": event.type,
+    "event.severity": event.severity,
+    "event.message": event.message,
+  };
+}
@@ -1,25 +1,24 @@
-import { type Config } from "config/config.ts";
-import { parseCicdVariables } from "src/utils/variable-parser.ts";
+import { type ChainConfig } from "config/config.ts";
+import { createMockChainConfig } from "src/test-utils/config.ts";
+import {
+  createPlanVariables,
+  parseCicdVariables,
+} from "src/utils/variable-parser.ts";
 import { assertEquals, assertThrows } from "test-assert";
 import { stub } from "test-mock";
 
+function createMockConfig(cicdVariables: string): ChainConfig {
+  return createMockChainConfig({ cicdVariables });
+}
+
 Deno.test(
   "parseCicdVariables should correctly format a valid JSON string",
   () => {
     // Arrange: Create a mock config with valid JSON string.
-    const mockConfig: Config = {
-      applicationPort: 8080,
-      pollIntervalMs: 2000,
-      cosmosNodeRestUrl: "http://localhost:1317",
-      cicdTriggerToken: "test-token",
-      cicdPersonalAccessToken: "test-pat",
-      cicdUpdateBranch: "main",
-      cicdProjectApiUrl: "https://gitlab.example.com/api/v4/projects/1234",
-      cicdVariables: JSON.stringify({
-        PROVIDER: "aws",
-        REGION: "eu-central-1",
-      }),
-    };
+    const mockConfig = createMockConfig(JSON.stringify({
+      PROVIDER: "aws",
+      REGION: "eu-central-1",
+    }));
 
     // Act: Execute the function under test.
     const result = parseCicdVariables(mockConfig);
@@ -33,20 +32,35 @@ Deno.test(
   },
 );
 
+Deno.test(
+  "parseCicdVariables should render placeholders in variable values",
+  () => {
+    // Arrange: Create a mock config referencing the plan and chain.
+    const mockConfig = createMockConfig(JSON.stringify({
+      IMAGE_TAG: "{{plan.name}}",
+      RELEASE: "{{ chain.network }}-{{plan.height}}",
+    }));
+
+    // Act: Execute the function with runtime values.
+    const result = parseCicdVariables(mockConfig, {
+      "chain.network": "cosmoshub-4",
+      "plan.name": "v2",
+      "plan.height": "1000",
+    });
+
+    // Assert: The placeholders are replaced by their values.
+    assertEquals(result, {
+      "variables[IMAGE_TAG]": "v2",
+      "variables[RELEASE]": "cosmoshub-4-1000",
+    });
+  },
+);
+
 Deno.test(
   "parseCicdVariables should return an empty object for an empty string",
   () => {
     // Arrange: Create a mock config with empty string.
-    const mockConfig: Config = {
-      applicationPort: 8080,
-      pollIntervalMs: 2000,
-      cosmosNodeRestUrl: "http://localhost:1317",
-      cicdTriggerToken: "test-token",
-      cicdPersonalAccessToken: "test-pat",
-      cicdUpdateBranch: "main",
-      cicdProjectApiUrl: "https://gitlab.example.com/api/v4/projects/1234",
-      cicdVariables: "",
-    };
+    const mockConfig = createMockConfig("");
 
     // Act: Execute the function.
     const result = parseCicdVariables(mockConfig);
@@ -60,16 +74,8 @@ Deno.test(
   "parseCicdVariables should throw an error for malformed JSON and not log",
   () => {
     // Arrange: Create a mock config with invalid JSON and stub console.error to silence output.
-    const mockConfig: Config = {
-      applicationPort: 8080,
-      pollIntervalMs: 2000,
-      cosmosNodeRestUrl: "http://localhost:1317",
-      cicdTriggerToken: "test-token",
-      cicdPersonalAccessToken: "test-pat",
-      cicdUpdateBranch: "main",
-      cicdProjectApiUrl: "https://gitlab.example.com/api/v4/projects/1234",
-      cicdVariables: "{ 'key': 'value' }", // Invalid JSON uses single quotes.
-    };
+    // Invalid JSON uses single quotes.
+    const mockConfig = createMockConfig("{ 'key': 'value' }");
 
     const consoleStub = stub(console, "error");
 
@@ -82,3 +88,32 @@ Deno.test(
     }
   },
 );
+
+Deno.test(
+  "createPlanVariables should describe the upgrade plan",
+  () => {
+    // Arrange: Create an upgrade plan with a single binary.
+    const plan = {
+      name: "v2",
+      height: 1000,
+      time: null,
+      info: '{"binaries":{"linux/amd64":"https://example.com/bin"}}',
+      binaries: {
+        "linux/amd64": { url: "https://example.com/bin", checksum: null },
+      },
+    };
+
+    // Act: Execute the function under test.
+    const result = createPlanVariables(plan);
+
+    // Assert: All plan details are available as plain variables.
+    assertEquals(result, {
+      UPGRADE_NAME: "v2",
+      UPGRADE_HEIGHT: "1000",
+      UPGRADE_TIME: "",
+      UPGRADE_INFO: plan.info,
+      UPGRADE_BINARIES:
+        '{"linux/amd64":{"url":"https://example.com/bin","checksum":null}}',
+    });
+  },
+);
@@ -1,3 +1,42 @@
+import { type ChainConfig } from "config/config.ts";
+import { TemplateValues } from "src/types/template.ts";
+import { UpgradePlan } from "src/types/upgrade-plan.ts";
+import { logError } from "src/utils/logger.ts";
+import { renderTemplate } from "src/utils/template.ts";
+
+/**
+ * Parses a JSON string of pipeline variables into a plain object and renders
+ * the placeholders in its values, e.g. `{"TAG": "{{plan.name}}"}`.
+ *
+ * @param raw - The JSON string, e.g. `{"PROVIDER": "aws"}`.
+ * @param source - Name of the setting the JSON came from, used in errors.
+ * @param values - The runtime values of the placeholders.
+ * @returns The parsed variables, or an empty object for an empty string.
+ */
+export function parseVariables(
+  raw: string,
+  source: string,
+  values: TemplateValues = {},
+): Record<string, string> {
+  if (!raw) return {};
+
+  let variables: Record<string, string>;
+  try {
+    variables = JSON.parse(raw);
+  } catch (err) {
+    logError(`Invalid ${source} JSON format`, err);
+    throw err;
+  }
+
+  const rendered: Record<string, string> = {};
+  for (const [key, value] of Object.entries(variables)) {
+    rendered[key] = typeof value === "string"
+      ? renderTemplate(value, values)
+      : value;
+  }
+  return rendered;
+}
+
 /**
  * Transforms a plain object of CI/CD variables into GitLab CI/CD trigger variables
  * with 'variables[KEY]' keys.
@@ -14,26 +53,49 @@
  *   "variables[REGION]": "eu-central-1"
  * }
  */
-import { type Config } from "config/config.ts";
-import { logError } from "src/utils/logger.ts";
-
-export function parseCicdVariables(config: Config): Record<string, string> {
-  const cicdVariablesRaw = config.cicdVariables;
-  if (!cicdVariablesRaw) return {};
-
-  let cicdVariables: Record<string, string>;
-
-  try {
-    cicdVariables = JSON.parse(cicdVariablesRaw);
-  } catch (err) {
-    logError("Invalid CICD_VARIABLES JSON format", err);
-    throw err;
+export function formatTriggerVariables(
+  variables: Record<string, string>,
+): Record<string, string> {
+  const formatted: Record<string, string> = {};
+  for (const [key, value] of Object.entries(variables)) {
+    formatted[`variables[${key}]`] = value;
   }
 
-  const variables: Record<string, string> = {};
-  for (const [key, value] of Object.entries(cicdVariables)) {
-    variables[`variables[${key}]`] = value;
-  }
+  return formatted;
+}
 
-  return variables;
+/**
+ * Parses the configured CICD_VARIABLES into GitLab CI/CD trigger variables.
+ *
+ * @param config - The chain configuration.
+ * @param values - The runtime values of the placeholders.
+ * @returns The trigger variables with 'variables[KEY]' keys.
+ */
+export function parseCicdVariables(
+  config: ChainConfig,
+  values: TemplateValues = {},
+): Record<string, string> {
+  return formatTriggerVariables(
+    parseVariables(config.cicdVariables, "CICD_VARIABLES", values),
+  );
+}
+
+/**
+ * Creates the pipeline variables describing an upgrade plan. They are passed
+ * to every pipeline triggered for the plan alongside CICD_VARIABLES.
+ *
+ * @param plan - The upgrade plan.
+ * @returns Plain variables: UPGRADE_NAME, UPGRADE_HEIGHT, UPGRADE_TIME,
+ * UPGRADE_INFO and UPGRADE_BINARIES (JSON of the parsed binaries map).
+ */
+export function createPlanVariables(
+  plan: UpgradePlan,
+): Record<string, string> {
+  return {
+    UPGRADE_NAME: plan.name,
+    UPGRADE_HEIGHT: String(plan.height),
+    UPGRADE_TIME: plan.time ?? "",
+    UPGRADE_INFO: plan.info,
+    UPGRADE_BINARIES: JSON.stringify(plan.binaries),
+  };
 }